@@ -0,0 +1,120 @@
+/**
+ * Asset Metadata IPC Handlers
+ *
+ * Handles:
+ * - assetMetadata:list
+ * - assetMetadata:update
+ *
+ * Titles and tags are also written to the Mux asset (vidyeetClient.updateAsset)
+ * so that they follow the account; if that fails the entry is kept locally
+ * and marked syncPending until the next successful save. Tags of an asset whose
+ * passthrough was written by another tool are kept locally only (tagsSkipped)
+ *
+ * File names are also written by vidyeetClient.upload() when an upload completes,
+ * and entries are removed by vidyeetClient.deleteAsset()
+ */
+
+import { ipcMain } from "electron";
+import log from "electron-log/main";
+import AssetMetadataStore from "../services/assetMetadataStore";
+import UploadHistoryStore from "../services/uploadHistoryStore";
+import { updateAsset } from "../services/vidyeetClient";
+import {
+  IpcChannels,
+  isIpcError,
+  type IpcError,
+  type AssetMetadataListResponse,
+  type AssetMetadataUpdateRequest,
+  type AssetMetadataUpdateResponse,
+} from "../types/ipc";
+
+// Singleton store instance
+const store = new AssetMetadataStore();
+
+/**
+ * Fill in file names of assets uploaded before the metadata store existed
+ */
+function fillFileNamesFromHistory(): void {
+  try {
+    const entries = new UploadHistoryStore()
+      .getAll()
+      .filter((entry) => entry.status === "completed" && entry.assetId)
+      .map((entry) => ({ assetId: entry.assetId!, fileName: entry.fileName }));
+    store.fillFileNames(entries);
+  } catch (error) {
+    log.warn("[AssetMetadata] Failed to read file names from the upload history:", error);
+  }
+}
+
+/**
+ * Register asset metadata IPC handlers
+ */
+export function registerAssetMetadataHandlers(): void {
+  fillFileNamesFromHistory();
+
+  /**
+   * assetMetadata:list - Get metadata of all assets
+   */
+  ipcMain.handle(
+    IpcChannels.ASSET_METADATA_LIST,
+    (): AssetMetadataListResponse | IpcError => {
+      try {
+        return { items: store.getAll() };
+      } catch (error) {
+        return {
+          code: "ASSET_METADATA_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get asset metadata",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * assetMetadata:update - Update title, file name, notes and/or tags of an asset
+   * Title and tags are synced to Mux as well
+   */
+  ipcMain.handle(
+    IpcChannels.ASSET_METADATA_UPDATE,
+    async (_event, request: AssetMetadataUpdateRequest): Promise<AssetMetadataUpdateResponse | IpcError> => {
+      try {
+        if (!request?.assetId) {
+          return {
+            code: "ASSET_METADATA_ERROR",
+            message: "assetId is required",
+          };
+        }
+
+        const metadata = store.update(request);
+        if (request.title === undefined && request.tags === undefined) {
+          return { metadata };
+        }
+
+        // Write the whole title and tag set so a previously failed sync is caught up too
+        const result = await updateAsset({
+          assetId: metadata.assetId,
+          title: metadata.title,
+          tags: metadata.tags,
+        });
+        if (isIpcError(result)) {
+          log.warn("[AssetMetadata] Failed to sync to Mux:", result.message);
+          return {
+            metadata: store.setSyncPending(metadata.assetId, true) ?? metadata,
+            syncError: result,
+          };
+        }
+        return {
+          metadata: store.setSyncPending(metadata.assetId, false) ?? metadata,
+          asset: result.item,
+          ...(result.tagsSkipped ? { tagsSkipped: true } : {}),
+        };
+      } catch (error) {
+        return {
+          code: "ASSET_METADATA_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update asset metadata",
+          details: error,
+        };
+      }
+    }
+  );
+}
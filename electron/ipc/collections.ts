@@ -0,0 +1,134 @@
+/**
+ * Collection IPC Handlers
+ *
+ * Handles:
+ * - collections:list
+ * - collections:create
+ * - collections:rename
+ * - collections:delete
+ * - collections:addAssets
+ * - collections:removeAssets
+ *
+ * Deleted assets are taken out of every collection by vidyeetClient.deleteAsset()
+ */
+
+import { ipcMain } from "electron";
+import CollectionStore from "../services/collectionStore";
+import {
+  IpcChannels,
+  type IpcError,
+  type Collection,
+  type CollectionsResponse,
+  type CollectionCreateRequest,
+  type CollectionRenameRequest,
+  type CollectionDeleteRequest,
+  type CollectionDeleteResponse,
+  type CollectionAssetsRequest,
+} from "../types/ipc";
+
+// Singleton store instance
+const store = new CollectionStore();
+
+function notFound(id: string): IpcError {
+  return {
+    code: "COLLECTION_NOT_FOUND",
+    message: `Collection with id "${id}" not found`,
+  };
+}
+
+function toIpcError(error: unknown, fallback: string): IpcError {
+  return {
+    code: "COLLECTION_ERROR",
+    message: error instanceof Error ? error.message : fallback,
+    details: error,
+  };
+}
+
+/**
+ * Register collection IPC handlers
+ */
+export function registerCollectionHandlers(): void {
+  /**
+   * collections:list - Get all collections
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_LIST,
+    (): CollectionsResponse | IpcError => {
+      try {
+        return { collections: store.getAll() };
+      } catch (error) {
+        return toIpcError(error, "Failed to get collections");
+      }
+    }
+  );
+
+  /**
+   * collections:create - Create a collection
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_CREATE,
+    (_event, request: CollectionCreateRequest): Collection | IpcError => {
+      try {
+        return store.create(request.name, request.assetIds);
+      } catch (error) {
+        return toIpcError(error, "Failed to create collection");
+      }
+    }
+  );
+
+  /**
+   * collections:rename - Rename a collection
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_RENAME,
+    (_event, request: CollectionRenameRequest): Collection | IpcError => {
+      try {
+        return store.rename(request.id, request.name) ?? notFound(request.id);
+      } catch (error) {
+        return toIpcError(error, "Failed to rename collection");
+      }
+    }
+  );
+
+  /**
+   * collections:delete - Delete a collection (assets are kept)
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_DELETE,
+    (_event, request: CollectionDeleteRequest): CollectionDeleteResponse | IpcError => {
+      try {
+        return { success: store.remove(request.id) };
+      } catch (error) {
+        return toIpcError(error, "Failed to delete collection");
+      }
+    }
+  );
+
+  /**
+   * collections:addAssets - Add assets to a collection
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_ADD_ASSETS,
+    (_event, request: CollectionAssetsRequest): Collection | IpcError => {
+      try {
+        return store.addAssets(request.id, request.assetIds) ?? notFound(request.id);
+      } catch (error) {
+        return toIpcError(error, "Failed to add assets to collection");
+      }
+    }
+  );
+
+  /**
+   * collections:removeAssets - Remove assets from a collection
+   */
+  ipcMain.handle(
+    IpcChannels.COLLECTIONS_REMOVE_ASSETS,
+    (_event, request: CollectionAssetsRequest): Collection | IpcError => {
+      try {
+        return store.removeAssets(request.id, request.assetIds) ?? notFound(request.id);
+      } catch (error) {
+        return toIpcError(error, "Failed to remove assets from collection");
+      }
+    }
+  );
+}
@@ -0,0 +1,135 @@
+/**
+ * MP4 Download IPC Handlers
+ *
+ * Handles:
+ * - download:selectFolder
+ * - download:mp4
+ * - download:cancel
+ * - download:reveal
+ *
+ * Sends (Main → Renderer):
+ * - download:progress (to the window that started the download)
+ */
+
+import { ipcMain, dialog, shell, BrowserWindow, type OpenDialogOptions } from "electron";
+import { downloadMp4 } from "../services/mp4Download";
+import {
+  IpcChannels,
+  type IpcError,
+  type DownloadFolderResponse,
+  type Mp4DownloadRequest,
+  type Mp4DownloadResponse,
+  type DownloadCancelRequest,
+  type DownloadRevealRequest,
+} from "../types/ipc";
+
+/** Remember the last chosen folder for the next download */
+let lastDownloadDirectory: string | undefined;
+
+/** Running downloads by downloadId (aborted by download:cancel or on quit) */
+const activeDownloads = new Map<string, AbortController>();
+
+/**
+ * Register MP4 download IPC handlers
+ */
+export function registerDownloadHandlers(): void {
+  /**
+   * download:selectFolder - Pick the folder to save MP4 files into
+   */
+  ipcMain.handle(
+    IpcChannels.DOWNLOAD_SELECT_FOLDER,
+    async (): Promise<DownloadFolderResponse | IpcError> => {
+      try {
+        const focusedWindow = BrowserWindow.getFocusedWindow();
+        const dialogOptions: OpenDialogOptions = {
+          title: "Select folder to save the MP4",
+          defaultPath: lastDownloadDirectory,
+          properties: ["openDirectory", "createDirectory"],
+        };
+        const result = focusedWindow
+          ? await dialog.showOpenDialog(focusedWindow, dialogOptions)
+          : await dialog.showOpenDialog(dialogOptions);
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return { directory: null };
+        }
+
+        lastDownloadDirectory = result.filePaths[0];
+        return { directory: lastDownloadDirectory };
+      } catch (error) {
+        return {
+          code: "DOWNLOAD_ERROR",
+          message: error instanceof Error ? error.message : "Failed to select a folder",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * download:mp4 - Download highest.mp4 into the chosen folder (waits while Mux generates it)
+   */
+  ipcMain.handle(
+    IpcChannels.DOWNLOAD_MP4,
+    async (event, request: Mp4DownloadRequest): Promise<Mp4DownloadResponse | IpcError> => {
+      if (!request?.downloadId || !request.playbackId || !request.directory) {
+        return {
+          code: "DOWNLOAD_ERROR",
+          message: "downloadId, playbackId and directory are required",
+        };
+      }
+      if (activeDownloads.has(request.downloadId)) {
+        return {
+          code: "DOWNLOAD_ERROR",
+          message: "The download is already running",
+        };
+      }
+
+      const controller = new AbortController();
+      activeDownloads.set(request.downloadId, controller);
+      try {
+        return await downloadMp4(request, controller.signal, (progress) => {
+          if (!event.sender.isDestroyed()) {
+            event.sender.send(IpcChannels.DOWNLOAD_PROGRESS, progress);
+          }
+        });
+      } finally {
+        activeDownloads.delete(request.downloadId);
+      }
+    }
+  );
+
+  /**
+   * download:cancel - Stop waiting for or downloading an MP4
+   */
+  ipcMain.handle(
+    IpcChannels.DOWNLOAD_CANCEL,
+    (_event, request: DownloadCancelRequest): { success: boolean } => {
+      const controller = activeDownloads.get(request?.downloadId);
+      controller?.abort();
+      return { success: !!controller };
+    }
+  );
+
+  /**
+   * download:reveal - Show a saved MP4 in the file manager
+   */
+  ipcMain.handle(
+    IpcChannels.DOWNLOAD_REVEAL,
+    (_event, request: DownloadRevealRequest): void => {
+      if (request?.filePath) {
+        shell.showItemInFolder(request.filePath);
+      }
+    }
+  );
+}
+
+/**
+ * Abort all running downloads (on quit)
+ */
+export function cancelAllDownloads(): void {
+  for (const controller of activeDownloads.values()) {
+    controller.abort();
+  }
+  activeDownloads.clear();
+}
@@ -0,0 +1,239 @@
+/**
+ * Trash IPC Handlers
+ *
+ * Handles:
+ * - trash:list
+ * - trash:move
+ * - trash:restore
+ * - trash:purge
+ *
+ * Sends (Main → Renderer):
+ * - trash:purged (after scheduled and manual deletions)
+ *
+ * Deleting a video moves it to the trash first; the asset is deleted with the CLI
+ * (vidyeetClient.deleteAsset) once its grace period ends. The trash is stored on disk
+ * and checked on startup, so a pending deletion still happens after a restart
+ */
+
+import { ipcMain, BrowserWindow } from "electron";
+import log from "electron-log/main";
+import TrashStore from "../services/trashStore";
+import AssetMetadataStore from "../services/assetMetadataStore";
+import { deleteAsset } from "../services/vidyeetClient";
+import {
+  IpcChannels,
+  isIpcError,
+  type IpcError,
+  type TrashEntry,
+  type TrashListResponse,
+  type TrashMoveRequest,
+  type TrashRestoreRequest,
+  type TrashRestoreResponse,
+  type TrashPurgeRequest,
+  type TrashPurgeResponse,
+} from "../types/ipc";
+
+/** Wait after startup before the first check (lets the window and CLI settle) */
+const FIRST_CHECK_DELAY_MS = 30_000;
+
+/** How often the trash is checked for assets whose grace period has ended */
+const CHECK_INTERVAL_MS = 15 * 60 * 1000;
+
+// Singleton store instances
+const store = new TrashStore();
+const metadataStore = new AssetMetadataStore();
+
+let firstCheckTimer: ReturnType<typeof setTimeout> | null = null;
+let checkInterval: ReturnType<typeof setInterval> | null = null;
+
+/** Purges run one at a time so an asset is never deleted twice */
+let purgeChain: Promise<unknown> = Promise.resolve();
+
+function runExclusive<T>(task: () => Promise<T>): Promise<T> {
+  const run = purgeChain.then(task);
+  purgeChain = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Delete trashed assets with the CLI
+ * Pinned assets and failed deletions stay in the trash (failures are retried on the next check)
+ */
+async function purgeEntries(entries: TrashEntry[]): Promise<TrashPurgeResponse> {
+  const purgedAssetIds: string[] = [];
+  const failedAssetIds: string[] = [];
+  const pinned = new Set(metadataStore.getPinnedIds());
+
+  for (const entry of entries) {
+    // Entries may have been restored while an earlier deletion was running
+    if (!store.get(entry.assetId)) {
+      continue;
+    }
+    if (pinned.has(entry.assetId)) {
+      log.warn("[Trash] Skipped pinned asset:", entry.assetId);
+      failedAssetIds.push(entry.assetId);
+      continue;
+    }
+
+    const result = await deleteAsset({ assetId: entry.assetId });
+    if (isIpcError(result)) {
+      log.warn("[Trash] Failed to delete asset:", entry.assetId, result.message);
+      store.setError(entry.assetId, result.message);
+      failedAssetIds.push(entry.assetId);
+      continue;
+    }
+    store.remove([entry.assetId]);
+    purgedAssetIds.push(entry.assetId);
+  }
+
+  return { purgedAssetIds, failedAssetIds };
+}
+
+/**
+ * Register trash IPC handlers and start deleting assets whose grace period has ended
+ * @param getWindow Function to get the main window (may be null in tray-only mode)
+ */
+export function registerTrashHandlers(
+  getWindow: () => BrowserWindow | null,
+): void {
+  /** Let the renderer drop deleted assets from the library, collections and trash */
+  const notifyPurged = (result: TrashPurgeResponse): void => {
+    if (result.purgedAssetIds.length === 0) {
+      return;
+    }
+    const win = getWindow();
+    if (win && !win.isDestroyed()) {
+      win.webContents.send(IpcChannels.TRASH_PURGED, result);
+    }
+  };
+
+  const checkDue = async (): Promise<void> => {
+    try {
+      const result = await runExclusive(() => purgeEntries(store.getDue()));
+      if (result.purgedAssetIds.length > 0) {
+        log.info("[Trash] Deleted assets after the grace period:", result.purgedAssetIds);
+      }
+      notifyPurged(result);
+    } catch (error) {
+      log.error("[Trash] Failed to check the trash:", error);
+    }
+  };
+
+  firstCheckTimer = setTimeout(() => {
+    firstCheckTimer = null;
+    void checkDue();
+  }, FIRST_CHECK_DELAY_MS);
+  checkInterval = setInterval(() => {
+    void checkDue();
+  }, CHECK_INTERVAL_MS);
+
+  /**
+   * trash:list - Get all trashed assets
+   */
+  ipcMain.handle(
+    IpcChannels.TRASH_LIST,
+    (): TrashListResponse | IpcError => {
+      try {
+        return { entries: store.getAll() };
+      } catch (error) {
+        return {
+          code: "TRASH_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get the trash",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * trash:move - Move an asset to the trash (it stays on Mux until the grace period ends)
+   */
+  ipcMain.handle(
+    IpcChannels.TRASH_MOVE,
+    (_event, request: TrashMoveRequest): TrashEntry | IpcError => {
+      try {
+        if (!request?.assetId) {
+          return {
+            code: "TRASH_ERROR",
+            message: "assetId is required",
+          };
+        }
+        if (metadataStore.getPinnedIds().includes(request.assetId)) {
+          return {
+            code: "TRASH_ERROR",
+            message: "Pinned assets cannot be deleted",
+          };
+        }
+        return store.add(request);
+      } catch (error) {
+        return {
+          code: "TRASH_ERROR",
+          message: error instanceof Error ? error.message : "Failed to move the asset to the trash",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * trash:restore - Take assets out of the trash
+   */
+  ipcMain.handle(
+    IpcChannels.TRASH_RESTORE,
+    (_event, request: TrashRestoreRequest): TrashRestoreResponse | IpcError => {
+      try {
+        return { restoredAssetIds: store.remove(request?.assetIds ?? []) };
+      } catch (error) {
+        return {
+          code: "TRASH_ERROR",
+          message: error instanceof Error ? error.message : "Failed to restore from the trash",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * trash:purge - Delete trashed assets now, without waiting for the grace period
+   */
+  ipcMain.handle(
+    IpcChannels.TRASH_PURGE,
+    async (_event, request: TrashPurgeRequest): Promise<TrashPurgeResponse | IpcError> => {
+      try {
+        const assetIds = request?.assetIds ?? [];
+        const entries = assetIds
+          .map((assetId) => store.get(assetId))
+          .filter((entry): entry is TrashEntry => !!entry);
+        if (entries.length === 0) {
+          return {
+            code: "TRASH_NOT_FOUND",
+            message: "None of the assets are in the trash",
+          };
+        }
+        const result = await runExclusive(() => purgeEntries(entries));
+        notifyPurged(result);
+        return result;
+      } catch (error) {
+        return {
+          code: "TRASH_ERROR",
+          message: error instanceof Error ? error.message : "Failed to empty the trash",
+          details: error,
+        };
+      }
+    }
+  );
+}
+
+/**
+ * Stop checking the trash (on quit); pending deletions run after the next start
+ */
+export function stopTrashPurge(): void {
+  if (firstCheckTimer) {
+    clearTimeout(firstCheckTimer);
+    firstCheckTimer = null;
+  }
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+  }
+}
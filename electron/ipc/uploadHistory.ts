@@ -0,0 +1,143 @@
+/**
+ * Upload History IPC Handlers
+ *
+ * Handles:
+ * - uploadHistory:list
+ * - uploadHistory:export
+ * - uploadHistory:clear
+ * - uploadHistory:findDuplicates
+ *
+ * Entries are written by vidyeetClient.upload() when an upload completes or fails
+ */
+
+import { ipcMain, dialog, BrowserWindow, type SaveDialogOptions } from "electron";
+import fs from "fs";
+import UploadHistoryStore, { toCsv } from "../services/uploadHistoryStore";
+import { computeFingerprint } from "../services/fileFingerprint";
+import {
+  IpcChannels,
+  type IpcError,
+  type UploadHistoryListRequest,
+  type UploadHistoryListResponse,
+  type UploadHistoryExportRequest,
+  type UploadHistoryExportResponse,
+  type UploadHistoryClearResponse,
+  type UploadDuplicateCheckRequest,
+  type UploadDuplicateCheckResponse,
+} from "../types/ipc";
+
+// Singleton store instance
+const store = new UploadHistoryStore();
+
+/**
+ * Register upload history IPC handlers
+ */
+export function registerUploadHistoryHandlers(): void {
+  /**
+   * uploadHistory:list - Get (and optionally search) the history, newest first
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_HISTORY_LIST,
+    (_event, request: UploadHistoryListRequest): UploadHistoryListResponse | IpcError => {
+      try {
+        return { entries: store.search(request?.query ?? "") };
+      } catch (error) {
+        return {
+          code: "UPLOAD_HISTORY_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get upload history",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * uploadHistory:export - Save the whole history as CSV or JSON
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_HISTORY_EXPORT,
+    async (_event, request: UploadHistoryExportRequest): Promise<UploadHistoryExportResponse | IpcError> => {
+      try {
+        const isCsv = request.format === "csv";
+        const focusedWindow = BrowserWindow.getFocusedWindow();
+        const dialogOptions: SaveDialogOptions = {
+          title: "Export upload history",
+          defaultPath: `vidyeet-upload-history.${request.format}`,
+          filters: isCsv
+            ? [{ name: "CSV", extensions: ["csv"] }]
+            : [{ name: "JSON", extensions: ["json"] }],
+        };
+        const result = focusedWindow
+          ? await dialog.showSaveDialog(focusedWindow, dialogOptions)
+          : await dialog.showSaveDialog(dialogOptions);
+
+        if (result.canceled || !result.filePath) {
+          return { filePath: null };
+        }
+
+        const entries = store.getAll();
+        const content = isCsv ? toCsv(entries) : JSON.stringify(entries, null, 2);
+        // BOM so that Excel opens Japanese file names in CSV correctly
+        fs.writeFileSync(result.filePath, isCsv ? `\uFEFF${content}` : content, "utf-8");
+        return { filePath: result.filePath };
+      } catch (error) {
+        return {
+          code: "UPLOAD_HISTORY_ERROR",
+          message: error instanceof Error ? error.message : "Failed to export upload history",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * uploadHistory:clear - Remove all entries
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_HISTORY_CLEAR,
+    (): UploadHistoryClearResponse | IpcError => {
+      try {
+        store.clear();
+        return { success: true };
+      } catch (error) {
+        return {
+          code: "UPLOAD_HISTORY_ERROR",
+          message: error instanceof Error ? error.message : "Failed to clear upload history",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * uploadHistory:findDuplicates - Fingerprint files and look them up in the history
+   * Comparing against the current queue is done by the renderer
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_HISTORY_FIND_DUPLICATES,
+    async (_event, request: UploadDuplicateCheckRequest): Promise<UploadDuplicateCheckResponse | IpcError> => {
+      try {
+        const results = [];
+        for (const filePath of request.filePaths) {
+          let fingerprint: string | null = null;
+          try {
+            fingerprint = await computeFingerprint(filePath);
+          } catch {
+            // Unreadable files are reported by the upload itself
+          }
+          const previous = fingerprint
+            ? store.findCompletedByFingerprint(fingerprint) ?? null
+            : null;
+          results.push({ filePath, fingerprint, previous });
+        }
+        return { results };
+      } catch (error) {
+        return {
+          code: "UPLOAD_HISTORY_ERROR",
+          message: error instanceof Error ? error.message : "Failed to check for duplicates",
+          details: error,
+        };
+      }
+    }
+  );
+}
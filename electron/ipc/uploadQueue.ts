@@ -0,0 +1,72 @@
+/**
+ * Upload Queue IPC Handlers
+ *
+ * Handles:
+ * - uploadQueue:get
+ * - uploadQueue:save
+ *
+ * Sends (Main → Renderer):
+ * - uploadQueue:command (from the tray menu, see main.ts)
+ */
+
+import { ipcMain } from "electron";
+import fs from "fs";
+import UploadQueueStore from "../services/uploadQueueStore";
+import {
+  IpcChannels,
+  type IpcError,
+  type UploadQueueGetResponse,
+  type UploadQueueSaveRequest,
+  type UploadQueueSaveResponse,
+} from "../types/ipc";
+
+// Singleton store instance
+const store = new UploadQueueStore();
+
+/**
+ * Register upload queue IPC handlers
+ * @param onQueueChange Called after every save (used to refresh the tray menu)
+ */
+export function registerUploadQueueHandlers(
+  onQueueChange?: (request: UploadQueueSaveRequest) => void,
+): void {
+  /**
+   * uploadQueue:get - Get the queue left over from the previous session
+   * Files that were moved or deleted since then are skipped
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_QUEUE_GET,
+    (): UploadQueueGetResponse | IpcError => {
+      try {
+        const items = store.getAll().filter((item) => fs.existsSync(item.filePath));
+        return { items, isPaused: store.isPaused() };
+      } catch (error) {
+        return {
+          code: "UPLOAD_QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get upload queue",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * uploadQueue:save - Replace the persisted queue
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_QUEUE_SAVE,
+    (_event, request: UploadQueueSaveRequest): UploadQueueSaveResponse | IpcError => {
+      try {
+        store.save(request.items, !!request.isPaused);
+        onQueueChange?.(request);
+        return { success: true };
+      } catch (error) {
+        return {
+          code: "UPLOAD_QUEUE_ERROR",
+          message: error instanceof Error ? error.message : "Failed to save upload queue",
+          details: error,
+        };
+      }
+    }
+  );
+}
@@ -1,27 +1,39 @@
 /**
  * Vidyeet IPC Handlers
  *
- * Handles: STATUS, LOGIN, LOGOUT, LIST, DELETE, SELECT_FILE, UPLOAD
+ * Handles: STATUS, LOGIN, LOGOUT, LIST, SHOW, UPDATE_ASSET, DELETE, SELECT_FILE, UPLOAD,
+ * UPLOAD_CANCEL, UPLOAD_SET_RATE_LIMIT, PROBE_FILE
  */
 
 import { ipcMain } from "electron";
 import {
   IpcChannels,
   type LoginRequest,
+  type ListRequest,
+  type ShowRequest,
+  type UpdateAssetRequest,
   type DeleteRequest,
   type UploadRequest,
   type UploadProgress,
+  type UploadRateLimitRequest,
+  type ProbeFileRequest,
+  type MediaProbeResult,
+  type IpcError,
 } from "../types/ipc";
 import {
   getStatus,
   login,
   logout,
   getList,
+  showAsset,
+  updateAsset,
   deleteAsset,
   selectFile,
   upload,
   cancelUpload,
 } from "../services/vidyeetClient";
+import { probeMediaFile } from "../services/mediaProbe";
+import { setRateLimitSettings } from "../services/uploadRateLimit";
 
 export function registerVidyeetHandlers(): void {
   /**
@@ -46,10 +58,24 @@ export function registerVidyeetHandlers(): void {
   });
 
   /**
-   * vidyeet:list - アセット一覧を取得
+   * vidyeet:list - アセット一覧を取得（limit 指定時はページ単位）
    */
-  ipcMain.handle(IpcChannels.LIST, async () => {
-    return await getList();
+  ipcMain.handle(IpcChannels.LIST, async (_event, request?: ListRequest) => {
+    return await getList(request);
+  });
+
+  /**
+   * vidyeet:show - アセット1件の最新の状態を取得
+   */
+  ipcMain.handle(IpcChannels.SHOW, async (_event, request: ShowRequest) => {
+    return await showAsset(request);
+  });
+
+  /**
+   * vidyeet:updateAsset - タイトル・タグを Mux のアセットに書き込む
+   */
+  ipcMain.handle(IpcChannels.UPDATE_ASSET, async (_event, request: UpdateAssetRequest) => {
+    return await updateAsset(request);
   });
 
   /**
@@ -68,12 +94,15 @@ export function registerVidyeetHandlers(): void {
 
   /**
    * vidyeet:upload - 動画をアップロード
-   * 進捗はイベントでRendererに送信
+   * 進捗はイベントでRendererに送信（並列アップロードに備え requestId を付与）
    */
   ipcMain.handle(IpcChannels.UPLOAD, async (event, request: UploadRequest) => {
     return await upload(request, (progress: UploadProgress) => {
       // 進捗をRendererに送信
-      event.sender.send(IpcChannels.UPLOAD_PROGRESS, progress);
+      event.sender.send(IpcChannels.UPLOAD_PROGRESS, {
+        ...progress,
+        requestId: request.requestId,
+      });
     });
   });
 
@@ -84,4 +113,33 @@ export function registerVidyeetHandlers(): void {
     const success = cancelUpload(payload.uploadId);
     return { success };
   });
+
+  /**
+   * vidyeet:upload:setRateLimit - 帯域上限の設定変更を実行中のアップロードに反映
+   */
+  ipcMain.handle(
+    IpcChannels.UPLOAD_SET_RATE_LIMIT,
+    (_event, request: UploadRateLimitRequest): { success: true } => {
+      setRateLimitSettings(request);
+      return { success: true };
+    },
+  );
+
+  /**
+   * vidyeet:probeFile - アップロード前にコンテナのヘッダーを読み、動画情報と問題を返す
+   */
+  ipcMain.handle(
+    IpcChannels.PROBE_FILE,
+    async (_event, request: ProbeFileRequest): Promise<MediaProbeResult | IpcError> => {
+      try {
+        return await probeMediaFile(request.filePath);
+      } catch (error) {
+        return {
+          code: "MEDIA_PROBE_ERROR",
+          message: error instanceof Error ? error.message : "Failed to read the file",
+          details: error,
+        };
+      }
+    }
+  );
 }
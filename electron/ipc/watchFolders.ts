@@ -0,0 +1,194 @@
+/**
+ * Watch Folder IPC Handlers
+ *
+ * Handles:
+ * - watchFolders:list
+ * - watchFolders:add
+ * - watchFolders:update
+ * - watchFolders:remove
+ * - watchFolders:takePending
+ *
+ * Sends (Main → Renderer):
+ * - watchFolders:fileDetected
+ */
+
+import { ipcMain, dialog, BrowserWindow, type OpenDialogOptions } from "electron";
+import path from "path";
+import WatchFolderStore from "../services/watchFolderStore";
+import { FolderWatcher } from "../services/folderWatcher";
+import {
+  IpcChannels,
+  type IpcError,
+  type WatchFolder,
+  type WatchFolderFile,
+  type WatchFoldersResponse,
+  type WatchFolderAddResponse,
+  type WatchFolderUpdateRequest,
+  type WatchFolderRemoveRequest,
+  type WatchFolderRemoveResponse,
+  type WatchFolderPendingResponse,
+} from "../types/ipc";
+
+// Singleton store instance
+const store = new WatchFolderStore();
+
+/** Files detected while no renderer was listening (e.g. tray-only startup) */
+let pendingFiles: WatchFolderFile[] = [];
+
+/** Whether the renderer has collected pending files and now receives events directly */
+let rendererReady = false;
+
+let watcher: FolderWatcher | null = null;
+
+/**
+ * Register watch folder IPC handlers and start watching the saved folders
+ * @param getWindow Function to get the main window (may be null in tray-only mode)
+ */
+export function registerWatchFolderHandlers(
+  getWindow: () => BrowserWindow | null,
+): void {
+  watcher = new FolderWatcher((folder, filePath) => {
+    const file: WatchFolderFile = {
+      folderId: folder.id,
+      filePath,
+      fileName: path.basename(filePath),
+      mode: folder.mode,
+    };
+    const win = getWindow();
+    if (rendererReady && win && !win.isDestroyed()) {
+      win.webContents.send(IpcChannels.WATCH_FOLDERS_FILE_DETECTED, file);
+    } else {
+      pendingFiles.push(file);
+    }
+  });
+  watcher.sync(store.getAll());
+
+  /**
+   * watchFolders:list - Get all watch folders
+   */
+  ipcMain.handle(
+    IpcChannels.WATCH_FOLDERS_LIST,
+    (): WatchFoldersResponse | IpcError => {
+      try {
+        return { folders: store.getAll() };
+      } catch (error) {
+        return {
+          code: "WATCH_FOLDER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to get watch folders",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * watchFolders:add - Pick a directory and start watching it
+   */
+  ipcMain.handle(
+    IpcChannels.WATCH_FOLDERS_ADD,
+    async (): Promise<WatchFolderAddResponse | IpcError> => {
+      try {
+        const focusedWindow = BrowserWindow.getFocusedWindow();
+        const dialogOptions: OpenDialogOptions = {
+          title: "Select folder to watch",
+          properties: ["openDirectory"],
+        };
+        const result = focusedWindow
+          ? await dialog.showOpenDialog(focusedWindow, dialogOptions)
+          : await dialog.showOpenDialog(dialogOptions);
+
+        if (result.canceled || result.filePaths.length === 0) {
+          return { folder: null };
+        }
+
+        const folder = store.add(result.filePaths[0]);
+        watcher?.sync(store.getAll());
+        return { folder };
+      } catch (error) {
+        return {
+          code: "WATCH_FOLDER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to add watch folder",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * watchFolders:update - Update patterns and/or mode
+   */
+  ipcMain.handle(
+    IpcChannels.WATCH_FOLDERS_UPDATE,
+    (_event, request: WatchFolderUpdateRequest): WatchFolder | IpcError => {
+      try {
+        const folder = store.update(request.id, {
+          patterns: request.patterns,
+          mode: request.mode,
+        });
+        if (!folder) {
+          return {
+            code: "WATCH_FOLDER_NOT_FOUND",
+            message: `Watch folder with id "${request.id}" not found`,
+          };
+        }
+        watcher?.sync(store.getAll());
+        return folder;
+      } catch (error) {
+        return {
+          code: "WATCH_FOLDER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to update watch folder",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * watchFolders:remove - Stop watching a folder
+   */
+  ipcMain.handle(
+    IpcChannels.WATCH_FOLDERS_REMOVE,
+    (_event, request: WatchFolderRemoveRequest): WatchFolderRemoveResponse | IpcError => {
+      try {
+        const removed = store.remove(request.id);
+        if (!removed) {
+          return {
+            code: "WATCH_FOLDER_NOT_FOUND",
+            message: `Watch folder with id "${request.id}" not found`,
+          };
+        }
+        watcher?.sync(store.getAll());
+        pendingFiles = pendingFiles.filter((file) => file.folderId !== request.id);
+        return { success: true };
+      } catch (error) {
+        return {
+          code: "WATCH_FOLDER_ERROR",
+          message: error instanceof Error ? error.message : "Failed to remove watch folder",
+          details: error,
+        };
+      }
+    }
+  );
+
+  /**
+   * watchFolders:takePending - Hand over files detected before the renderer was ready
+   * From then on, new files are sent as watchFolders:fileDetected events
+   */
+  ipcMain.handle(
+    IpcChannels.WATCH_FOLDERS_TAKE_PENDING,
+    (): WatchFolderPendingResponse => {
+      const files = pendingFiles;
+      pendingFiles = [];
+      rendererReady = true;
+      return { files };
+    }
+  );
+}
+
+/**
+ * Stop all folder watchers (on quit)
+ */
+export function stopWatchFolders(): void {
+  watcher?.stop();
+  watcher = null;
+}
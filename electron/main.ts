@@ -12,6 +12,8 @@ import {
   IpcChannels,
   type IpcError,
   type UpdateStatusPayload,
+  type UploadQueueCommandAction,
+  type UploadQueueSaveRequest,
 } from "./types/ipc";
 import { registerVidyeetHandlers } from "./ipc/vidyeet";
 import { registerWindowHandlers } from "./ipc/window";
@@ -26,6 +28,13 @@ import {
 } from "./ipc/updater";
 import { registerAutoLaunchHandlers } from "./ipc/autoLaunch";
 import { registerRichPresenceHandlers } from "./ipc/richPresence";
+import { registerUploadQueueHandlers } from "./ipc/uploadQueue";
+import { registerWatchFolderHandlers, stopWatchFolders } from "./ipc/watchFolders";
+import { registerUploadHistoryHandlers } from "./ipc/uploadHistory";
+import { registerAssetMetadataHandlers } from "./ipc/assetMetadata";
+import { registerCollectionHandlers } from "./ipc/collections";
+import { registerTrashHandlers, stopTrashPurge } from "./ipc/trash";
+import { registerDownloadHandlers, cancelAllDownloads } from "./ipc/download";
 import autoLaunchManager from "./services/autoLaunchManager";
 import { rpcdManager } from "./services/rpcdManager";
 import Store from "electron-store";
@@ -93,6 +102,12 @@ let win: BrowserWindow | null;
 let tray: Tray | null = null;
 let isQuitting = false;
 
+/** トレイメニューのアップロード操作の有効状態（Renderer のキュー保存時に更新） */
+const uploadTrayState = {
+  canPause: false,
+  canResume: false,
+};
+
 const BACKGROUND_UPDATE_CHECK_DELAY_MS = 10_000;
 
 type UpdateTrigger = "manual" | "background";
@@ -281,7 +296,30 @@ function createTray(): void {
 
   tray = new Tray(iconPath);
 
-  const contextMenu = Menu.buildFromTemplate([
+  tray.setToolTip("Vidyeet");
+  tray.setContextMenu(buildTrayMenu());
+
+  // トレイアイコンクリックでウィンドウの表示/非表示を切り替え
+  tray.on("click", () => {
+    if (win) {
+      if (win.isVisible()) {
+        win.hide();
+      } else {
+        win.show();
+        win.focus();
+      }
+    } else {
+      createWindow();
+    }
+  });
+}
+
+/**
+ * トレイのコンテキストメニューを構築
+ * アップロード操作は Renderer のキューの状態に応じて有効/無効を切り替える
+ */
+function buildTrayMenu(): Menu {
+  return Menu.buildFromTemplate([
     {
       label: "Vidyeetを表示",
       click: () => {
@@ -294,6 +332,17 @@ function createTray(): void {
       },
     },
     { type: "separator" },
+    {
+      label: "アップロードを一時停止",
+      enabled: uploadTrayState.canPause,
+      click: () => sendUploadQueueCommand("pauseAll"),
+    },
+    {
+      label: "アップロードを再開",
+      enabled: uploadTrayState.canResume,
+      click: () => sendUploadQueueCommand("resumeAll"),
+    },
+    { type: "separator" },
     {
       label: "Quit",
       click: () => {
@@ -302,23 +351,36 @@ function createTray(): void {
       },
     },
   ]);
+}
 
-  tray.setToolTip("Vidyeet");
-  tray.setContextMenu(contextMenu);
+/**
+ * トレイメニューからのアップロード操作を Renderer に送信
+ */
+function sendUploadQueueCommand(action: UploadQueueCommandAction): void {
+  win?.webContents.send(IpcChannels.UPLOAD_QUEUE_COMMAND, { action });
+}
 
-  // トレイアイコンクリックでウィンドウの表示/非表示を切り替え
-  tray.on("click", () => {
-    if (win) {
-      if (win.isVisible()) {
-        win.hide();
-      } else {
-        win.show();
-        win.focus();
-      }
-    } else {
-      createWindow();
-    }
-  });
+/**
+ * Renderer のキュー保存時にトレイメニューの有効状態を更新
+ */
+function updateUploadTrayState(request: UploadQueueSaveRequest): void {
+  const hasRunnable = request.items.some(
+    (item) => item.status === "waiting" || item.status === "uploading",
+  );
+  const hasPaused = request.items.some((item) => item.status === "paused");
+
+  const canPause = hasRunnable && !request.isPaused;
+  const canResume = hasPaused || (hasRunnable && !!request.isPaused);
+  if (
+    canPause === uploadTrayState.canPause &&
+    canResume === uploadTrayState.canResume
+  ) {
+    return;
+  }
+
+  uploadTrayState.canPause = canPause;
+  uploadTrayState.canResume = canResume;
+  tray?.setContextMenu(buildTrayMenu());
 }
 
 function createWindow() {
@@ -378,6 +440,9 @@ app.on("window-all-closed", () => {
 // アプリが実際に終了するときにフラグを設定
 app.on("before-quit", () => {
   rpcdManager.stop();
+  stopWatchFolders();
+  stopTrashPurge();
+  cancelAllDownloads();
   isQuitting = true;
 });
 
@@ -528,5 +593,12 @@ function continueStartup(): void {
   );
   registerAutoLaunchHandlers();
   registerRichPresenceHandlers();
+  registerUploadQueueHandlers(updateUploadTrayState);
+  registerWatchFolderHandlers(() => win);
+  registerUploadHistoryHandlers();
+  registerAssetMetadataHandlers();
+  registerCollectionHandlers();
+  registerTrashHandlers(() => win);
+  registerDownloadHandlers();
   rpcdManager.start();
 }
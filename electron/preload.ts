@@ -14,16 +14,45 @@ import {
   type StatusResponse,
   type LoginResponse,
   type LogoutResponse,
+  type ListRequest,
   type ListResponse,
+  type UpdateAssetRequest,
+  type UpdateAssetResponse,
+  type ShowRequest,
+  type ShowResponse,
   type DeleteResponse,
   type SelectFileResponse,
   type UploadResponse,
   type UploadProgress,
+  type UploadRateLimitRequest,
+  type ProbeFileRequest,
+  type MediaProbeResult,
   type IpcError,
   type GetTemplateRequest,
   type SaveTemplateRequest,
   type DeleteTemplateRequest,
   type ApplyTemplateRequest,
+  type UploadQueueSaveRequest,
+  type UploadQueueCommand,
+  type WatchFolderUpdateRequest,
+  type WatchFolderRemoveRequest,
+  type WatchFolderFile,
+  type UploadHistoryListRequest,
+  type UploadHistoryExportRequest,
+  type UploadDuplicateCheckRequest,
+  type AssetMetadataUpdateRequest,
+  type CollectionCreateRequest,
+  type CollectionRenameRequest,
+  type CollectionDeleteRequest,
+  type CollectionAssetsRequest,
+  type TrashMoveRequest,
+  type TrashRestoreRequest,
+  type TrashPurgeRequest,
+  type TrashPurgeResponse,
+  type Mp4DownloadRequest,
+  type Mp4DownloadProgress,
+  type DownloadCancelRequest,
+  type DownloadRevealRequest,
   type AutoLaunchApi,
   type AutoLaunchGetResponse,
   type AutoLaunchSetRequest,
@@ -36,6 +65,9 @@ import {
 // Vidyeet API (High-level)
 // =============================================================================
 
+/** アップロード要求ごとの識別子カウンタ */
+let uploadRequestCounter = 0
+
 /**
  * 高水準API - window.vidyeet として公開
  * Renderer は IPC チャネル名を知らずに済む
@@ -53,8 +85,16 @@ const vidyeetApi: VidyeetApi = {
     return await ipcRenderer.invoke(IpcChannels.LOGOUT)
   },
 
-  async list(): Promise<ListResponse | IpcError> {
-    return await ipcRenderer.invoke(IpcChannels.LIST)
+  async list(request?: ListRequest): Promise<ListResponse | IpcError> {
+    return await ipcRenderer.invoke(IpcChannels.LIST, request)
+  },
+
+  async updateAsset(request: UpdateAssetRequest): Promise<UpdateAssetResponse | IpcError> {
+    return await ipcRenderer.invoke(IpcChannels.UPDATE_ASSET, request)
+  },
+
+  async show(request: ShowRequest): Promise<ShowResponse | IpcError> {
+    return await ipcRenderer.invoke(IpcChannels.SHOW, request)
   },
 
   async delete(request: DeleteRequest): Promise<DeleteResponse | IpcError> {
@@ -69,8 +109,14 @@ const vidyeetApi: VidyeetApi = {
      request: UploadRequest,
      onProgress?: (progress: UploadProgress) => void
    ): Promise<UploadResponse | IpcError> {
+     // 並列アップロード時に他のアップロードの進捗を受け取らないよう要求ごとにIDを付与
+     const requestId = `req-${Date.now()}-${++uploadRequestCounter}`
+
      // 進捗リスナーを登録
      const progressListener = (_event: Electron.IpcRendererEvent, progress: UploadProgress) => {
+       if (progress.requestId !== requestId) {
+         return
+       }
        onProgress?.(progress)
      }
      
@@ -79,7 +125,7 @@ const vidyeetApi: VidyeetApi = {
      }
 
      try {
-       return await ipcRenderer.invoke(IpcChannels.UPLOAD, request)
+       return await ipcRenderer.invoke(IpcChannels.UPLOAD, { ...request, requestId })
      } finally {
        // リスナーをクリーンアップ
        if (onProgress) {
@@ -92,6 +138,14 @@ const vidyeetApi: VidyeetApi = {
      return await ipcRenderer.invoke(IpcChannels.UPLOAD_CANCEL, { uploadId })
    },
 
+   async setUploadRateLimit(request: UploadRateLimitRequest): Promise<{ success: true }> {
+     return await ipcRenderer.invoke(IpcChannels.UPLOAD_SET_RATE_LIMIT, request)
+   },
+
+  async probeFile(request: ProbeFileRequest): Promise<MediaProbeResult | IpcError> {
+    return await ipcRenderer.invoke(IpcChannels.PROBE_FILE, request)
+  },
+
   async getTemplates() {
     return await ipcRenderer.invoke(IpcChannels.TEMPLATES_LIST)
   },
@@ -111,6 +165,164 @@ const vidyeetApi: VidyeetApi = {
   async applyTemplate(request: ApplyTemplateRequest) {
     return await ipcRenderer.invoke(IpcChannels.TEMPLATES_APPLY, request)
   },
+
+  async getUploadQueue() {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_QUEUE_GET)
+  },
+
+  async saveUploadQueue(request: UploadQueueSaveRequest) {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_QUEUE_SAVE, request)
+  },
+
+  onUploadQueueCommand(callback: (command: UploadQueueCommand) => void): () => void {
+    const listener = (_event: Electron.IpcRendererEvent, command: UploadQueueCommand) => {
+      callback(command)
+    }
+    ipcRenderer.on(IpcChannels.UPLOAD_QUEUE_COMMAND, listener)
+    return () => {
+      ipcRenderer.off(IpcChannels.UPLOAD_QUEUE_COMMAND, listener)
+    }
+  },
+
+  async getWatchFolders() {
+    return await ipcRenderer.invoke(IpcChannels.WATCH_FOLDERS_LIST)
+  },
+
+  async addWatchFolder() {
+    return await ipcRenderer.invoke(IpcChannels.WATCH_FOLDERS_ADD)
+  },
+
+  async updateWatchFolder(request: WatchFolderUpdateRequest) {
+    return await ipcRenderer.invoke(IpcChannels.WATCH_FOLDERS_UPDATE, request)
+  },
+
+  async removeWatchFolder(request: WatchFolderRemoveRequest) {
+    return await ipcRenderer.invoke(IpcChannels.WATCH_FOLDERS_REMOVE, request)
+  },
+
+  async takePendingWatchFolderFiles() {
+    return await ipcRenderer.invoke(IpcChannels.WATCH_FOLDERS_TAKE_PENDING)
+  },
+
+  onWatchFolderFile(callback: (file: WatchFolderFile) => void): () => void {
+    const listener = (_event: Electron.IpcRendererEvent, file: WatchFolderFile) => {
+      callback(file)
+    }
+    ipcRenderer.on(IpcChannels.WATCH_FOLDERS_FILE_DETECTED, listener)
+    return () => {
+      ipcRenderer.off(IpcChannels.WATCH_FOLDERS_FILE_DETECTED, listener)
+    }
+  },
+
+  async getUploadHistory(request?: UploadHistoryListRequest) {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_HISTORY_LIST, request ?? {})
+  },
+
+  async exportUploadHistory(request: UploadHistoryExportRequest) {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_HISTORY_EXPORT, request)
+  },
+
+  async clearUploadHistory() {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_HISTORY_CLEAR)
+  },
+
+  async findDuplicateUploads(request: UploadDuplicateCheckRequest) {
+    return await ipcRenderer.invoke(IpcChannels.UPLOAD_HISTORY_FIND_DUPLICATES, request)
+  },
+
+  async getAssetMetadata() {
+    return await ipcRenderer.invoke(IpcChannels.ASSET_METADATA_LIST)
+  },
+
+  async updateAssetMetadata(request: AssetMetadataUpdateRequest) {
+    return await ipcRenderer.invoke(IpcChannels.ASSET_METADATA_UPDATE, request)
+  },
+
+  async getCollections() {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_LIST)
+  },
+
+  async createCollection(request: CollectionCreateRequest) {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_CREATE, request)
+  },
+
+  async renameCollection(request: CollectionRenameRequest) {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_RENAME, request)
+  },
+
+  async deleteCollection(request: CollectionDeleteRequest) {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_DELETE, request)
+  },
+
+  async addToCollection(request: CollectionAssetsRequest) {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_ADD_ASSETS, request)
+  },
+
+  async removeFromCollection(request: CollectionAssetsRequest) {
+    return await ipcRenderer.invoke(IpcChannels.COLLECTIONS_REMOVE_ASSETS, request)
+  },
+
+  async getTrash() {
+    return await ipcRenderer.invoke(IpcChannels.TRASH_LIST)
+  },
+
+  async moveToTrash(request: TrashMoveRequest) {
+    return await ipcRenderer.invoke(IpcChannels.TRASH_MOVE, request)
+  },
+
+  async restoreFromTrash(request: TrashRestoreRequest) {
+    return await ipcRenderer.invoke(IpcChannels.TRASH_RESTORE, request)
+  },
+
+  async purgeTrash(request: TrashPurgeRequest) {
+    return await ipcRenderer.invoke(IpcChannels.TRASH_PURGE, request)
+  },
+
+  onTrashPurged(callback: (result: TrashPurgeResponse) => void): () => void {
+    const listener = (_event: Electron.IpcRendererEvent, result: TrashPurgeResponse) => {
+      callback(result)
+    }
+    ipcRenderer.on(IpcChannels.TRASH_PURGED, listener)
+    return () => {
+      ipcRenderer.off(IpcChannels.TRASH_PURGED, listener)
+    }
+  },
+
+  async selectDownloadFolder() {
+    return await ipcRenderer.invoke(IpcChannels.DOWNLOAD_SELECT_FOLDER)
+  },
+
+  async downloadMp4(
+    request: Mp4DownloadRequest,
+    onProgress?: (progress: Mp4DownloadProgress) => void
+  ) {
+    // 同時に実行中の他のダウンロードの進捗を受け取らないよう downloadId で振り分ける
+    const progressListener = (_event: Electron.IpcRendererEvent, progress: Mp4DownloadProgress) => {
+      if (progress.downloadId === request.downloadId) {
+        onProgress?.(progress)
+      }
+    }
+
+    if (onProgress) {
+      ipcRenderer.on(IpcChannels.DOWNLOAD_PROGRESS, progressListener)
+    }
+
+    try {
+      return await ipcRenderer.invoke(IpcChannels.DOWNLOAD_MP4, request)
+    } finally {
+      if (onProgress) {
+        ipcRenderer.off(IpcChannels.DOWNLOAD_PROGRESS, progressListener)
+      }
+    }
+  },
+
+  async cancelDownload(request: DownloadCancelRequest) {
+    return await ipcRenderer.invoke(IpcChannels.DOWNLOAD_CANCEL, request)
+  },
+
+  async revealDownload(request: DownloadRevealRequest) {
+    return await ipcRenderer.invoke(IpcChannels.DOWNLOAD_REVEAL, request)
+  },
 }
 
 contextBridge.exposeInMainWorld('vidyeet', vidyeetApi)
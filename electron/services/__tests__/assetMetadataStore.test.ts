@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import AssetMetadataStore, { normalizeTags } from '../assetMetadataStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+describe('AssetMetadataStore', () => {
+  let store: AssetMetadataStore;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    store = new AssetMetadataStore();
+  });
+
+  it('Creates an entry on first update and keeps fields that are not given', () => {
+    store.update({ assetId: 'a', title: '  Final cut ', tags: ['stream'] });
+    const updated = store.update({ assetId: 'a', notes: 'Needs captions' });
+
+    expect(updated).toMatchObject({
+      assetId: 'a',
+      title: 'Final cut',
+      fileName: '',
+      notes: 'Needs captions',
+      tags: ['stream'],
+    });
+    expect(new AssetMetadataStore().get('a')).toEqual(updated);
+  });
+
+  it('Fills in file names without overwriting edited ones', () => {
+    store.update({ assetId: 'a', fileName: 'renamed.mp4' });
+
+    const filled = store.fillFileNames([
+      { assetId: 'a', fileName: 'original.mp4' },
+      { assetId: 'b', fileName: 'clip.mkv' },
+    ]);
+
+    expect(filled).toBe(1);
+    expect(store.get('a')?.fileName).toBe('renamed.mp4');
+    expect(store.get('b')?.fileName).toBe('clip.mkv');
+  });
+
+  it('Tracks whether the title and tags still need syncing', () => {
+    store.update({ assetId: 'a', title: 'x' });
+
+    expect(store.get('a')?.syncPending).toBe(false);
+    expect(store.setSyncPending('a', true)?.syncPending).toBe(true);
+    expect(store.setSyncPending('missing', true)).toBeUndefined();
+  });
+
+  it('Lists pinned assets', () => {
+    store.update({ assetId: 'a', pinned: true });
+    store.update({ assetId: 'b', title: 'x' });
+    store.update({ assetId: 'c', pinned: true });
+    store.update({ assetId: 'c', pinned: false });
+
+    expect(store.get('b')?.pinned).toBe(false);
+    expect(store.getPinnedIds()).toEqual(['a']);
+  });
+
+  it('Removes entries of deleted assets', () => {
+    store.update({ assetId: 'a', title: 'x' });
+
+    expect(store.remove('a')).toBe(true);
+    expect(store.remove('a')).toBe(false);
+    expect(store.getAll()).toEqual([]);
+  });
+});
+
+describe('normalizeTags', () => {
+  it('Trims tags and drops empty and duplicate ones', () => {
+    expect(normalizeTags([' Stream ', '', 'stream', 'highlight'])).toEqual(['Stream', 'highlight']);
+  });
+});
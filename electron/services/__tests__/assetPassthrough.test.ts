@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeTagsPassthrough,
+  encodeTagsPassthrough,
+  isForeignPassthrough,
+  PASSTHROUGH_MAX_LENGTH,
+} from '../assetPassthrough';
+
+describe('assetPassthrough', () => {
+  it('Round-trips tags', () => {
+    const encoded = encodeTagsPassthrough(['stream', 'ハイライト']);
+    expect(decodeTagsPassthrough(encoded)).toEqual(['stream', 'ハイライト']);
+  });
+
+  it('Drops tags from the end to fit the Mux limit', () => {
+    const tags = Array.from({ length: 40 }, (_, i) => `tag-number-${i}`);
+    const encoded = encodeTagsPassthrough(tags);
+    const decoded = decodeTagsPassthrough(encoded)!;
+
+    expect(encoded.length).toBeLessThanOrEqual(PASSTHROUGH_MAX_LENGTH);
+    expect(decoded.length).toBeGreaterThan(0);
+    expect(decoded).toEqual(tags.slice(0, decoded.length));
+  });
+
+  it('Ignores passthrough written by other tools', () => {
+    expect(decodeTagsPassthrough('order-1234')).toBeUndefined();
+    expect(decodeTagsPassthrough('{"tags":"a,b"}')).toBeUndefined();
+    expect(decodeTagsPassthrough('[1,2]')).toBeUndefined();
+    expect(decodeTagsPassthrough(null)).toBeUndefined();
+  });
+
+  it('Treats only values written by other tools as foreign', () => {
+    expect(isForeignPassthrough('order-1234')).toBe(true);
+    expect(isForeignPassthrough('{"tags":"a,b"}')).toBe(true);
+    expect(isForeignPassthrough(encodeTagsPassthrough(['stream']))).toBe(false);
+    expect(isForeignPassthrough('')).toBe(false);
+    expect(isForeignPassthrough(null)).toBe(false);
+  });
+});
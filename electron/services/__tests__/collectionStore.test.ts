@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import CollectionStore from '../collectionStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+describe('CollectionStore', () => {
+  let store: CollectionStore;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    store = new CollectionStore();
+  });
+
+  it('Creates a collection with a trimmed name and unique initial assets', () => {
+    const created = store.create('  Tournament ', ['a', 'b', 'a']);
+
+    expect(created).toMatchObject({ name: 'Tournament', assetIds: ['a', 'b'] });
+    expect(new CollectionStore().getAll()).toEqual([created]);
+  });
+
+  it('Rejects empty names', () => {
+    const created = store.create('Clips');
+
+    expect(() => store.create('   ')).toThrow();
+    expect(() => store.rename(created.id, '')).toThrow();
+    expect(store.get(created.id)?.name).toBe('Clips');
+  });
+
+  it('Renames and returns undefined for unknown collections', () => {
+    const created = store.create('Clips');
+
+    expect(store.rename(created.id, 'Highlights')?.name).toBe('Highlights');
+    expect(store.rename('missing', 'Other')).toBeUndefined();
+  });
+
+  it('Adds assets without duplicates and removes them', () => {
+    const created = store.create('Clips', ['a']);
+
+    expect(store.addAssets(created.id, ['b', 'a', 'c'])?.assetIds).toEqual(['a', 'b', 'c']);
+    expect(store.removeAssets(created.id, ['b'])?.assetIds).toEqual(['a', 'c']);
+    expect(store.addAssets('missing', ['a'])).toBeUndefined();
+  });
+
+  it('Removes a deleted asset from every collection', () => {
+    const first = store.create('First', ['a', 'b']);
+    const second = store.create('Second', ['b']);
+    const third = store.create('Third', ['c']);
+
+    expect(store.removeAssetEverywhere('b')).toBe(2);
+    expect(store.get(first.id)?.assetIds).toEqual(['a']);
+    expect(store.get(second.id)?.assetIds).toEqual([]);
+    expect(store.get(third.id)?.assetIds).toEqual(['c']);
+  });
+
+  it('Removes a collection', () => {
+    const created = store.create('Clips', ['a']);
+
+    expect(store.remove(created.id)).toBe(true);
+    expect(store.remove(created.id)).toBe(false);
+    expect(store.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+import { isWatchedFile } from '../folderWatcher';
+
+vi.mock('electron-log/main', () => ({
+  default: { info: vi.fn(), warn: vi.fn() },
+}));
+
+vi.mock('../vidyeetClient', () => ({
+  VIDEO_EXTENSIONS: ['mp4', 'mov', 'mkv'],
+}));
+
+describe('isWatchedFile', () => {
+  it('accepts only video extensions', () => {
+    expect(isWatchedFile('clip.MP4', [])).toBe(true);
+    expect(isWatchedFile('clip.mkv', [])).toBe(true);
+    expect(isWatchedFile('clip.txt', [])).toBe(false);
+    expect(isWatchedFile('clip.mp4.part', [])).toBe(false);
+  });
+
+  it('requires a matching glob when patterns are set', () => {
+    const patterns = ['*.mp4', 'Replay ????.mkv'];
+
+    expect(isWatchedFile('2024-01-01 20-00-00.mp4', patterns)).toBe(true);
+    expect(isWatchedFile('Replay 0001.mkv', patterns)).toBe(true);
+    expect(isWatchedFile('Recording.mkv', patterns)).toBe(false);
+  });
+
+  it('treats regex characters in patterns literally', () => {
+    expect(isWatchedFile('clip (1).mp4', ['clip (1).mp4'])).toBe(true);
+    expect(isWatchedFile('clipx1y.mp4', ['clip(1).mp4'])).toBe(false);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { probeMediaFile } from '../mediaProbe';
+
+let tempDir: string;
+
+function writeTemp(name: string, content: Buffer): string {
+  const filePath = path.join(tempDir, name);
+  fs.writeFileSync(filePath, content);
+  return filePath;
+}
+
+function u32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+/** ISO BMFF box */
+function box(type: string, ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([u32(body.length + 8), Buffer.from(type, 'latin1'), body]);
+}
+
+function mp4Track(handler: string, format: string, width = 0, height = 0): Buffer {
+  // tkhd v0 body is 84 bytes; width/height are the last two 16.16 fields
+  const tkhd = Buffer.alloc(84);
+  tkhd.writeUInt32BE(width * 65536, 76);
+  tkhd.writeUInt32BE(height * 65536, 80);
+  const hdlr = Buffer.concat([Buffer.alloc(8), Buffer.from(handler, 'latin1'), Buffer.alloc(12)]);
+  const stsd = Buffer.concat([Buffer.alloc(4), u32(1), box(format, Buffer.alloc(8))]);
+  return box(
+    'trak',
+    box('tkhd', tkhd),
+    box('mdia', box('hdlr', hdlr), box('minf', box('stbl', box('stsd', stsd))))
+  );
+}
+
+function mp4File({ withMoov = true } = {}): Buffer {
+  // mvhd v0: version/flags, creation, modification, timescale, duration
+  const mvhd = Buffer.concat([Buffer.alloc(12), u32(1000), u32(90500), Buffer.alloc(80)]);
+  const moov = box(
+    'moov',
+    box('mvhd', mvhd),
+    mp4Track('vide', 'avc1', 1920, 1080),
+    mp4Track('soun', 'mp4a')
+  );
+  return Buffer.concat([
+    box('ftyp', Buffer.from('isom', 'latin1'), u32(512)),
+    ...(withMoov ? [moov] : []),
+    box('mdat', Buffer.alloc(64)),
+  ]);
+}
+
+/** EBML element with a 1-byte size (enough for these fixtures) */
+function ebml(id: number[], ...payload: Buffer[]): Buffer {
+  const body = Buffer.concat(payload);
+  return Buffer.concat([Buffer.from(id), Buffer.from([0x80 | body.length]), body]);
+}
+
+function webmFile(): Buffer {
+  const duration = Buffer.alloc(8);
+  duration.writeDoubleBE(12345);
+  const header = ebml([0x1a, 0x45, 0xdf, 0xa3], ebml([0x42, 0x82], Buffer.from('webm')));
+  const info = ebml([0x15, 0x49, 0xa9, 0x66], ebml([0x44, 0x89], duration));
+  const video = ebml(
+    [0xe0],
+    ebml([0xb0], Buffer.from([0x05, 0x00])),
+    ebml([0xba], Buffer.from([0x02, 0xd0]))
+  );
+  const tracks = ebml(
+    [0x16, 0x54, 0xae, 0x6b],
+    ebml([0xae], ebml([0x83], Buffer.from([1])), ebml([0x86], Buffer.from('V_VP9')), video),
+    ebml([0xae], ebml([0x83], Buffer.from([2])), ebml([0x86], Buffer.from('A_OPUS')))
+  );
+  return Buffer.concat([header, ebml([0x18, 0x53, 0x80, 0x67], info, tracks)]);
+}
+
+beforeAll(() => {
+  tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vidyeet-probe-'));
+});
+
+afterAll(() => {
+  fs.rmSync(tempDir, { recursive: true, force: true });
+});
+
+describe('probeMediaFile', () => {
+  it('reads duration, resolution and codecs from an MP4', async () => {
+    const content = mp4File();
+    const result = await probeMediaFile(writeTemp('clip.mp4', content));
+
+    expect(result).toEqual({
+      sizeBytes: content.length,
+      container: 'mp4',
+      durationSecs: 90.5,
+      width: 1920,
+      height: 1080,
+      videoCodec: 'h264',
+      audioCodec: 'aac',
+      issue: null,
+    });
+  });
+
+  it('reports an MP4 without moov as not finalized', async () => {
+    const result = await probeMediaFile(writeTemp('unfinished.mp4', mp4File({ withMoov: false })));
+    expect(result.issue).toBe('missing_index');
+  });
+
+  it('reports an MP4 cut off in the middle of a box', async () => {
+    const content = mp4File();
+    const result = await probeMediaFile(writeTemp('cut.mp4', content.subarray(0, content.length - 10)));
+    expect(result.issue).toBe('truncated');
+  });
+
+  it('reads WebM tracks and duration', async () => {
+    const result = await probeMediaFile(writeTemp('clip.webm', webmFile()));
+
+    expect(result).toMatchObject({
+      container: 'webm',
+      durationSecs: 12.345,
+      width: 1280,
+      height: 720,
+      videoCodec: 'vp9',
+      audioCodec: 'opus',
+      issue: null,
+    });
+  });
+
+  it('rejects empty and unrecognised files', async () => {
+    expect((await probeMediaFile(writeTemp('empty.mp4', Buffer.alloc(0)))).issue).toBe('empty');
+    expect(
+      (await probeMediaFile(writeTemp('notes.mp4', Buffer.from('this is not a video file')))).issue
+    ).toBe('unknown_format');
+  });
+
+  it('throws when the file does not exist', async () => {
+    await expect(probeMediaFile(path.join(tempDir, 'missing.mp4'))).rejects.toThrow();
+  });
+});
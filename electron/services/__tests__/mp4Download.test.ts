@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { toMp4FileName, resolveFreePath, openFreePartFile } from '../mp4Download';
+
+vi.mock('electron', () => ({
+  net: { fetch: vi.fn() },
+}));
+
+vi.mock('electron-log/main', () => ({
+  default: { info: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../vidyeetClient', () => ({
+  showAsset: vi.fn(),
+}));
+
+describe('toMp4FileName', () => {
+  it('replaces the extension of the original file name', () => {
+    expect(toMp4FileName('clip.mov', 'asset-1')).toBe('clip.mp4');
+    expect(toMp4FileName('Episode 1.5', 'asset-1')).toBe('Episode 1.5.mp4');
+  });
+
+  it('removes characters that are not allowed in file names', () => {
+    expect(toMp4FileName('  a/b:c*?  ', 'asset-1')).toBe('a_b_c__.mp4');
+    expect(toMp4FileName('title...', 'asset-1')).toBe('title.mp4');
+  });
+
+  it('falls back when nothing usable is left', () => {
+    expect(toMp4FileName('', 'asset-1')).toBe('asset-1.mp4');
+    expect(toMp4FileName('???', 'asset-1')).toBe('asset-1.mp4');
+    expect(toMp4FileName('con', 'asset-1')).toBe('_con.mp4');
+  });
+});
+
+describe('resolveFreePath', () => {
+  let tempDir: string;
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vidyeet-download-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('numbers the name when the file or a running download already uses it', async () => {
+    expect(await resolveFreePath(tempDir, 'clip.mp4')).toBe(path.join(tempDir, 'clip.mp4'));
+
+    fs.writeFileSync(path.join(tempDir, 'clip.mp4'), '');
+    fs.writeFileSync(path.join(tempDir, 'clip (1).mp4.part'), '');
+    expect(await resolveFreePath(tempDir, 'clip.mp4')).toBe(path.join(tempDir, 'clip (2).mp4'));
+  });
+
+  it('gives downloads that resolve the same name at once different files', async () => {
+    const opened = await Promise.all([
+      openFreePartFile(tempDir, 'same.mp4'),
+      openFreePartFile(tempDir, 'same.mp4'),
+    ]);
+    await Promise.all(opened.map(({ file }) => file.close()));
+
+    expect(opened.map(({ filePath }) => filePath).sort()).toEqual([
+      path.join(tempDir, 'same (1).mp4'),
+      path.join(tempDir, 'same.mp4'),
+    ]);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import TrashStore from '../trashStore';
+import { MAX_TRASH_GRACE_DAYS, type TrashMoveRequest } from '../../types/ipc';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 1_700_000_000_000;
+
+function request(assetId: string, graceDays = 7): TrashMoveRequest {
+  return { assetId, playbackId: `p-${assetId}`, title: `Clip ${assetId}`, graceDays };
+}
+
+describe('TrashStore', () => {
+  let store: TrashStore;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    store = new TrashStore();
+  });
+
+  it('Schedules deletion after the grace period and persists it', () => {
+    const entry = store.add(request('a'), NOW);
+
+    expect(entry).toMatchObject({ assetId: 'a', title: 'Clip a', trashedAt: NOW, purgeAt: NOW + 7 * DAY_MS });
+    expect(new TrashStore().getAll()).toEqual([entry]);
+  });
+
+  it('Clamps the grace period and restarts it when trashed again', () => {
+    expect(store.add(request('a', 0), NOW).purgeAt).toBe(NOW + DAY_MS);
+    expect(store.add(request('a', 365), NOW).purgeAt).toBe(NOW + MAX_TRASH_GRACE_DAYS * DAY_MS);
+    expect(store.getAll()).toHaveLength(1);
+  });
+
+  it('Lists only entries whose grace period has ended', () => {
+    store.add(request('a', 1), NOW);
+    store.add(request('b', 3), NOW);
+
+    expect(store.getDue(NOW + 2 * DAY_MS).map(entry => entry.assetId)).toEqual(['a']);
+    expect(store.getDue(NOW)).toEqual([]);
+  });
+
+  it('Removes entries and reports which were in the trash', () => {
+    store.add(request('a'), NOW);
+    store.add(request('b'), NOW);
+
+    expect(store.remove(['a', 'x'])).toEqual(['a']);
+    expect(store.getAll().map(entry => entry.assetId)).toEqual(['b']);
+  });
+
+  it('Records and clears the last deletion error', () => {
+    store.add(request('a'), NOW);
+
+    store.setError('a', 'CLI failed');
+    expect(store.get('a')?.lastError).toBe('CLI failed');
+
+    store.setError('a', null);
+    expect(store.get('a')).not.toHaveProperty('lastError');
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import UploadHistoryStore, { toCsv } from '../uploadHistoryStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+const completed = {
+  filePath: 'C:/videos/clip.mp4',
+  fileName: 'clip.mp4',
+  sizeBytes: 1024,
+  status: 'completed' as const,
+  assetId: 'asset-1',
+  startedAt: Date.UTC(2024, 0, 1, 10, 0, 0),
+  finishedAt: Date.UTC(2024, 0, 1, 10, 5, 0),
+};
+
+const failed = {
+  filePath: 'C:/videos/broken.mov',
+  fileName: 'broken.mov',
+  sizeBytes: null,
+  status: 'failed' as const,
+  error: 'Network error, "timeout"',
+  startedAt: Date.UTC(2024, 0, 2, 10, 0, 0),
+  finishedAt: Date.UTC(2024, 0, 2, 10, 1, 0),
+};
+
+describe('UploadHistoryStore', () => {
+  let store: UploadHistoryStore;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    store = new UploadHistoryStore();
+  });
+
+  it('Keeps entries newest first across instances', () => {
+    store.add(completed);
+    store.add(failed);
+
+    const restored = new UploadHistoryStore().getAll();
+    expect(restored.map(entry => entry.fileName)).toEqual(['broken.mov', 'clip.mp4']);
+    expect(restored[0].id).toBeTruthy();
+  });
+
+  it('Searches file name, path, asset ID and error', () => {
+    store.add(completed);
+    store.add(failed);
+
+    expect(store.search('ASSET-1').map(entry => entry.fileName)).toEqual(['clip.mp4']);
+    expect(store.search('timeout').map(entry => entry.fileName)).toEqual(['broken.mov']);
+    expect(store.search('C:/videos')).toHaveLength(2);
+    expect(store.search('  ')).toHaveLength(2);
+  });
+
+  it('Clears all entries', () => {
+    store.add(completed);
+    store.clear();
+
+    expect(store.getAll()).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('Writes a header and escapes fields', () => {
+    const csv = toCsv([
+      { id: 'b', ...failed },
+      { id: 'a', ...completed },
+    ]);
+    const lines = csv.trimEnd().split('\r\n');
+
+    expect(lines[0]).toBe('finishedAt,status,fileName,filePath,sizeBytes,assetId,error,startedAt');
+    expect(lines[1]).toBe(
+      '2024-01-02T10:01:00.000Z,failed,broken.mov,C:/videos/broken.mov,,,"Network error, ""timeout""",2024-01-02T10:00:00.000Z'
+    );
+    expect(lines[2]).toBe(
+      '2024-01-01T10:05:00.000Z,completed,clip.mp4,C:/videos/clip.mp4,1024,asset-1,,2024-01-01T10:00:00.000Z'
+    );
+  });
+});
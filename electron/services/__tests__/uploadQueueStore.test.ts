@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import UploadQueueStore from '../uploadQueueStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+describe('UploadQueueStore', () => {
+  let store: UploadQueueStore;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    vi.resetModules();
+    store = new UploadQueueStore();
+  });
+
+  it('Returns an empty queue by default', () => {
+    expect(store.getAll()).toEqual([]);
+  });
+
+  it('Persists waiting, uploading and failed items', () => {
+    store.save([
+      { filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'waiting' },
+      { filePath: 'C:/b.mp4', fileName: 'b.mp4', status: 'uploading' },
+      { filePath: 'C:/c.mp4', fileName: 'c.mp4', status: 'error', error: 'network error' },
+    ]);
+
+    // A new instance reads the same file (simulates an app restart)
+    const restored = new UploadQueueStore().getAll();
+    expect(restored).toEqual([
+      { filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'waiting' },
+      { filePath: 'C:/b.mp4', fileName: 'b.mp4', status: 'uploading' },
+      { filePath: 'C:/c.mp4', fileName: 'c.mp4', status: 'error', error: 'network error' },
+    ]);
+  });
+
+  it('Restores the fingerprint and the paused state of the queue', () => {
+    store.save([{ filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'paused', fingerprint: 'fp-a' }], true);
+
+    const restored = new UploadQueueStore();
+    expect(restored.getAll()).toEqual([
+      { filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'paused', fingerprint: 'fp-a' },
+    ]);
+    expect(restored.isPaused()).toBe(true);
+
+    restored.clear();
+    expect(restored.isPaused()).toBe(false);
+  });
+
+  it('Drops items with non-restorable statuses', () => {
+    store.save([
+      { filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'waiting' },
+      { filePath: 'C:/b.mp4', fileName: 'b.mp4', status: 'completed' as any },
+    ]);
+
+    expect(store.getAll().map(item => item.fileName)).toEqual(['a.mp4']);
+  });
+
+  it('Replaces the previous queue on save and empties it on clear', () => {
+    store.save([{ filePath: 'C:/a.mp4', fileName: 'a.mp4', status: 'waiting' }]);
+    store.save([{ filePath: 'C:/b.mp4', fileName: 'b.mp4', status: 'waiting' }]);
+    expect(store.getAll().map(item => item.fileName)).toEqual(['b.mp4']);
+
+    store.clear();
+    expect(store.getAll()).toEqual([]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  IDLE_POLL_INTERVAL_MS,
+  resolveRateLimitKbps,
+  setRateLimitSettings,
+  trackRateLimitedUpload,
+  type RateLimitedUpload,
+} from '../uploadRateLimit';
+
+const power = vi.hoisted(() => ({ idleState: 'active' }));
+
+vi.mock('electron', () => ({
+  powerMonitor: {
+    getSystemIdleState: () => power.idleState,
+    on: vi.fn(),
+    removeListener: vi.fn(),
+  },
+}));
+
+vi.mock('electron-log/main', () => ({
+  default: { info: vi.fn() },
+}));
+
+function runningUpload(patch: Partial<RateLimitedUpload> = {}): RateLimitedUpload {
+  return {
+    settings: { rateLimitKbps: 512, unlimitedWhenIdle: true },
+    rateLimitKbps: 512,
+    canRestart: () => true,
+    restart: vi.fn(),
+    ...patch,
+  };
+}
+
+describe('resolveRateLimitKbps', () => {
+  it('returns null when no limit is set', () => {
+    expect(resolveRateLimitKbps({}, 'active')).toBeNull();
+    expect(resolveRateLimitKbps({ rateLimitKbps: 0 }, 'active')).toBeNull();
+  });
+
+  it('applies the configured limit while the user is active', () => {
+    expect(resolveRateLimitKbps({ rateLimitKbps: 512, unlimitedWhenIdle: true }, 'active')).toBe(512);
+  });
+
+  it('lifts the limit when idle or locked only if requested', () => {
+    expect(resolveRateLimitKbps({ rateLimitKbps: 512, unlimitedWhenIdle: true }, 'idle')).toBeNull();
+    expect(resolveRateLimitKbps({ rateLimitKbps: 512, unlimitedWhenIdle: true }, 'locked')).toBeNull();
+    expect(resolveRateLimitKbps({ rateLimitKbps: 512 }, 'idle')).toBe(512);
+  });
+});
+
+describe('running uploads', () => {
+  afterEach(() => {
+    power.idleState = 'active';
+    vi.useRealTimers();
+  });
+
+  it('restarts an upload when the system becomes idle', () => {
+    vi.useFakeTimers();
+    const upload = runningUpload();
+    const untrack = trackRateLimitedUpload('upload-1', upload);
+
+    vi.advanceTimersByTime(IDLE_POLL_INTERVAL_MS);
+    expect(upload.restart).not.toHaveBeenCalled();
+
+    power.idleState = 'idle';
+    vi.advanceTimersByTime(IDLE_POLL_INTERVAL_MS);
+    expect(upload.restart).toHaveBeenCalledTimes(1);
+    expect(upload.restart).toHaveBeenCalledWith({ rateLimitKbps: 512, unlimitedWhenIdle: true });
+    untrack();
+  });
+
+  it('restarts with changed settings, but only once the upload can resume', () => {
+    let sending = false;
+    const upload = runningUpload({ canRestart: () => sending });
+    const untrack = trackRateLimitedUpload('upload-1', upload);
+
+    setRateLimitSettings({ rateLimitKbps: 2048, unlimitedWhenIdle: true });
+    expect(upload.restart).not.toHaveBeenCalled();
+
+    sending = true;
+    setRateLimitSettings({ rateLimitKbps: 2048, unlimitedWhenIdle: true });
+    expect(upload.restart).toHaveBeenCalledWith({ rateLimitKbps: 2048, unlimitedWhenIdle: true });
+    untrack();
+  });
+
+  it('leaves uploads alone when the limit stays the same', () => {
+    const upload = runningUpload({ settings: { rateLimitKbps: 512 } });
+    const untrack = trackRateLimitedUpload('upload-1', upload);
+
+    power.idleState = 'idle';
+    setRateLimitSettings({ rateLimitKbps: 512, unlimitedWhenIdle: false });
+    expect(upload.restart).not.toHaveBeenCalled();
+    untrack();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import UploadResumeStore from '../uploadResumeStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+describe('UploadResumeStore', () => {
+  let store: UploadResumeStore;
+  let tempDir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'vidyeet-resume-'));
+    filePath = path.join(tempDir, 'video.mp4');
+    fs.writeFileSync(filePath, Buffer.alloc(1024));
+    store = new UploadResumeStore();
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('Returns nothing until a chunk has been confirmed', () => {
+    store.begin(filePath, 'mux-upload-1');
+    expect(store.find(filePath)).toBeUndefined();
+
+    store.updateChunk(filePath, 3, 10);
+    expect(store.find(filePath)).toMatchObject({
+      directUploadId: 'mux-upload-1',
+      lastChunk: 3,
+      totalChunks: 10,
+    });
+  });
+
+  it('Lets only one running upload of a file own its record', () => {
+    expect(store.claim(filePath, 'upload-1')).toBe(true);
+    expect(store.claim(filePath, 'upload-1')).toBe(true);
+    expect(store.claim(filePath, 'upload-2')).toBe(false);
+
+    // Releasing someone else's claim does nothing
+    store.release(filePath, 'upload-2');
+    expect(store.claim(filePath, 'upload-2')).toBe(false);
+
+    store.release(filePath, 'upload-1');
+    expect(store.claim(filePath, 'upload-2')).toBe(true);
+  });
+
+  it('Survives a restart (new instance)', () => {
+    store.begin(filePath, 'mux-upload-1');
+    store.updateChunk(filePath, 2, 4);
+
+    expect(new UploadResumeStore().find(filePath)?.lastChunk).toBe(2);
+  });
+
+  it('Discards the record when the file changed', () => {
+    store.begin(filePath, 'mux-upload-1');
+    store.updateChunk(filePath, 2, 4);
+
+    fs.writeFileSync(filePath, Buffer.alloc(2048));
+    expect(store.find(filePath)).toBeUndefined();
+    expect(sharedMockStoreData.records).toEqual([]);
+  });
+
+  it('Discards expired records on startup', () => {
+    store.begin(filePath, 'mux-upload-1');
+    store.updateChunk(filePath, 2, 4);
+    sharedMockStoreData.records[0].updatedAt = Date.now() - 25 * 60 * 60 * 1000;
+
+    expect(new UploadResumeStore().find(filePath)).toBeUndefined();
+  });
+
+  it('Replaces the record when a new direct upload starts, and deletes it', () => {
+    store.begin(filePath, 'mux-upload-1');
+    store.updateChunk(filePath, 2, 4);
+    store.begin(filePath, 'mux-upload-2');
+    store.updateChunk(filePath, 1, 4);
+    expect(store.find(filePath)?.directUploadId).toBe('mux-upload-2');
+
+    store.delete(filePath);
+    expect(store.find(filePath)).toBeUndefined();
+  });
+});
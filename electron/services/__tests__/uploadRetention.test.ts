@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { buildRetentionArgs } from '../uploadRetention';
+
+describe('buildRetentionArgs', () => {
+  it('returns no options when nothing is set', () => {
+    expect(buildRetentionArgs({}, [])).toEqual([]);
+    expect(buildRetentionArgs({ keepLatest: 0, keepDays: Number.NaN }, [])).toEqual([]);
+  });
+
+  it('passes the newest count and day window', () => {
+    expect(buildRetentionArgs({ keepLatest: 5, keepDays: 30.7 }, [])).toEqual([
+      '--keep-latest', '5',
+      '--keep-days', '30',
+    ]);
+  });
+
+  it('keeps each pinned asset once', () => {
+    expect(buildRetentionArgs({}, ['a', 'b', 'a', ''])).toEqual(['--keep', 'a', '--keep', 'b']);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import path from 'path';
+import WatchFolderStore from '../watchFolderStore';
+
+// Shared mock store state across all instances
+let sharedMockStoreData: Record<string, any> = {};
+
+// Mock electron-store with shared state
+vi.mock('electron-store', () => ({
+  default: class MockStore {
+    get(key: string) { return sharedMockStoreData[key]; }
+    set(key: string, value: any) { sharedMockStoreData[key] = value; }
+  }
+}));
+
+describe('WatchFolderStore', () => {
+  let store: WatchFolderStore;
+  const recordings = path.resolve('recordings');
+
+  beforeEach(() => {
+    sharedMockStoreData = {};
+    store = new WatchFolderStore();
+  });
+
+  it('Adds folders in ask-first mode without filters', () => {
+    const folder = store.add(recordings);
+
+    expect(folder).toMatchObject({ path: recordings, patterns: [], mode: 'ask' });
+    expect(new WatchFolderStore().getAll()).toEqual([folder]);
+  });
+
+  it('Does not add the same folder twice', () => {
+    const first = store.add(recordings);
+    const second = store.add(path.join(recordings, '.'));
+
+    expect(second.id).toBe(first.id);
+    expect(store.getAll()).toHaveLength(1);
+  });
+
+  it('Updates mode and normalizes patterns', () => {
+    const folder = store.add(recordings);
+    const updated = store.update(folder.id, { mode: 'auto', patterns: [' *.mp4 ', '', '*.mp4', 'Replay*'] });
+
+    expect(updated).toMatchObject({ mode: 'auto', patterns: ['*.mp4', 'Replay*'] });
+    expect(store.update('missing', { mode: 'auto' })).toBeUndefined();
+  });
+
+  it('Removes folders', () => {
+    const folder = store.add(recordings);
+
+    expect(store.remove(folder.id)).toBe(true);
+    expect(store.remove(folder.id)).toBe(false);
+    expect(store.getAll()).toEqual([]);
+  });
+});
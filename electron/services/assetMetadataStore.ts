@@ -0,0 +1,173 @@
+import Store from 'electron-store';
+import type { AssetMetadata, AssetMetadataUpdateRequest } from '../types/ipc';
+
+/** Longest title / file name kept */
+const MAX_TITLE_LENGTH = 200;
+
+/** Longest note kept */
+const MAX_NOTES_LENGTH = 5000;
+
+/** Most tags kept per asset */
+const MAX_TAGS = 30;
+
+/**
+ * Trim tags and drop empty or duplicate (case-insensitive) entries, keeping input order
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+  for (const tag of tags) {
+    const trimmed = tag.trim();
+    const key = trimmed.toLowerCase();
+    if (!trimmed || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    result.push(trimmed);
+  }
+  return result.slice(0, MAX_TAGS);
+}
+
+/**
+ * Metadata with nothing set yet
+ */
+function createEmpty(assetId: string): AssetMetadata {
+  return {
+    assetId,
+    title: '',
+    fileName: '',
+    notes: '',
+    tags: [],
+    syncPending: false,
+    pinned: false,
+    updatedAt: 0,
+  };
+}
+
+/**
+ * AssetMetadataStore keeps local labels for Mux assets via electron-store:
+ * title, original file name, notes, tags and the pinned flag, keyed by asset ID
+ */
+class AssetMetadataStore {
+  private store: Store;
+  private readonly STORE_KEY = 'items';
+
+  constructor() {
+    this.store = new Store({ name: 'asset-metadata' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with an empty map if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, {});
+    }
+  }
+
+  private getMap(): Record<string, AssetMetadata> {
+    const items = (this.store.get(this.STORE_KEY) as Record<string, AssetMetadata>) || {};
+    // Entries saved before Mux sync / pinning existed have no syncPending / pinned flag
+    for (const [assetId, item] of Object.entries(items)) {
+      items[assetId] = { ...createEmpty(assetId), ...item };
+    }
+    return items;
+  }
+
+  /**
+   * Get metadata of all assets
+   */
+  getAll(): AssetMetadata[] {
+    return Object.values(this.getMap());
+  }
+
+  /**
+   * Get metadata of a single asset
+   */
+  get(assetId: string): AssetMetadata | undefined {
+    return this.getMap()[assetId];
+  }
+
+  /**
+   * Update the given fields of an asset, creating the entry if needed
+   */
+  update(request: AssetMetadataUpdateRequest): AssetMetadata {
+    const items = this.getMap();
+    const current = items[request.assetId] ?? createEmpty(request.assetId);
+
+    const updated: AssetMetadata = {
+      ...current,
+      ...(request.title !== undefined && { title: request.title.trim().slice(0, MAX_TITLE_LENGTH) }),
+      ...(request.fileName !== undefined && { fileName: request.fileName.trim().slice(0, MAX_TITLE_LENGTH) }),
+      ...(request.notes !== undefined && { notes: request.notes.slice(0, MAX_NOTES_LENGTH) }),
+      ...(request.tags !== undefined && { tags: normalizeTags(request.tags) }),
+      ...(request.pinned !== undefined && { pinned: request.pinned }),
+      updatedAt: Date.now(),
+    };
+    items[request.assetId] = updated;
+    this.store.set(this.STORE_KEY, items);
+    return updated;
+  }
+
+  /**
+   * IDs of pinned assets (never deleted automatically)
+   */
+  getPinnedIds(): string[] {
+    return this.getAll()
+      .filter((item) => item.pinned)
+      .map((item) => item.assetId);
+  }
+
+  /**
+   * Mark whether the title and tags still need to be written to Mux
+   */
+  setSyncPending(assetId: string, syncPending: boolean): AssetMetadata | undefined {
+    const items = this.getMap();
+    const current = items[assetId];
+    if (!current) {
+      return undefined;
+    }
+    items[assetId] = { ...current, syncPending };
+    this.store.set(this.STORE_KEY, items);
+    return items[assetId];
+  }
+
+  /**
+   * Record the uploaded file name unless one is already set
+   * Returns the number of assets that were filled in
+   */
+  fillFileNames(entries: { assetId: string; fileName: string }[]): number {
+    const items = this.getMap();
+    let filled = 0;
+    for (const { assetId, fileName } of entries) {
+      const current = items[assetId] ?? createEmpty(assetId);
+      if (current.fileName || !fileName) {
+        continue;
+      }
+      items[assetId] = { ...current, fileName: fileName.slice(0, MAX_TITLE_LENGTH), updatedAt: Date.now() };
+      filled++;
+    }
+    if (filled > 0) {
+      this.store.set(this.STORE_KEY, items);
+    }
+    return filled;
+  }
+
+  /**
+   * Remove the metadata of a deleted asset
+   * Returns true if removed, false if there was none
+   */
+  remove(assetId: string): boolean {
+    const items = this.getMap();
+    if (!(assetId in items)) {
+      return false;
+    }
+    delete items[assetId];
+    this.store.set(this.STORE_KEY, items);
+    return true;
+  }
+}
+
+export default AssetMetadataStore;
@@ -0,0 +1,61 @@
+/**
+ * Asset Passthrough
+ *
+ * Tags are stored on the Mux asset in its `passthrough` field (max 255 characters)
+ * as a small JSON object, so that they follow the Mux account across machines.
+ * Passthrough values written by other tools are left uninterpreted and are
+ * never overwritten (the tags then stay on this machine only).
+ */
+
+/** Mux limit for `passthrough` */
+export const PASSTHROUGH_MAX_LENGTH = 255;
+
+/** Shape of the passthrough written by this app */
+interface TagsPassthrough {
+  tags: string[];
+}
+
+/**
+ * Encode tags as passthrough
+ * Tags that do not fit into the length limit are dropped from the end
+ */
+export function encodeTagsPassthrough(tags: string[]): string {
+  const value: TagsPassthrough = { tags: [...tags] };
+  let encoded = JSON.stringify(value);
+  while (encoded.length > PASSTHROUGH_MAX_LENGTH && value.tags.length > 0) {
+    value.tags.pop();
+    encoded = JSON.stringify(value);
+  }
+  return encoded;
+}
+
+/**
+ * Read tags from passthrough
+ * Returns undefined when the passthrough was not written by this app
+ */
+export function decodeTagsPassthrough(passthrough: string | null | undefined): string[] | undefined {
+  if (!passthrough) {
+    return undefined;
+  }
+  try {
+    const parsed: unknown = JSON.parse(passthrough);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return undefined;
+    }
+    const tags = (parsed as Partial<TagsPassthrough>).tags;
+    if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === "string")) {
+      return undefined;
+    }
+    return tags;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Whether the passthrough holds a value written by another tool
+ * An empty passthrough or one written by this app may be overwritten
+ */
+export function isForeignPassthrough(passthrough: string | null | undefined): boolean {
+  return !!passthrough && decodeTagsPassthrough(passthrough) === undefined;
+}
@@ -0,0 +1,164 @@
+import Store from 'electron-store';
+import type { Collection } from '../types/ipc';
+
+/** Longest collection name kept */
+const MAX_NAME_LENGTH = 100;
+
+/**
+ * Generates a unique ID using timestamp and random value
+ * Format: [base36 timestamp][base36 random]
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+}
+
+/**
+ * Trim a collection name to its stored form
+ */
+function normalizeName(name: string): string {
+  return name.trim().slice(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * CollectionStore persists named groups of assets via electron-store
+ * Collections only hold asset IDs; the assets themselves stay on Mux
+ */
+class CollectionStore {
+  private store: Store;
+  private readonly STORE_KEY = 'collections';
+
+  constructor() {
+    this.store = new Store({ name: 'collections' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with empty collection list if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, []);
+    }
+  }
+
+  /**
+   * Get all collections in creation order
+   */
+  getAll(): Collection[] {
+    const collections = this.store.get(this.STORE_KEY) as Collection[];
+    return collections || [];
+  }
+
+  /**
+   * Get a single collection by id
+   */
+  get(id: string): Collection | undefined {
+    return this.getAll().find(collection => collection.id === id);
+  }
+
+  /**
+   * Create a collection, optionally with initial assets
+   * Throws if the name is empty
+   */
+  create(name: string, assetIds: string[] = []): Collection {
+    const normalized = normalizeName(name);
+    if (!normalized) {
+      throw new Error('Collection name is required');
+    }
+
+    const collection: Collection = {
+      id: generateId(),
+      name: normalized,
+      assetIds: Array.from(new Set(assetIds)),
+      createdAt: Date.now(),
+    };
+    const collections = this.getAll();
+    collections.push(collection);
+    this.store.set(this.STORE_KEY, collections);
+    return collection;
+  }
+
+  /**
+   * Rename a collection
+   * Returns undefined if not found; throws if the name is empty
+   */
+  rename(id: string, name: string): Collection | undefined {
+    const normalized = normalizeName(name);
+    if (!normalized) {
+      throw new Error('Collection name is required');
+    }
+    return this.modify(id, collection => ({ ...collection, name: normalized }));
+  }
+
+  /**
+   * Remove a collection (the assets are not touched)
+   * Returns true if removed, false if not found
+   */
+  remove(id: string): boolean {
+    const collections = this.getAll();
+    const remaining = collections.filter(collection => collection.id !== id);
+    if (remaining.length === collections.length) {
+      return false;
+    }
+    this.store.set(this.STORE_KEY, remaining);
+    return true;
+  }
+
+  /**
+   * Add assets to a collection, skipping ones already in it
+   * Returns undefined if not found
+   */
+  addAssets(id: string, assetIds: string[]): Collection | undefined {
+    return this.modify(id, collection => ({
+      ...collection,
+      assetIds: Array.from(new Set([...collection.assetIds, ...assetIds])),
+    }));
+  }
+
+  /**
+   * Remove assets from a collection
+   * Returns undefined if not found
+   */
+  removeAssets(id: string, assetIds: string[]): Collection | undefined {
+    const removed = new Set(assetIds);
+    return this.modify(id, collection => ({
+      ...collection,
+      assetIds: collection.assetIds.filter(assetId => !removed.has(assetId)),
+    }));
+  }
+
+  /**
+   * Remove a deleted asset from every collection
+   * Returns the number of collections that contained it
+   */
+  removeAssetEverywhere(assetId: string): number {
+    const collections = this.getAll();
+    let changed = 0;
+    const updated = collections.map(collection => {
+      if (!collection.assetIds.includes(assetId)) {
+        return collection;
+      }
+      changed++;
+      return { ...collection, assetIds: collection.assetIds.filter(id => id !== assetId) };
+    });
+    if (changed > 0) {
+      this.store.set(this.STORE_KEY, updated);
+    }
+    return changed;
+  }
+
+  private modify(id: string, apply: (collection: Collection) => Collection): Collection | undefined {
+    const collections = this.getAll();
+    const index = collections.findIndex(collection => collection.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+    const updated = apply(collections[index]);
+    collections[index] = updated;
+    this.store.set(this.STORE_KEY, collections);
+    return updated;
+  }
+}
+
+export default CollectionStore;
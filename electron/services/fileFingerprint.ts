@@ -0,0 +1,39 @@
+import { createHash } from "crypto";
+import fs from "fs";
+
+/** Bytes hashed from the start, middle and end of the file */
+const SAMPLE_BYTES = 4 * 1024 * 1024;
+
+/**
+ * Compute a fingerprint used to detect duplicate uploads
+ *
+ * Recordings are often several GB, so instead of hashing the whole file
+ * the SHA-256 covers the file size and three samples (start, middle, end).
+ * Files with the same size and identical samples are treated as the same video.
+ *
+ * @returns `<size>:<sha256 hex>`
+ */
+export async function computeFingerprint(filePath: string): Promise<string> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    const hash = createHash("sha256");
+    hash.update(String(size));
+
+    const offsets =
+      size <= SAMPLE_BYTES * 3
+        ? [0]
+        : [0, Math.floor(size / 2 - SAMPLE_BYTES / 2), size - SAMPLE_BYTES];
+    const length = Math.min(size, offsets.length === 1 ? size : SAMPLE_BYTES);
+    const buffer = Buffer.alloc(length);
+
+    for (const offset of offsets) {
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+      hash.update(buffer.subarray(0, bytesRead));
+    }
+
+    return `${size}:${hash.digest("hex")}`;
+  } finally {
+    await handle.close();
+  }
+}
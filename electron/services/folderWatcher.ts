@@ -0,0 +1,197 @@
+import fs from "fs";
+import path from "path";
+import log from "electron-log/main";
+import { VIDEO_EXTENSIONS } from "./vidyeetClient";
+import type { WatchFolder } from "../types/ipc";
+
+/** Interval between size checks while a new file is being written */
+const STABILITY_CHECK_INTERVAL_MS = 3000;
+
+/** Consecutive unchanged checks required before a file counts as finished */
+const STABLE_CHECKS_REQUIRED = 2;
+
+/** A file that appeared in a watch folder and may still be growing */
+interface PendingFile {
+  folderId: string;
+  size: number;
+  mtimeMs: number;
+  stableChecks: number;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Convert a file name glob (`*` and `?`) to a case-insensitive regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${escaped}$`, "i");
+}
+
+/**
+ * Whether a file name should be picked up by a watch folder
+ *
+ * The extension must be one of VIDEO_EXTENSIONS (same list as the file picker)
+ * and, when patterns are given, the name must match at least one of them
+ */
+export function isWatchedFile(fileName: string, patterns: string[]): boolean {
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  if (!VIDEO_EXTENSIONS.includes(extension)) {
+    return false;
+  }
+  if (patterns.length === 0) {
+    return true;
+  }
+  return patterns.some((pattern) => globToRegExp(pattern).test(fileName));
+}
+
+/**
+ * FolderWatcher watches the configured directories (including subfolders)
+ * and reports new video files once they have stopped growing
+ *
+ * Recorders such as OBS or ShadowPlay keep writing to the file while recording,
+ * so a file is only reported after its size and mtime stay unchanged for
+ * STABLE_CHECKS_REQUIRED consecutive checks
+ */
+export class FolderWatcher {
+  private folders = new Map<string, WatchFolder>();
+  private watchers = new Map<string, fs.FSWatcher>();
+  private pending = new Map<string, PendingFile>();
+  /** Files already reported in this session (recorders often touch a file more than once) */
+  private reported = new Set<string>();
+
+  constructor(
+    private readonly onFileReady: (folder: WatchFolder, filePath: string) => void,
+  ) {}
+
+  /**
+   * Start/stop watchers so that exactly the given folders are watched
+   * Pattern and mode changes take effect for the next detected file
+   */
+  sync(folders: WatchFolder[]): void {
+    const nextIds = new Set(folders.map((folder) => folder.id));
+
+    for (const id of Array.from(this.watchers.keys())) {
+      if (!nextIds.has(id)) {
+        this.unwatch(id);
+      }
+    }
+
+    for (const folder of folders) {
+      const previous = this.folders.get(folder.id);
+      this.folders.set(folder.id, folder);
+      if (previous && previous.path !== folder.path) {
+        this.unwatch(folder.id);
+      }
+      if (!this.watchers.has(folder.id)) {
+        this.watch(folder);
+      }
+    }
+  }
+
+  /**
+   * Stop all watchers and pending checks
+   */
+  stop(): void {
+    for (const id of Array.from(this.watchers.keys())) {
+      this.unwatch(id);
+    }
+    this.folders.clear();
+  }
+
+  private watch(folder: WatchFolder): void {
+    try {
+      const watcher = fs.watch(
+        folder.path,
+        { recursive: true },
+        (eventType, fileName) => {
+          // New files (and files moved into the folder) arrive as "rename"
+          if (eventType !== "rename" || !fileName) return;
+          this.handleCandidate(folder.id, path.join(folder.path, fileName.toString()));
+        },
+      );
+      watcher.on("error", (error) => {
+        log.warn(`[FolderWatcher] Watch error for ${folder.path}:`, error);
+        this.unwatch(folder.id);
+      });
+      this.watchers.set(folder.id, watcher);
+      log.info(`[FolderWatcher] Watching ${folder.path}`);
+    } catch (error) {
+      log.warn(`[FolderWatcher] Failed to watch ${folder.path}:`, error);
+    }
+  }
+
+  private unwatch(id: string): void {
+    this.watchers.get(id)?.close();
+    this.watchers.delete(id);
+    for (const [filePath, file] of Array.from(this.pending.entries())) {
+      if (file.folderId === id) {
+        clearTimeout(file.timer);
+        this.pending.delete(filePath);
+      }
+    }
+  }
+
+  private handleCandidate(folderId: string, filePath: string): void {
+    const folder = this.folders.get(folderId);
+    if (!folder || this.pending.has(filePath) || this.reported.has(filePath)) {
+      return;
+    }
+    if (!isWatchedFile(path.basename(filePath), folder.patterns)) {
+      return;
+    }
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      // Deleted or renamed away
+      return;
+    }
+    if (!stats.isFile()) return;
+
+    this.pending.set(filePath, {
+      folderId,
+      size: stats.size,
+      mtimeMs: stats.mtimeMs,
+      stableChecks: 0,
+      timer: setTimeout(() => this.checkStable(filePath), STABILITY_CHECK_INTERVAL_MS),
+    });
+  }
+
+  private checkStable(filePath: string): void {
+    const file = this.pending.get(filePath);
+    if (!file) return;
+
+    let stats: fs.Stats;
+    try {
+      stats = fs.statSync(filePath);
+    } catch {
+      this.pending.delete(filePath);
+      return;
+    }
+
+    if (stats.size === file.size && stats.mtimeMs === file.mtimeMs && stats.size > 0) {
+      file.stableChecks += 1;
+    } else {
+      file.size = stats.size;
+      file.mtimeMs = stats.mtimeMs;
+      file.stableChecks = 0;
+    }
+
+    if (file.stableChecks < STABLE_CHECKS_REQUIRED) {
+      file.timer = setTimeout(() => this.checkStable(filePath), STABILITY_CHECK_INTERVAL_MS);
+      return;
+    }
+
+    this.pending.delete(filePath);
+    const folder = this.folders.get(file.folderId);
+    if (!folder) return;
+
+    this.reported.add(filePath);
+    log.info(`[FolderWatcher] New file ready: ${filePath}`);
+    this.onFileReady(folder, filePath);
+  }
+}
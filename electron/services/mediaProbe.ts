@@ -0,0 +1,526 @@
+import fs from "fs";
+import type { MediaProbeResult } from "../types/ipc";
+
+/** Bytes read from the start of the file (container detection, Matroska / AVI headers) */
+const HEADER_BYTES = 1024 * 1024;
+
+/** Larger MP4 indexes (moov) are not parsed; the file is still accepted */
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+/** Top-level box types an ISO BMFF (MP4 / MOV) file can start with */
+const ISO_BMFF_START_BOXES = ["ftyp", "moov", "mdat", "free", "skip", "wide", "pnot"];
+
+/** ASF (WMV) header object GUID */
+const ASF_HEADER_GUID = Buffer.from([
+  0x30, 0x26, 0xb2, 0x75, 0x8e, 0x66, 0xcf, 0x11,
+  0xa6, 0xd9, 0x00, 0xaa, 0x00, 0x62, 0xce, 0x6c,
+]);
+
+/** MP4 sample entry types -> codec names */
+const MP4_CODECS: Record<string, string> = {
+  avc1: "h264",
+  avc3: "h264",
+  hvc1: "hevc",
+  hev1: "hevc",
+  av01: "av1",
+  vp08: "vp8",
+  vp09: "vp9",
+  mp4v: "mpeg4",
+  apcn: "prores",
+  apch: "prores",
+  apcs: "prores",
+  apco: "prores",
+  ap4h: "prores",
+  mp4a: "aac",
+  Opus: "opus",
+  "ac-3": "ac3",
+  "ec-3": "eac3",
+  ".mp3": "mp3",
+  lpcm: "pcm",
+  sowt: "pcm",
+  twos: "pcm",
+};
+
+/** Matroska CodecID -> codec names */
+const MATROSKA_CODECS: Record<string, string> = {
+  "V_MPEG4/ISO/AVC": "h264",
+  "V_MPEGH/ISO/HEVC": "hevc",
+  V_AV1: "av1",
+  V_VP8: "vp8",
+  V_VP9: "vp9",
+  A_AAC: "aac",
+  A_OPUS: "opus",
+  A_VORBIS: "vorbis",
+  A_AC3: "ac3",
+  A_EAC3: "eac3",
+  A_MPEG_L3: "mp3",
+  A_FLAC: "flac",
+  A_PCM_INT_LIT: "pcm",
+};
+
+/** AVI (WAVEFORMATEX) audio format tags -> codec names */
+const AVI_AUDIO_CODECS: Record<number, string> = {
+  0x0001: "pcm",
+  0x0055: "mp3",
+  0x00ff: "aac",
+  0x2000: "ac3",
+};
+
+// Matroska element IDs (with their length marker bits)
+const EBML_ID = 0x1a45dfa3;
+const EBML_DOC_TYPE = 0x4282;
+const MKV_SEGMENT = 0x18538067;
+const MKV_INFO = 0x1549a966;
+const MKV_TIMESTAMP_SCALE = 0x2ad7b1;
+const MKV_DURATION = 0x4489;
+const MKV_TRACKS = 0x1654ae6b;
+const MKV_TRACK_ENTRY = 0xae;
+const MKV_TRACK_TYPE = 0x83;
+const MKV_CODEC_ID = 0x86;
+const MKV_VIDEO = 0xe0;
+const MKV_PIXEL_WIDTH = 0xb0;
+const MKV_PIXEL_HEIGHT = 0xba;
+const MKV_CLUSTER = 0x1f43b675;
+
+type ProbeFields = Omit<MediaProbeResult, "sizeBytes">;
+
+interface TrackInfo {
+  kind: "video" | "audio" | "other";
+  codec: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+function emptyFields(container: string | null): ProbeFields {
+  return {
+    container,
+    durationSecs: null,
+    width: null,
+    height: null,
+    videoCodec: null,
+    audioCodec: null,
+    issue: null,
+  };
+}
+
+/** Fill video / audio fields from the first track of each kind */
+function applyTracks(fields: ProbeFields, tracks: TrackInfo[]): void {
+  const video = tracks.find((track) => track.kind === "video");
+  const audio = tracks.find((track) => track.kind === "audio");
+  if (video) {
+    fields.videoCodec = video.codec;
+    fields.width = video.width;
+    fields.height = video.height;
+  }
+  if (audio) {
+    fields.audioCodec = audio.codec;
+  }
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// =============================================================================
+// ISO BMFF (MP4 / MOV / M4V)
+// =============================================================================
+
+/**
+ * Iterate the boxes in buffer[start, end)
+ * Returns false when a box header is malformed or runs past `end`
+ */
+function forEachBox(
+  buffer: Buffer,
+  start: number,
+  end: number,
+  callback: (type: string, bodyStart: number, bodyEnd: number) => void
+): boolean {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString("latin1", offset + 4, offset + 8);
+    let headerSize = 8;
+    if (size === 1) {
+      if (offset + 16 > end) return false;
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) return false;
+    callback(type, offset + headerSize, offset + size);
+    offset += size;
+  }
+  return true;
+}
+
+function findBox(buffer: Buffer, start: number, end: number, type: string): [number, number] | null {
+  let found: [number, number] | null = null;
+  forEachBox(buffer, start, end, (boxType, bodyStart, bodyEnd) => {
+    if (!found && boxType === type) found = [bodyStart, bodyEnd];
+  });
+  return found;
+}
+
+function parseTrak(moov: Buffer, start: number, end: number): TrackInfo {
+  const track: TrackInfo = { kind: "other", codec: null, width: null, height: null };
+
+  const tkhd = findBox(moov, start, end, "tkhd");
+  if (tkhd && tkhd[1] - tkhd[0] >= 8) {
+    // Width and height are the last two 16.16 fixed-point fields
+    track.width = Math.round(moov.readUInt32BE(tkhd[1] - 8) / 65536) || null;
+    track.height = Math.round(moov.readUInt32BE(tkhd[1] - 4) / 65536) || null;
+  }
+
+  const mdia = findBox(moov, start, end, "mdia");
+  if (!mdia) return track;
+
+  const hdlr = findBox(moov, mdia[0], mdia[1], "hdlr");
+  if (hdlr && hdlr[1] - hdlr[0] >= 12) {
+    const handler = moov.toString("latin1", hdlr[0] + 8, hdlr[0] + 12);
+    track.kind = handler === "vide" ? "video" : handler === "soun" ? "audio" : "other";
+  }
+
+  const minf = findBox(moov, mdia[0], mdia[1], "minf");
+  const stbl = minf && findBox(moov, minf[0], minf[1], "stbl");
+  const stsd = stbl && findBox(moov, stbl[0], stbl[1], "stsd");
+  // stsd: version/flags (4), entry count (4), then the first sample entry (size 4, type 4)
+  if (stsd && stsd[1] - stsd[0] >= 16) {
+    const format = moov.toString("latin1", stsd[0] + 12, stsd[0] + 16);
+    track.codec = MP4_CODECS[format] ?? format.trim();
+  }
+  return track;
+}
+
+function parseMoov(moov: Buffer, fields: ProbeFields): void {
+  const tracks: TrackInfo[] = [];
+  const valid = forEachBox(moov, 0, moov.length, (type, bodyStart, bodyEnd) => {
+    const version = type === "mvhd" && bodyEnd > bodyStart ? moov.readUInt8(bodyStart) : 0;
+    if (type === "mvhd" && bodyEnd - bodyStart >= (version === 1 ? 32 : 20)) {
+      const timescale = moov.readUInt32BE(bodyStart + (version === 1 ? 20 : 12));
+      const duration =
+        version === 1
+          ? Number(moov.readBigUInt64BE(bodyStart + 24))
+          : moov.readUInt32BE(bodyStart + 16);
+      if (timescale > 0 && duration > 0 && duration !== 0xffffffff) {
+        fields.durationSecs = duration / timescale;
+      }
+    } else if (type === "trak") {
+      tracks.push(parseTrak(moov, bodyStart, bodyEnd));
+    }
+  });
+  if (!valid) {
+    fields.issue = "corrupt";
+    return;
+  }
+  applyTracks(fields, tracks);
+}
+
+function isIsoBmff(header: Buffer): boolean {
+  return header.length >= 8 && ISO_BMFF_START_BOXES.includes(header.toString("latin1", 4, 8));
+}
+
+/**
+ * Walk the top-level boxes on disk (mdat can be several GB) and parse moov
+ * A missing moov usually means the recording was interrupted before it was finalized
+ */
+async function probeIsoBmff(handle: fs.promises.FileHandle, size: number): Promise<ProbeFields> {
+  const fields = emptyFields("mp4");
+  let foundMoov = false;
+  let offset = 0;
+
+  while (offset + 8 <= size) {
+    const header = await readAt(handle, offset, 16);
+    let boxSize = header.readUInt32BE(0);
+    const type = header.toString("latin1", 4, 8);
+    let headerSize = 8;
+    if (boxSize === 1) {
+      if (header.length < 16) return { ...fields, issue: "truncated" };
+      boxSize = Number(header.readBigUInt64BE(8));
+      headerSize = 16;
+    } else if (boxSize === 0) {
+      boxSize = size - offset;
+    }
+    if (boxSize < headerSize) return { ...fields, issue: "corrupt" };
+    if (offset + boxSize > size) return { ...fields, issue: "truncated" };
+
+    if (type === "ftyp" && boxSize >= 12) {
+      const brand = (await readAt(handle, offset + headerSize, 4)).toString("latin1");
+      fields.container = brand === "qt  " ? "mov" : "mp4";
+    } else if (type === "moov") {
+      foundMoov = true;
+      const bodySize = boxSize - headerSize;
+      if (bodySize <= MAX_MOOV_BYTES) {
+        parseMoov(await readAt(handle, offset + headerSize, bodySize), fields);
+      }
+    }
+    offset += boxSize;
+  }
+
+  if (!foundMoov && !fields.issue) {
+    fields.issue = "missing_index";
+  }
+  return fields;
+}
+
+// =============================================================================
+// Matroska / WebM
+// =============================================================================
+
+interface EbmlElement {
+  id: number;
+  dataStart: number;
+  /** Exclusive end; null when the size is unknown (live-written files) */
+  dataEnd: number | null;
+}
+
+/** Read an EBML variable-length integer; IDs keep their marker bits, sizes do not */
+function readVint(buffer: Buffer, offset: number, keepMarker: boolean): { value: number; length: number; unknown: boolean } | null {
+  if (offset >= buffer.length) return null;
+  const first = buffer[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8 || offset + length > buffer.length) return null;
+
+  let value = keepMarker ? first : first & (0xff >> length);
+  let allOnes = value === (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+    if (buffer[offset + i] !== 0xff) allOnes = false;
+  }
+  return { value, length, unknown: !keepMarker && allOnes };
+}
+
+function readElement(buffer: Buffer, offset: number): EbmlElement | null {
+  const id = readVint(buffer, offset, true);
+  if (!id) return null;
+  const size = readVint(buffer, offset + id.length, false);
+  if (!size) return null;
+  const dataStart = offset + id.length + size.length;
+  return { id: id.value, dataStart, dataEnd: size.unknown ? null : dataStart + size.value };
+}
+
+/** Iterate child elements of buffer[start, end), stopping at the first Cluster */
+function forEachElement(buffer: Buffer, start: number, end: number, callback: (element: EbmlElement) => void): void {
+  let offset = start;
+  while (offset < end) {
+    const element = readElement(buffer, offset);
+    if (!element || element.id === MKV_CLUSTER) return;
+    callback(element);
+    if (element.dataEnd === null) return;
+    offset = element.dataEnd;
+  }
+}
+
+function readUint(buffer: Buffer, start: number, end: number): number {
+  let value = 0;
+  for (let i = start; i < Math.min(end, buffer.length); i++) value = value * 256 + buffer[i];
+  return value;
+}
+
+function readFloat(buffer: Buffer, start: number, end: number): number | null {
+  if (end > buffer.length) return null;
+  if (end - start === 4) return buffer.readFloatBE(start);
+  if (end - start === 8) return buffer.readDoubleBE(start);
+  return null;
+}
+
+function readString(buffer: Buffer, start: number, end: number): string {
+  return buffer.toString("latin1", start, Math.min(end, buffer.length)).replace(/\0+$/, "");
+}
+
+function parseTrackEntry(buffer: Buffer, start: number, end: number): TrackInfo {
+  const track: TrackInfo = { kind: "other", codec: null, width: null, height: null };
+  forEachElement(buffer, start, end, (element) => {
+    const dataEnd = element.dataEnd ?? end;
+    if (element.id === MKV_TRACK_TYPE) {
+      const trackType = readUint(buffer, element.dataStart, dataEnd);
+      track.kind = trackType === 1 ? "video" : trackType === 2 ? "audio" : "other";
+    } else if (element.id === MKV_CODEC_ID) {
+      const codecId = readString(buffer, element.dataStart, dataEnd);
+      track.codec = MATROSKA_CODECS[codecId] ?? codecId;
+    } else if (element.id === MKV_VIDEO) {
+      forEachElement(buffer, element.dataStart, dataEnd, (child) => {
+        const childEnd = child.dataEnd ?? dataEnd;
+        if (child.id === MKV_PIXEL_WIDTH) track.width = readUint(buffer, child.dataStart, childEnd);
+        if (child.id === MKV_PIXEL_HEIGHT) track.height = readUint(buffer, child.dataStart, childEnd);
+      });
+    }
+  });
+  return track;
+}
+
+function isMatroska(header: Buffer): boolean {
+  return header.length >= 4 && header.readUInt32BE(0) === EBML_ID;
+}
+
+/**
+ * Parse the EBML header, Info and Tracks from the start of the file
+ * Only the Segment size is checked against the file size; Clusters are not read
+ */
+function probeMatroska(header: Buffer, size: number): ProbeFields {
+  const fields = emptyFields("matroska");
+  const ebml = readElement(header, 0);
+  if (!ebml?.dataEnd) return { ...fields, issue: "corrupt" };
+
+  forEachElement(header, ebml.dataStart, ebml.dataEnd, (element) => {
+    if (element.id === EBML_DOC_TYPE) {
+      const docType = readString(header, element.dataStart, element.dataEnd ?? ebml.dataEnd!);
+      fields.container = docType === "webm" ? "webm" : "matroska";
+    }
+  });
+
+  const segment = readElement(header, ebml.dataEnd);
+  if (!segment || segment.id !== MKV_SEGMENT) return { ...fields, issue: "corrupt" };
+  if (segment.dataEnd !== null && segment.dataEnd > size) return { ...fields, issue: "truncated" };
+
+  let timestampScale = 1_000_000;
+  let duration: number | null = null;
+  const tracks: TrackInfo[] = [];
+  const segmentEnd = Math.min(segment.dataEnd ?? header.length, header.length);
+
+  forEachElement(header, segment.dataStart, segmentEnd, (element) => {
+    const dataEnd = Math.min(element.dataEnd ?? segmentEnd, segmentEnd);
+    if (element.id === MKV_INFO) {
+      forEachElement(header, element.dataStart, dataEnd, (child) => {
+        const childEnd = child.dataEnd ?? dataEnd;
+        if (child.id === MKV_TIMESTAMP_SCALE) timestampScale = readUint(header, child.dataStart, childEnd);
+        if (child.id === MKV_DURATION) duration = readFloat(header, child.dataStart, childEnd);
+      });
+    } else if (element.id === MKV_TRACKS) {
+      forEachElement(header, element.dataStart, dataEnd, (child) => {
+        if (child.id === MKV_TRACK_ENTRY) {
+          tracks.push(parseTrackEntry(header, child.dataStart, child.dataEnd ?? dataEnd));
+        }
+      });
+    }
+  });
+
+  if (duration !== null && duration > 0) {
+    fields.durationSecs = (duration * timestampScale) / 1e9;
+  }
+  applyTracks(fields, tracks);
+  return fields;
+}
+
+// =============================================================================
+// AVI
+// =============================================================================
+
+function isAvi(header: Buffer): boolean {
+  return (
+    header.length >= 12 &&
+    header.toString("latin1", 0, 4) === "RIFF" &&
+    header.toString("latin1", 8, 12) === "AVI "
+  );
+}
+
+/** Iterate RIFF chunks in buffer[start, end); LIST chunks report their list type */
+function forEachChunk(
+  buffer: Buffer,
+  start: number,
+  end: number,
+  callback: (id: string, dataStart: number, dataEnd: number) => void
+): void {
+  let offset = start;
+  while (offset + 8 <= Math.min(end, buffer.length)) {
+    const id = buffer.toString("latin1", offset, offset + 4);
+    const chunkSize = buffer.readUInt32LE(offset + 4);
+    const dataEnd = Math.min(offset + 8 + chunkSize, end, buffer.length);
+    if (id === "LIST" && offset + 12 <= dataEnd) {
+      callback(`LIST:${buffer.toString("latin1", offset + 8, offset + 12)}`, offset + 12, dataEnd);
+    } else {
+      callback(id, offset + 8, dataEnd);
+    }
+    // Chunks are padded to an even size
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+}
+
+function probeAvi(header: Buffer, size: number): ProbeFields {
+  const fields = emptyFields("avi");
+  if (header.readUInt32LE(4) + 8 > size) return { ...fields, issue: "truncated" };
+
+  const tracks: TrackInfo[] = [];
+  forEachChunk(header, 12, header.length, (id, dataStart, dataEnd) => {
+    if (id !== "LIST:hdrl") return;
+    forEachChunk(header, dataStart, dataEnd, (hdrlId, start, end) => {
+      if (hdrlId === "avih" && end - start >= 40) {
+        const microSecPerFrame = header.readUInt32LE(start);
+        const totalFrames = header.readUInt32LE(start + 16);
+        if (microSecPerFrame > 0 && totalFrames > 0) {
+          fields.durationSecs = (microSecPerFrame * totalFrames) / 1e6;
+        }
+        fields.width = header.readUInt32LE(start + 32) || null;
+        fields.height = header.readUInt32LE(start + 36) || null;
+      } else if (hdrlId === "LIST:strl") {
+        const track: TrackInfo = { kind: "other", codec: null, width: null, height: null };
+        forEachChunk(header, start, end, (strlId, chunkStart, chunkEnd) => {
+          if (strlId === "strh" && chunkEnd - chunkStart >= 8) {
+            const streamType = header.toString("latin1", chunkStart, chunkStart + 4);
+            track.kind = streamType === "vids" ? "video" : streamType === "auds" ? "audio" : "other";
+            if (track.kind === "video") {
+              track.codec = header.toString("latin1", chunkStart + 4, chunkStart + 8).replace(/\0/g, "").trim().toLowerCase() || null;
+            }
+          } else if (strlId === "strf" && track.kind === "audio" && chunkEnd - chunkStart >= 2) {
+            const formatTag = header.readUInt16LE(chunkStart);
+            track.codec = AVI_AUDIO_CODECS[formatTag] ?? `0x${formatTag.toString(16).padStart(4, "0")}`;
+          }
+        });
+        tracks.push(track);
+      }
+    });
+  });
+
+  const video = tracks.find((track) => track.kind === "video");
+  const audio = tracks.find((track) => track.kind === "audio");
+  fields.videoCodec = video?.codec ?? null;
+  fields.audioCodec = audio?.codec ?? null;
+  return fields;
+}
+
+// =============================================================================
+// Entry point
+// =============================================================================
+
+/**
+ * Probe a video file locally before it is uploaded
+ *
+ * Reads only the container header (and the MP4 index) to get the duration,
+ * resolution and codecs, and reports files that cannot be uploaded as-is:
+ * empty, unrecognised container, truncated, or an MP4 without its index.
+ * WMV and FLV are recognised but their metadata is not parsed.
+ *
+ * @throws when the file cannot be opened or read
+ */
+export async function probeMediaFile(filePath: string): Promise<MediaProbeResult> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) {
+      return { sizeBytes: 0, ...emptyFields(null), issue: "empty" };
+    }
+
+    const header = await readAt(handle, 0, Math.min(size, HEADER_BYTES));
+    let fields: ProbeFields;
+    if (isIsoBmff(header)) {
+      fields = await probeIsoBmff(handle, size);
+    } else if (isMatroska(header)) {
+      fields = probeMatroska(header, size);
+    } else if (isAvi(header)) {
+      fields = probeAvi(header, size);
+    } else if (header.length >= 16 && header.subarray(0, 16).equals(ASF_HEADER_GUID)) {
+      fields = emptyFields("asf");
+    } else if (header.toString("latin1", 0, 3) === "FLV") {
+      fields = emptyFields("flv");
+    } else {
+      fields = { ...emptyFields(null), issue: "unknown_format" };
+    }
+
+    return { sizeBytes: size, ...fields };
+  } finally {
+    await handle.close();
+  }
+}
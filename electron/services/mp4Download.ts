@@ -0,0 +1,315 @@
+/**
+ * MP4 Download
+ *
+ * Downloads the processed MP4 (`highest.mp4`) of an asset back to disk.
+ * If Mux is still generating the MP4, the asset is polled with `show` until
+ * it is ready (or the wait times out and the user can retry later).
+ * The file is streamed to "<name>.mp4.part" and renamed when complete,
+ * so a cancelled or failed download never leaves a truncated MP4 behind.
+ */
+
+import { net } from "electron";
+import fs from "node:fs";
+import path from "node:path";
+import log from "electron-log/main";
+import { showAsset } from "./vidyeetClient";
+import { getMp4Url } from "../../src/utils/muxUrls";
+import {
+  isIpcError,
+  type IpcError,
+  type Mp4DownloadProgress,
+  type Mp4DownloadRequest,
+  type Mp4DownloadResponse,
+  type Mp4Status,
+} from "../types/ipc";
+
+/** How often the asset is checked while Mux generates the MP4 */
+const MP4_POLL_INTERVAL_MS = 10_000;
+
+/** Longest wait for the MP4 before giving up (the user can retry) */
+const MP4_MAX_WAIT_MS = 10 * 60 * 1000;
+
+/** Minimum interval between progress events while downloading */
+const PROGRESS_INTERVAL_MS = 250;
+
+/** Longest file name kept from a title (without extension) */
+const MAX_FILE_NAME_LENGTH = 120;
+
+/** Names Windows does not allow as file names */
+const RESERVED_NAMES = /^(con|prn|aux|nul|com\d|lpt\d)$/i;
+
+/** Names tried before giving up when other downloads keep taking them first */
+const MAX_NAME_ATTEMPTS = 10;
+
+// =============================================================================
+// File Names
+// =============================================================================
+
+/**
+ * Build a safe ".mp4" file name from a title or original file name
+ * @param name Title or original file name (an existing extension is dropped)
+ * @param fallback Used when nothing usable is left (e.g. the asset ID)
+ */
+export function toMp4FileName(name: string, fallback: string): string {
+  let base = name
+    .trim()
+    .replace(/\.[a-z][a-z0-9]{1,3}$/i, "")
+    .replace(/[<>:"/\\|?*\u0000-\u001f]/g, "_")
+    .replace(/\s+/g, " ")
+    .slice(0, MAX_FILE_NAME_LENGTH)
+    .replace(/[. ]+$/, "");
+
+  if (!base || /^_+$/.test(base)) {
+    base = fallback;
+  }
+  if (RESERVED_NAMES.test(base)) {
+    base = `_${base}`;
+  }
+  return `${base}.mp4`;
+}
+
+/**
+ * Whether a file (or a download still writing to it) already uses the path
+ */
+async function isTaken(filePath: string): Promise<boolean> {
+  for (const candidate of [filePath, `${filePath}.part`]) {
+    try {
+      await fs.promises.access(candidate);
+      return true;
+    } catch {
+      // Not there
+    }
+  }
+  return false;
+}
+
+/**
+ * Find a path in the directory that is not taken yet
+ * ("clip.mp4" → "clip (1).mp4" → "clip (2).mp4" …)
+ */
+export async function resolveFreePath(directory: string, fileName: string): Promise<string> {
+  const ext = path.extname(fileName);
+  const base = fileName.slice(0, fileName.length - ext.length);
+
+  for (let index = 0; ; index++) {
+    const candidate = path.join(directory, index === 0 ? fileName : `${base} (${index})${ext}`);
+    if (!(await isTaken(candidate))) {
+      return candidate;
+    }
+  }
+}
+
+/**
+ * Claim a free path by creating its ".part" file
+ * Downloads with the same title can resolve the same name at the same time;
+ * the one that loses the exclusive create moves on to the next free name
+ */
+export async function openFreePartFile(
+  directory: string,
+  fileName: string,
+): Promise<{ filePath: string; file: fs.promises.FileHandle }> {
+  for (let attempt = 1; ; attempt++) {
+    const filePath = await resolveFreePath(directory, fileName);
+    try {
+      const file = await fs.promises.open(`${filePath}.part`, "wx");
+      return { filePath, file };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST" || attempt >= MAX_NAME_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// =============================================================================
+// Download
+// =============================================================================
+
+/** Thrown when the download is cancelled */
+class DownloadCancelledError extends Error {
+  constructor() {
+    super("Download cancelled");
+  }
+}
+
+/**
+ * Wait without blocking cancellation
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new DownloadCancelledError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DownloadCancelledError());
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Check the MP4 with `show` and wait while Mux is still generating it
+ * @returns The MP4 status once it is no longer generating (undefined = the asset has no MP4 info)
+ */
+async function waitForMp4(
+  request: Mp4DownloadRequest,
+  signal: AbortSignal,
+  onProgress: (progress: Mp4DownloadProgress) => void,
+): Promise<Mp4Status | undefined | IpcError> {
+  const startedAt = Date.now();
+
+  for (;;) {
+    const result = await showAsset({ assetId: request.assetId });
+    if (signal.aborted) {
+      throw new DownloadCancelledError();
+    }
+    if (isIpcError(result)) {
+      return result;
+    }
+
+    const status = result.item.mp4Status;
+    if (status !== "generating") {
+      return status;
+    }
+
+    const elapsedMs = Date.now() - startedAt;
+    if (elapsedMs >= MP4_MAX_WAIT_MS) {
+      return {
+        code: "MP4_NOT_READY",
+        message: "The MP4 is still being generated",
+      };
+    }
+    onProgress({
+      downloadId: request.downloadId,
+      phase: "waiting",
+      elapsedSecs: Math.floor(elapsedMs / 1000),
+    });
+    await sleep(MP4_POLL_INTERVAL_MS, signal);
+  }
+}
+
+/**
+ * Stream the MP4 into the ".part" file of filePath and rename it when complete
+ * @param file The opened ".part" file (see openFreePartFile)
+ * @returns Number of bytes written
+ */
+async function streamToFile(
+  response: Response,
+  filePath: string,
+  file: fs.promises.FileHandle,
+  request: Mp4DownloadRequest,
+  onProgress: (progress: Mp4DownloadProgress) => void,
+): Promise<number> {
+  const contentLength = Number(response.headers.get("content-length"));
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null;
+  const partPath = `${filePath}.part`;
+  let bytesReceived = 0;
+  let lastProgressAt = 0;
+
+  const sendProgress = () => {
+    onProgress({
+      downloadId: request.downloadId,
+      phase: "downloading",
+      bytesReceived,
+      totalBytes,
+      ...(totalBytes !== null && { percent: Math.min(100, Math.floor((bytesReceived / totalBytes) * 100)) }),
+    });
+  };
+
+  try {
+    sendProgress();
+    if (response.body) {
+      const reader = response.body.getReader();
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        await file.write(value);
+        bytesReceived += value.byteLength;
+
+        const now = Date.now();
+        if (now - lastProgressAt >= PROGRESS_INTERVAL_MS) {
+          lastProgressAt = now;
+          sendProgress();
+        }
+      }
+    }
+    sendProgress();
+    await file.close();
+  } catch (error) {
+    await file.close().catch(() => undefined);
+    await fs.promises.rm(partPath, { force: true });
+    throw error;
+  }
+
+  if (totalBytes !== null && bytesReceived < totalBytes) {
+    await fs.promises.rm(partPath, { force: true });
+    throw new Error(`Download ended early (${bytesReceived} of ${totalBytes} bytes)`);
+  }
+
+  await fs.promises.rename(partPath, filePath);
+  return bytesReceived;
+}
+
+/**
+ * Download the MP4 of an asset into the chosen directory
+ *
+ * @param request Download request (the renderer picks the directory first)
+ * @param signal Aborts the wait or the transfer (see cancelDownload in ipc/download.ts)
+ * @param onProgress Progress callback ("waiting" while Mux generates the MP4)
+ */
+export async function downloadMp4(
+  request: Mp4DownloadRequest,
+  signal: AbortSignal,
+  onProgress: (progress: Mp4DownloadProgress) => void,
+): Promise<Mp4DownloadResponse | IpcError> {
+  try {
+    const status = await waitForMp4(request, signal, onProgress);
+    if (isIpcError(status)) {
+      return status;
+    }
+    if (status === "errored") {
+      return {
+        code: "MP4_UNAVAILABLE",
+        message: "Mux failed to generate the MP4",
+      };
+    }
+
+    const response = await net.fetch(getMp4Url(request.playbackId), { signal });
+    if (!response.ok) {
+      // Without MP4 info the asset most likely has no static rendition at all
+      const notFound = response.status === 404 || response.status === 412;
+      return {
+        code: notFound ? (status === undefined ? "MP4_UNAVAILABLE" : "MP4_NOT_READY") : "DOWNLOAD_ERROR",
+        message: `MP4 request failed (HTTP ${response.status})`,
+        details: { status: response.status },
+      };
+    }
+
+    const { filePath, file } = await openFreePartFile(
+      request.directory,
+      toMp4FileName(request.fileName, request.assetId),
+    );
+    const sizeBytes = await streamToFile(response, filePath, file, request, onProgress);
+    log.info("[Download] Saved MP4:", request.assetId, filePath);
+    return { filePath, sizeBytes };
+  } catch (error) {
+    if (signal.aborted || error instanceof DownloadCancelledError) {
+      return {
+        code: "DOWNLOAD_CANCELLED",
+        message: "Download cancelled",
+      };
+    }
+    log.error("[Download] Failed to download MP4:", request.assetId, error);
+    return {
+      code: "DOWNLOAD_ERROR",
+      message: error instanceof Error ? error.message : "Failed to download the MP4",
+      details: error,
+    };
+  }
+}
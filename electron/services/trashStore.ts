@@ -0,0 +1,99 @@
+import Store from 'electron-store';
+import { clampTrashGraceDays, type TrashEntry, type TrashMoveRequest } from '../types/ipc';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * TrashStore persists soft-deleted assets via electron-store
+ * The assets stay on Mux until purgeAt; the main process deletes them with the CLI
+ * (see ipc/trash.ts), so pending deletions survive app restarts
+ */
+class TrashStore {
+  private store: Store;
+  private readonly STORE_KEY = 'entries';
+
+  constructor() {
+    this.store = new Store({ name: 'trash' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with an empty list if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, []);
+    }
+  }
+
+  /**
+   * Get all trashed assets in the order they were trashed
+   */
+  getAll(): TrashEntry[] {
+    const entries = this.store.get(this.STORE_KEY) as TrashEntry[];
+    return entries || [];
+  }
+
+  /**
+   * Get a single trashed asset
+   */
+  get(assetId: string): TrashEntry | undefined {
+    return this.getAll().find(entry => entry.assetId === assetId);
+  }
+
+  /**
+   * Trashed assets whose grace period has ended
+   */
+  getDue(now: number = Date.now()): TrashEntry[] {
+    return this.getAll().filter(entry => entry.purgeAt <= now);
+  }
+
+  /**
+   * Move an asset to the trash (trashing it again restarts the grace period)
+   */
+  add(request: TrashMoveRequest, now: number = Date.now()): TrashEntry {
+    const entry: TrashEntry = {
+      assetId: request.assetId,
+      playbackId: request.playbackId,
+      title: request.title,
+      ...(request.duration !== undefined && { duration: request.duration }),
+      trashedAt: now,
+      purgeAt: now + clampTrashGraceDays(request.graceDays) * DAY_MS,
+    };
+    const entries = this.getAll().filter(item => item.assetId !== request.assetId);
+    entries.push(entry);
+    this.store.set(this.STORE_KEY, entries);
+    return entry;
+  }
+
+  /**
+   * Remove assets from the trash (restored or deleted)
+   * Returns the IDs that were in the trash
+   */
+  remove(assetIds: string[]): string[] {
+    const targets = new Set(assetIds);
+    const entries = this.getAll();
+    const removed = entries.filter(entry => targets.has(entry.assetId)).map(entry => entry.assetId);
+    if (removed.length > 0) {
+      this.store.set(this.STORE_KEY, entries.filter(entry => !targets.has(entry.assetId)));
+    }
+    return removed;
+  }
+
+  /**
+   * Record why deleting a trashed asset failed (cleared with null)
+   */
+  setError(assetId: string, message: string | null): void {
+    const entries = this.getAll();
+    const index = entries.findIndex(entry => entry.assetId === assetId);
+    if (index === -1) {
+      return;
+    }
+    const { lastError: _lastError, ...rest } = entries[index];
+    entries[index] = message === null ? rest : { ...rest, lastError: message };
+    this.store.set(this.STORE_KEY, entries);
+  }
+}
+
+export default TrashStore;
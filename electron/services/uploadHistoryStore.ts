@@ -0,0 +1,136 @@
+import Store from 'electron-store';
+import type { UploadHistoryEntry } from '../types/ipc';
+
+/** Oldest entries beyond this count are dropped */
+const MAX_ENTRIES = 5000;
+
+/** Columns written by toCsv(), in order */
+const CSV_COLUMNS: (keyof UploadHistoryEntry)[] = [
+  'finishedAt',
+  'status',
+  'fileName',
+  'filePath',
+  'sizeBytes',
+  'assetId',
+  'error',
+  'startedAt',
+];
+
+type NewUploadHistoryEntry = Omit<UploadHistoryEntry, 'id'>;
+
+/**
+ * Generates a unique ID using timestamp and random value
+ * Format: [base36 timestamp][base36 random]
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+}
+
+/**
+ * Quote a CSV field when it contains separators, quotes or line breaks
+ */
+function escapeCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  const text = String(value);
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+/**
+ * Format history entries as CSV (header row + one row per entry)
+ * Timestamps are written as ISO 8601 strings
+ */
+export function toCsv(entries: UploadHistoryEntry[]): string {
+  const rows = entries.map(entry =>
+    CSV_COLUMNS.map(column => {
+      const value = entry[column];
+      if ((column === 'startedAt' || column === 'finishedAt') && typeof value === 'number') {
+        return escapeCsvField(new Date(value).toISOString());
+      }
+      return escapeCsvField(value);
+    }).join(',')
+  );
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+/**
+ * UploadHistoryStore keeps a local log of finished uploads via electron-store:
+ * which file became which asset, when, how big it was, and failures
+ * Entries are kept newest first
+ */
+class UploadHistoryStore {
+  private store: Store;
+  private readonly STORE_KEY = 'entries';
+
+  constructor() {
+    this.store = new Store({ name: 'upload-history' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with empty history if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, []);
+    }
+  }
+
+  /**
+   * Get all entries (newest first)
+   */
+  getAll(): UploadHistoryEntry[] {
+    const entries = this.store.get(this.STORE_KEY) as UploadHistoryEntry[];
+    return entries || [];
+  }
+
+  /**
+   * Search entries by file name, path, asset ID or error message (case-insensitive)
+   * An empty query returns all entries
+   */
+  search(query: string): UploadHistoryEntry[] {
+    const needle = query.trim().toLowerCase();
+    const entries = this.getAll();
+    if (!needle) {
+      return entries;
+    }
+    return entries.filter(entry =>
+      [entry.fileName, entry.filePath, entry.assetId, entry.error].some(
+        value => value?.toLowerCase().includes(needle)
+      )
+    );
+  }
+
+  /**
+   * Find the most recent completed upload with the given fingerprint
+   */
+  findCompletedByFingerprint(fingerprint: string): UploadHistoryEntry | undefined {
+    return this.getAll().find(
+      entry => entry.status === 'completed' && entry.fingerprint === fingerprint
+    );
+  }
+
+  /**
+   * Record a finished upload
+   */
+  add(payload: NewUploadHistoryEntry): UploadHistoryEntry {
+    const entry: UploadHistoryEntry = { id: generateId(), ...payload };
+    const entries = [entry, ...this.getAll()].slice(0, MAX_ENTRIES);
+    this.store.set(this.STORE_KEY, entries);
+    return entry;
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.store.set(this.STORE_KEY, []);
+  }
+}
+
+export default UploadHistoryStore;
@@ -0,0 +1,73 @@
+import Store from 'electron-store';
+import type { PersistedQueueItem, PersistedQueueItemStatus } from '../types/ipc';
+
+/** 再起動後に復元する対象のステータス */
+const RESTORABLE_STATUSES: PersistedQueueItemStatus[] = ['waiting', 'uploading', 'paused', 'error'];
+
+/**
+ * UploadQueueStore persists the renderer's upload queue via electron-store
+ * so that waiting files survive app quits, crashes and auto-update restarts
+ */
+class UploadQueueStore {
+  private store: Store;
+  private readonly STORE_KEY = 'items';
+  private readonly PAUSED_KEY = 'isPaused';
+
+  constructor() {
+    this.store = new Store({ name: 'upload-queue' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with empty queue if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, []);
+    }
+  }
+
+  /**
+   * Get all persisted queue items
+   */
+  getAll(): PersistedQueueItem[] {
+    const items = this.store.get(this.STORE_KEY) as PersistedQueueItem[];
+    return items || [];
+  }
+
+  /**
+   * Whether the whole queue was paused when it was last saved
+   */
+  isPaused(): boolean {
+    return this.store.get(this.PAUSED_KEY) === true;
+  }
+
+  /**
+   * Replace the persisted queue with the given items
+   * Items with non-restorable statuses (completed, etc.) are dropped
+   */
+  save(items: PersistedQueueItem[], isPaused = false): void {
+    const restorable = items
+      .filter(item => RESTORABLE_STATUSES.includes(item.status))
+      .map(item => ({
+        filePath: item.filePath,
+        fileName: item.fileName,
+        status: item.status,
+        ...(item.error ? { error: item.error } : {}),
+        ...(item.fingerprint ? { fingerprint: item.fingerprint } : {}),
+      }));
+    this.store.set(this.STORE_KEY, restorable);
+    this.store.set(this.PAUSED_KEY, isPaused);
+  }
+
+  /**
+   * Remove all persisted queue items
+   */
+  clear(): void {
+    this.store.set(this.STORE_KEY, []);
+    this.store.set(this.PAUSED_KEY, false);
+  }
+}
+
+export default UploadQueueStore;
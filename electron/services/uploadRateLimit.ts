@@ -0,0 +1,146 @@
+/**
+ * Upload Rate Limit
+ *
+ * Resolves the bandwidth limit applied to a CLI upload (`--limit-rate`, CLI v1.3).
+ * The limit is fixed for the lifetime of one CLI process, so while uploads are
+ * running the idle state is watched, and an upload whose effective limit changes
+ * (idle state or settings) is restarted, resuming from the last confirmed chunk.
+ */
+
+import { powerMonitor } from "electron";
+import log from "electron-log/main";
+import type { UploadRequest } from "../types/ipc";
+
+/** Seconds without input before the system is treated as idle */
+export const UPLOAD_IDLE_THRESHOLD_SECS = 5 * 60;
+
+/** How often the idle state is checked while uploads are running */
+export const IDLE_POLL_INTERVAL_MS = 30 * 1000;
+
+/** System idle state as reported by powerMonitor */
+export type SystemIdleState = "active" | "idle" | "locked" | "unknown";
+
+/** Rate limit settings of an upload, as sent by the renderer */
+export type RateLimitSettings = Pick<UploadRequest, "rateLimitKbps" | "unlimitedWhenIdle">;
+
+/** A running CLI upload whose limit can be changed by restarting it */
+export interface RateLimitedUpload {
+  /** Current settings (replaced by setRateLimitSettings) */
+  settings: RateLimitSettings;
+  /** Limit the CLI was started with (null = unlimited) */
+  rateLimitKbps: number | null;
+  /** Whether the CLI can be restarted now without losing sent chunks */
+  canRestart(): boolean;
+  /** Stop the CLI and start it again with the given settings */
+  restart(settings: RateLimitSettings): void;
+}
+
+/** Running uploads by uploadId */
+const trackedUploads = new Map<string, RateLimitedUpload>();
+
+let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Resolve the effective rate limit for a request
+ *
+ * @param request Upload request carrying the renderer settings
+ * @param idleState Current system idle state
+ * @returns Limit in KB/s, or null when the upload runs unlimited
+ */
+export function resolveRateLimitKbps(
+  request: RateLimitSettings,
+  idleState: SystemIdleState,
+): number | null {
+  const limit = request.rateLimitKbps;
+  if (limit === undefined || !Number.isFinite(limit) || limit <= 0) {
+    return null;
+  }
+  if (request.unlimitedWhenIdle && (idleState === "idle" || idleState === "locked")) {
+    return null;
+  }
+  return Math.round(limit);
+}
+
+/**
+ * Resolve the effective rate limit using the current system idle state
+ */
+export function getEffectiveRateLimitKbps(request: RateLimitSettings): number | null {
+  const idleState = request.unlimitedWhenIdle
+    ? powerMonitor.getSystemIdleState(UPLOAD_IDLE_THRESHOLD_SECS)
+    : "active";
+  return resolveRateLimitKbps(request, idleState);
+}
+
+/**
+ * Restart running uploads whose effective limit differs from the one their CLI
+ * was started with. Uploads that cannot be restarted yet are checked again on the next poll
+ */
+export function applyRateLimits(): void {
+  for (const [uploadId, upload] of trackedUploads) {
+    const next = getEffectiveRateLimitKbps(upload.settings);
+    if (next === upload.rateLimitKbps || !upload.canRestart()) {
+      continue;
+    }
+
+    log.info(
+      `[RateLimit] Restarting ${uploadId}: ${upload.rateLimitKbps ?? "unlimited"} -> ${next ?? "unlimited"} KB/s`,
+    );
+    // The restarted attempt registers itself again
+    trackedUploads.delete(uploadId);
+    upload.restart(upload.settings);
+  }
+}
+
+/**
+ * Replace the rate limit settings of running uploads (settings changed in the renderer)
+ */
+export function setRateLimitSettings(settings: RateLimitSettings): void {
+  for (const upload of trackedUploads.values()) {
+    upload.settings = {
+      rateLimitKbps: settings.rateLimitKbps,
+      unlimitedWhenIdle: settings.unlimitedWhenIdle,
+    };
+  }
+  applyRateLimits();
+}
+
+/**
+ * Register a running upload; the idle state is watched while any upload is registered
+ * @returns Function that unregisters the upload when its CLI exits
+ */
+export function trackRateLimitedUpload(uploadId: string, upload: RateLimitedUpload): () => void {
+  trackedUploads.set(uploadId, upload);
+  startIdleWatch();
+
+  return () => {
+    if (trackedUploads.get(uploadId) === upload) {
+      trackedUploads.delete(uploadId);
+    }
+    if (trackedUploads.size === 0) {
+      stopIdleWatch();
+    }
+  };
+}
+
+/**
+ * Watch the idle state: powerMonitor has no idle event on Windows, so it is polled;
+ * locking and unlocking the screen is picked up right away
+ */
+function startIdleWatch(): void {
+  if (pollTimer) {
+    return;
+  }
+  pollTimer = setInterval(applyRateLimits, IDLE_POLL_INTERVAL_MS);
+  powerMonitor.on("lock-screen", applyRateLimits);
+  powerMonitor.on("unlock-screen", applyRateLimits);
+}
+
+function stopIdleWatch(): void {
+  if (!pollTimer) {
+    return;
+  }
+  clearInterval(pollTimer);
+  pollTimer = null;
+  powerMonitor.removeListener("lock-screen", applyRateLimits);
+  powerMonitor.removeListener("unlock-screen", applyRateLimits);
+}
@@ -0,0 +1,168 @@
+import Store from 'electron-store';
+import fs from 'fs';
+
+/**
+ * Resume record for a partially uploaded file
+ * Keyed by file path; size and mtime detect files changed since the last attempt
+ */
+interface UploadResumeRecord {
+  filePath: string;
+  fileSize: number;
+  mtimeMs: number;
+  /** Mux direct upload ID (from `direct_upload_created`) */
+  directUploadId: string;
+  /** Last chunk confirmed by `uploading_chunk` (0 = none yet) */
+  lastChunk: number;
+  totalChunks: number;
+  updatedAt: number;
+}
+
+/** Records older than this are discarded (the direct upload is likely gone) */
+const MAX_RECORD_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * UploadResumeStore keeps track of interrupted uploads via electron-store
+ * so that the next attempt for the same file can continue from the last
+ * confirmed chunk instead of sending the whole file again
+ */
+class UploadResumeStore {
+  private store: Store;
+  private readonly STORE_KEY = 'records';
+
+  /**
+   * File path -> GUI uploadId of the running upload that owns its record (not persisted)
+   * The same file can be queued twice ("upload anyway"); only one copy may resume
+   * or write the record, otherwise two CLI processes would send to one direct upload
+   */
+  private owners = new Map<string, string>();
+
+  constructor() {
+    // File paths contain dots, so records are kept in an array rather than keyed objects
+    this.store = new Store({ name: 'upload-resume' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with empty records and drop expired ones
+   */
+  private initialize(): void {
+    const now = Date.now();
+    const records = this.getAll().filter(r => now - r.updatedAt < MAX_RECORD_AGE_MS);
+    this.store.set(this.STORE_KEY, records);
+  }
+
+  private getAll(): UploadResumeRecord[] {
+    const records = this.store.get(this.STORE_KEY) as UploadResumeRecord[] | undefined;
+    return records || [];
+  }
+
+  private setAll(records: UploadResumeRecord[]): void {
+    this.store.set(this.STORE_KEY, records);
+  }
+
+  /**
+   * Claim the record of a file for a running upload
+   * @returns false if another running upload already owns it
+   */
+  claim(filePath: string, uploadId: string): boolean {
+    const owner = this.owners.get(filePath);
+    if (owner !== undefined && owner !== uploadId) {
+      return false;
+    }
+    this.owners.set(filePath, uploadId);
+    return true;
+  }
+
+  /**
+   * Release the claim when the upload's CLI process exits
+   */
+  release(filePath: string, uploadId: string): void {
+    if (this.owners.get(filePath) === uploadId) {
+      this.owners.delete(filePath);
+    }
+  }
+
+  /**
+   * Find a usable resume record for a file
+   * Returns undefined if the file changed, the record expired or no chunk was confirmed yet
+   */
+  find(filePath: string): UploadResumeRecord | undefined {
+    const record = this.getAll().find(r => r.filePath === filePath);
+    if (!record || record.lastChunk <= 0) {
+      return undefined;
+    }
+
+    if (Date.now() - record.updatedAt >= MAX_RECORD_AGE_MS) {
+      this.delete(filePath);
+      return undefined;
+    }
+
+    try {
+      const stat = fs.statSync(filePath);
+      if (stat.size !== record.fileSize || stat.mtimeMs !== record.mtimeMs) {
+        this.delete(filePath);
+        return undefined;
+      }
+    } catch {
+      this.delete(filePath);
+      return undefined;
+    }
+
+    return record;
+  }
+
+  /**
+   * Start tracking a new direct upload for a file
+   * Replaces any previous record for the same path
+   */
+  begin(filePath: string, directUploadId: string): void {
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(filePath);
+    } catch {
+      return;
+    }
+
+    const records = this.getAll().filter(r => r.filePath !== filePath);
+    records.push({
+      filePath,
+      fileSize: stat.size,
+      mtimeMs: stat.mtimeMs,
+      directUploadId,
+      lastChunk: 0,
+      totalChunks: 0,
+      updatedAt: Date.now(),
+    });
+    this.setAll(records);
+  }
+
+  /**
+   * Record the last confirmed chunk for a file
+   */
+  updateChunk(filePath: string, lastChunk: number, totalChunks: number): void {
+    const records = this.getAll();
+    const record = records.find(r => r.filePath === filePath);
+    if (!record) {
+      return;
+    }
+
+    record.lastChunk = lastChunk;
+    record.totalChunks = totalChunks;
+    record.updatedAt = Date.now();
+    this.setAll(records);
+  }
+
+  /**
+   * Remove the record for a file (upload completed or resume no longer possible)
+   */
+  delete(filePath: string): void {
+    const records = this.getAll();
+    const next = records.filter(r => r.filePath !== filePath);
+    if (next.length !== records.length) {
+      this.setAll(next);
+    }
+  }
+}
+
+export default UploadResumeStore;
+export type { UploadResumeRecord };
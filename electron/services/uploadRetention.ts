@@ -0,0 +1,49 @@
+/**
+ * Upload Retention Policy
+ *
+ * Builds the CLI options that limit the automatic deletion of old videos
+ * done by `upload` (CLI v1.6): keep the N newest assets, keep assets newer
+ * than X days, and never delete pinned assets.
+ */
+
+import type { UploadRequest } from "../types/ipc";
+
+/**
+ * Normalize a "keep" count or day value (undefined, 0 or invalid = not set)
+ */
+function toPositiveInt(value: number | undefined): number | null {
+  if (value === undefined || !Number.isFinite(value) || value < 1) {
+    return null;
+  }
+  return Math.floor(value);
+}
+
+/**
+ * Build the retention options for `upload`
+ *
+ * @param request Upload request carrying the renderer settings
+ * @param pinnedAssetIds Assets that must never be deleted automatically
+ */
+export function buildRetentionArgs(
+  request: Pick<UploadRequest, "keepLatest" | "keepDays">,
+  pinnedAssetIds: string[],
+): string[] {
+  const args: string[] = [];
+
+  const keepLatest = toPositiveInt(request.keepLatest);
+  if (keepLatest !== null) {
+    args.push("--keep-latest", String(keepLatest));
+  }
+
+  const keepDays = toPositiveInt(request.keepDays);
+  if (keepDays !== null) {
+    args.push("--keep-days", String(keepDays));
+  }
+
+  for (const assetId of new Set(pinnedAssetIds)) {
+    if (assetId) {
+      args.push("--keep", assetId);
+    }
+  }
+  return args;
+}
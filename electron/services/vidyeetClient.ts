@@ -1,7 +1,7 @@
 /**
  * Vidyeet Client
  *
- * Thin adapter that invokes CLI for status/login/logout/list operations
+ * Thin adapter that invokes CLI for status/login/logout/list/update operations
  * @see docs/CLI_CONTRACT.md
  */
 
@@ -12,7 +12,15 @@ import type {
   LoginRequest,
   LoginResponse,
   LogoutResponse,
+  ListRequest,
   ListResponse,
+  UpdateAssetRequest,
+  UpdateAssetResponse,
+  ShowRequest,
+  ShowResponse,
+  AssetDetail,
+  AssetTrack,
+  AssetRendition,
   DeleteRequest,
   DeleteResponse,
   SelectFileResponse,
@@ -20,11 +28,27 @@ import type {
   UploadResponse,
   UploadProgress,
   AssetItem,
+  Mp4Status,
 } from "../types/ipc";
 import { isIpcError } from "../types/ipc";
 import { dialog, BrowserWindow, type OpenDialogOptions } from "electron";
 import { spawn, type ChildProcess } from "child_process";
 import path from "node:path";
+import fs from "node:fs";
+import log from "electron-log/main";
+import UploadResumeStore from "./uploadResumeStore";
+import UploadHistoryStore from "./uploadHistoryStore";
+import AssetMetadataStore from "./assetMetadataStore";
+import CollectionStore from "./collectionStore";
+import TrashStore from "./trashStore";
+import { computeFingerprint } from "./fileFingerprint";
+import { getEffectiveRateLimitKbps, trackRateLimitedUpload } from "./uploadRateLimit";
+import { buildRetentionArgs } from "./uploadRetention";
+import {
+  encodeTagsPassthrough,
+  decodeTagsPassthrough,
+  isForeignPassthrough,
+} from "./assetPassthrough";
 
 // =============================================================================
 // Upload State Management
@@ -34,6 +58,24 @@ import path from "node:path";
 const activeUploads = new Map<string, ChildProcess>();
 let uploadIdCounter = 0;
 
+/** Interrupted uploads that can be resumed from the last confirmed chunk */
+const resumeStore = new UploadResumeStore();
+
+/** Local log of finished uploads (file path → asset ID, failures) */
+const historyStore = new UploadHistoryStore();
+
+/** Local titles, notes and tags of assets (the original file name is recorded on upload) */
+const metadataStore = new AssetMetadataStore();
+
+/** Local collections; deleted assets (including ones the CLI deleted automatically) are taken out of them */
+const collectionStore = new CollectionStore();
+
+/** Soft-deleted assets; ones the CLI deleted automatically no longer need deleting */
+const trashStore = new TrashStore();
+
+/** Uploads stopped by cancelUpload() (cancel or pause); not written to the history */
+const cancelledUploads = new Set<string>();
+
 /**
  * Generate a unique upload ID
  */
@@ -68,6 +110,22 @@ interface CliLogoutResponse {
 interface CliListResponse {
   success: boolean;
   data: CliAsset[];
+  /** Cursor of the next page (CLI v1.4, only with --limit) */
+  next_cursor?: string | null;
+  /** Number of assets (of this page with --limit) */
+  total_count?: number;
+}
+
+/** CLI --machine update response */
+interface CliUpdateResponse {
+  success: boolean;
+  data: CliAsset;
+}
+
+/** CLI --machine show response */
+interface CliShowResponse {
+  success: boolean;
+  data: CliAsset;
 }
 
 /** CLI --machine delete response */
@@ -86,6 +144,39 @@ interface CliAsset {
   aspect_ratio?: string;
   max_stored_frame_rate?: number;
   created_at?: string;
+  updated_at?: string | null;
+  video_quality?: string | null;
+  encoding_tier?: string | null;
+  max_resolution_tier?: string | null;
+  master_access?: string | null;
+  passthrough?: string | null;
+  meta?: { title?: string | null } | null;
+  tracks?: CliTrack[] | null;
+  static_renditions?: {
+    files?: CliStaticRendition[];
+  } | null;
+}
+
+/** CLI asset track */
+interface CliTrack {
+  type: string;
+  id?: string | null;
+  duration?: number | null;
+  max_width?: number | null;
+  max_height?: number | null;
+  max_frame_rate?: number | null;
+  max_channels?: number | null;
+  max_channel_layout?: string | null;
+}
+
+/** CLI static rendition file */
+interface CliStaticRendition {
+  id?: string;
+  type?: string;
+  status?: string;
+  resolution?: string;
+  name?: string;
+  ext?: string;
 }
 
 // =============================================================================
@@ -167,12 +258,130 @@ export async function logout(): Promise<LogoutResponse | IpcError> {
 // List
 // =============================================================================
 
+/**
+ * MP4 status from the static renditions (undefined if the asset has no MP4)
+ * Only the highest.mp4 rendition counts, since that is the file the MP4 link
+ * and the download point to (other renditions such as 720p.mp4 are ignored)
+ */
+function getMp4Status(asset: CliAsset): Mp4Status | undefined {
+  const highest = (asset.static_renditions?.files ?? []).find(
+    (file) => file.name === "highest.mp4" || (file.resolution === "highest" && file.ext === "mp4"),
+  );
+  switch (highest?.status) {
+    case "ready":
+      return "ready";
+    case "preparing":
+      return "generating";
+    case "errored":
+      return "errored";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Convert the CLI tracks of an asset (missing values are null)
+ */
+function toTracks(asset: CliAsset): AssetTrack[] {
+  return (asset.tracks ?? []).map((track) => ({
+    type: track.type,
+    id: track.id ?? null,
+    duration: track.duration ?? null,
+    maxWidth: track.max_width ?? null,
+    maxHeight: track.max_height ?? null,
+    maxFrameRate: track.max_frame_rate ?? null,
+    maxChannels: track.max_channels ?? null,
+    maxChannelLayout: track.max_channel_layout ?? null,
+  }));
+}
+
+/**
+ * Convert the CLI static renditions of an asset
+ */
+function toRenditions(asset: CliAsset): AssetRendition[] {
+  return (asset.static_renditions?.files ?? []).map((file) => ({
+    id: file.id ?? null,
+    type: file.type ?? null,
+    status: file.status ?? "unknown",
+    resolution: file.resolution ?? null,
+    name: file.name ?? (file.resolution && file.ext ? `${file.resolution}.${file.ext}` : "-"),
+    ext: file.ext ?? null,
+  }));
+}
+
+/**
+ * Convert a CLI asset to the IPC asset item
+ */
+function toAssetItem(asset: CliAsset): AssetItem {
+  return {
+    assetId: asset.id,
+    // Get first playback_id, or null if none
+    playbackId: asset.playback_ids?.[0]?.id ?? null,
+    // Detailed information
+    duration: asset.duration,
+    status: asset.status,
+    resolutionTier: asset.resolution_tier,
+    aspectRatio: asset.aspect_ratio,
+    maxFrameRate: asset.max_stored_frame_rate,
+    createdAt: asset.created_at,
+    // Labels synced through the Mux account (CLI v1.5)
+    title: asset.meta?.title || undefined,
+    tags: decodeTagsPassthrough(asset.passthrough),
+    mp4Status: getMp4Status(asset),
+    tracks: toTracks(asset),
+    renditions: toRenditions(asset),
+    videoQuality: asset.video_quality ?? undefined,
+    encodingTier: asset.encoding_tier ?? undefined,
+  };
+}
+
+/**
+ * Convert a CLI asset to the full detail shown in the info panel
+ */
+function toAssetDetail(asset: CliAsset): AssetDetail {
+  return {
+    assetId: asset.id,
+    playbackIds: (asset.playback_ids ?? []).map((playbackId) => ({
+      id: playbackId.id,
+      policy: playbackId.policy ?? null,
+    })),
+    tracks: toTracks(asset),
+    renditions: toRenditions(asset),
+    encodingTier: asset.encoding_tier ?? null,
+    videoQuality: asset.video_quality ?? null,
+    maxResolutionTier: asset.max_resolution_tier ?? null,
+    masterAccess: asset.master_access ?? null,
+    updatedAt: asset.updated_at ?? null,
+    passthrough: asset.passthrough ?? null,
+  };
+}
+
+/** Largest page the CLI accepts for `list --limit` */
+export const LIST_PAGE_LIMIT_MAX = 100;
+
 /**
  * Get asset list
+ *
+ * Without a limit every asset is returned at once. With a limit the CLI
+ * returns one page (newest first) and a cursor for the next one (CLI v1.4).
  */
-export async function getList(): Promise<ListResponse | IpcError> {
+export async function getList(
+  request: ListRequest = {},
+): Promise<ListResponse | IpcError> {
+  const args = ["list"];
+  if (request.limit !== undefined && Number.isFinite(request.limit)) {
+    const limit = Math.min(
+      LIST_PAGE_LIMIT_MAX,
+      Math.max(1, Math.floor(request.limit)),
+    );
+    args.push("--limit", String(limit));
+    if (request.cursor) {
+      args.push("--cursor", request.cursor);
+    }
+  }
+
   const result = await runCli<CliListResponse>({
-    args: ["list"],
+    args,
   });
 
   if (isIpcError(result)) {
@@ -190,22 +399,111 @@ export async function getList(): Promise<ListResponse | IpcError> {
     };
   }
 
-  // Convert assets
-  const items: AssetItem[] = data.data.map((asset: CliAsset) => ({
-    assetId: asset.id,
-    // Get first playback_id, or null if none
-    playbackId: asset.playback_ids?.[0]?.id ?? null,
-    // Detailed information
-    duration: asset.duration,
-    status: asset.status,
-    resolutionTier: asset.resolution_tier,
-    aspectRatio: asset.aspect_ratio,
-    maxFrameRate: asset.max_stored_frame_rate,
-    createdAt: asset.created_at,
-  }));
+  const items = data.data.map(toAssetItem);
 
   return {
     items,
+    // Absent when the whole list was returned
+    nextCursor:
+      typeof data.next_cursor === "string" && data.next_cursor !== ""
+        ? data.next_cursor
+        : null,
+    totalCount: typeof data.total_count === "number" ? data.total_count : null,
+  };
+}
+
+// =============================================================================
+// Show
+// =============================================================================
+
+/**
+ * Get the current state and full detail of a single asset
+ * Used for the detail view and to follow assets that are still processing
+ */
+export async function showAsset(
+  request: ShowRequest,
+): Promise<ShowResponse | IpcError> {
+  const result = await runCli<CliShowResponse>({
+    args: ["show", request.assetId],
+  });
+
+  if (isIpcError(result)) {
+    return result;
+  }
+
+  const data = result.data;
+  if (typeof data.data !== "object" || data.data === null || !data.data.id) {
+    return {
+      code: "CLI_BAD_JSON",
+      message: "CLI show data is not an asset",
+      details: { received: typeof data.data },
+    };
+  }
+
+  return {
+    item: toAssetItem(data.data),
+    detail: toAssetDetail(data.data),
+  };
+}
+
+// =============================================================================
+// Update
+// =============================================================================
+
+/**
+ * Write title and/or tags to the asset (meta.title / passthrough, CLI v1.5)
+ * The request is passed as JSON via stdin so that titles need no shell quoting
+ *
+ * Before writing tags the current passthrough is read; if another tool wrote it,
+ * it is kept and the tags are skipped (tagsSkipped)
+ */
+export async function updateAsset(
+  request: UpdateAssetRequest,
+): Promise<UpdateAssetResponse | IpcError> {
+  const payload: { title?: string; passthrough?: string } = {};
+  if (request.title !== undefined) {
+    payload.title = request.title;
+  }
+  if (request.tags !== undefined) {
+    const current = await showAsset({ assetId: request.assetId });
+    if (isIpcError(current)) {
+      return current;
+    }
+
+    if (isForeignPassthrough(current.detail.passthrough)) {
+      log.warn(`[Update] Keeping the passthrough of ${request.assetId} written by another tool`);
+      if (payload.title === undefined) {
+        return { item: current.item, tagsSkipped: true };
+      }
+    } else {
+      payload.passthrough =
+        request.tags.length > 0 ? encodeTagsPassthrough(request.tags) : "";
+    }
+  }
+
+  const result = await runCli<CliUpdateResponse>({
+    args: ["update", request.assetId, "--stdin"],
+    stdin: JSON.stringify(payload),
+  });
+
+  if (isIpcError(result)) {
+    return result;
+  }
+
+  const data = result.data;
+  if (typeof data.data !== "object" || data.data === null || !data.data.id) {
+    return {
+      code: "CLI_BAD_JSON",
+      message: "CLI update data is not an asset",
+      details: { received: typeof data.data },
+    };
+  }
+
+  return {
+    item: toAssetItem(data.data),
+    ...(request.tags !== undefined && payload.passthrough === undefined
+      ? { tagsSkipped: true }
+      : {}),
   };
 }
 
@@ -227,6 +525,17 @@ export async function deleteAsset(
     return result;
   }
 
+  try {
+    metadataStore.remove(request.assetId);
+  } catch (error) {
+    log.warn("[Delete] Failed to remove asset metadata:", error);
+  }
+  try {
+    collectionStore.removeAssetEverywhere(request.assetId);
+  } catch (error) {
+    log.warn("[Delete] Failed to remove asset from collections:", error);
+  }
+
   return {
     success: true,
   };
@@ -236,8 +545,8 @@ export async function deleteAsset(
 // File Selection
 // =============================================================================
 
-/** Video file extension filter */
-const VIDEO_EXTENSIONS = [
+/** Video file extension filter (also used by the watch folders) */
+export const VIDEO_EXTENSIONS = [
   "mp4",
   "mov",
   "avi",
@@ -287,19 +596,161 @@ export async function selectFile(): Promise<SelectFileResponse | IpcError> {
 // Upload
 // =============================================================================
 
+/** CLI error reason: the recorded direct upload can no longer be resumed (v1.2) */
+const RESUME_UNAVAILABLE_REASON = "resume_unavailable";
+
+/** Phases in which the file is being sent (a restart resumes from the last confirmed chunk) */
+const SENDING_PHASES = ["uploading_file", "uploading_chunk", "direct_upload_resumed"];
+
 /**
  * Upload video
+ *
+ * If a previous attempt for the same file was interrupted, the upload resumes
+ * from the last confirmed chunk (`--resume` / `--start-chunk`, CLI v1.2).
+ * When the CLI reports that the direct upload can no longer be resumed,
+ * the file is uploaded again from the beginning.
+ * The bandwidth limit (`--limit-rate`, CLI v1.3) is resolved for each attempt;
+ * when it changes while the file is being sent, the CLI is restarted with the
+ * new limit and resumes (see uploadRateLimit.ts).
+ * Completed and failed uploads are written to the upload history.
+ *
  * @param request Upload request
  * @param onProgress Progress callback
  */
-export function upload(
+export async function upload(
   request: UploadRequest,
   onProgress?: (progress: UploadProgress) => void,
+): Promise<UploadResponse | IpcError> {
+  const uploadId = generateUploadId();
+  const startedAt = Date.now();
+  const result = await runUpload(request, uploadId, true, onProgress);
+
+  if (!isIpcError(result) && result.deletedAssetIds.length > 0) {
+    log.info("[Upload] CLI deleted old videos:", result.deletedAssetIds);
+    try {
+      for (const assetId of result.deletedAssetIds) {
+        collectionStore.removeAssetEverywhere(assetId);
+      }
+    } catch (error) {
+      log.error("[Upload] Failed to remove deleted videos from collections:", error);
+    }
+    try {
+      trashStore.remove(result.deletedAssetIds);
+    } catch (error) {
+      log.error("[Upload] Failed to remove deleted videos from the trash:", error);
+    }
+  }
+
+  if (cancelledUploads.delete(uploadId)) {
+    return result;
+  }
+  await recordHistory(request, startedAt, result);
+  return result;
+}
+
+/**
+ * Write a finished upload to the history (and the file name to the asset metadata)
+ * History failures are logged and never affect the upload result
+ */
+async function recordHistory(
+  request: UploadRequest,
+  startedAt: number,
+  result: UploadResponse | IpcError,
+): Promise<void> {
+  try {
+    let sizeBytes: number | null = null;
+    let fingerprint = request.fingerprint;
+    try {
+      sizeBytes = fs.statSync(request.filePath).size;
+      // Fingerprint lets later uploads of the same file be detected as duplicates
+      if (!fingerprint && !isIpcError(result)) {
+        fingerprint = await computeFingerprint(request.filePath);
+      }
+    } catch {
+      // File moved or deleted after the upload
+    }
+
+    historyStore.add({
+      filePath: request.filePath,
+      fileName: path.basename(request.filePath),
+      sizeBytes,
+      startedAt,
+      finishedAt: Date.now(),
+      ...(fingerprint ? { fingerprint } : {}),
+      ...(isIpcError(result)
+        ? { status: "failed" as const, error: result.message }
+        : { status: "completed" as const, assetId: result.assetId }),
+      ...(!isIpcError(result) && result.deletedOldVideos > 0
+        ? {
+            deletedOldVideos: result.deletedOldVideos,
+            deletedAssetIds: result.deletedAssetIds,
+          }
+        : {}),
+    });
+  } catch (error) {
+    log.error("[Upload] Failed to write upload history:", error);
+  }
+
+  if (!isIpcError(result)) {
+    try {
+      metadataStore.fillFileNames([
+        { assetId: result.assetId, fileName: path.basename(request.filePath) },
+      ]);
+    } catch (error) {
+      log.error("[Upload] Failed to record the file name:", error);
+    }
+  }
+}
+
+/**
+ * Spawn the CLI for a single upload attempt
+ * @param uploadId GUI-side upload ID (kept across the fallback retry so cancellation still works)
+ * @param allowResume Whether to use the resume record for this file
+ */
+function runUpload(
+  request: UploadRequest,
+  uploadId: string,
+  allowResume: boolean,
+  onProgress?: (progress: UploadProgress) => void,
 ): Promise<UploadResponse | IpcError> {
   return new Promise((resolve) => {
     const cliPath = resolveCliPath();
     const args = ["--machine", "upload", request.filePath, "--progress"];
-    const uploadId = generateUploadId();
+
+    // The same file may be uploading twice at once; only the owner of the record uses it
+    const ownsResume = resumeStore.claim(request.filePath, uploadId);
+    const resumeRecord = allowResume && ownsResume
+      ? resumeStore.find(request.filePath)
+      : undefined;
+    if (resumeRecord) {
+      args.push(
+        "--resume",
+        resumeRecord.directUploadId,
+        "--start-chunk",
+        String(resumeRecord.lastChunk),
+      );
+    }
+
+    const rateLimitKbps = getEffectiveRateLimitKbps(request);
+    if (rateLimitKbps !== null) {
+      args.push("--limit-rate", String(rateLimitKbps));
+    }
+
+    // Old videos the CLI may delete to make room: keep the policy and pinned assets
+    let pinnedAssetIds: string[];
+    try {
+      pinnedAssetIds = metadataStore.getPinnedIds();
+    } catch (error) {
+      // Uploading without the pins could let the CLI delete a pinned video
+      resumeStore.release(request.filePath, uploadId);
+      resolve({
+        code: "ASSET_METADATA_ERROR",
+        message: "Failed to read pinned assets",
+        details: error,
+      });
+      return;
+    }
+    args.push(...buildRetentionArgs(request, pinnedAssetIds));
 
     const child = spawn(cliPath, args, {
       stdio: ["ignore", "pipe", "pipe"],
@@ -310,6 +761,26 @@ export function upload(
 
     let stdout = "";
     let stderr = "";
+    let resumeUnavailable = false;
+    let phase = "";
+    /** Set when the effective rate limit changed and the CLI was stopped to apply it */
+    let restartRequest: UploadRequest | null = null;
+
+    const untrack = trackRateLimitedUpload(uploadId, {
+      settings: {
+        rateLimitKbps: request.rateLimitKbps,
+        unlimitedWhenIdle: request.unlimitedWhenIdle,
+      },
+      rateLimitKbps,
+      canRestart: () =>
+        ownsResume &&
+        SENDING_PHASES.includes(phase) &&
+        resumeStore.find(request.filePath) !== undefined,
+      restart: (settings) => {
+        restartRequest = { ...request, ...settings };
+        child.kill();
+      },
+    });
 
     child.stdout.on("data", (data: Buffer) => {
       const text = data.toString();
@@ -320,6 +791,21 @@ export function upload(
       for (const line of lines) {
         try {
           const json = JSON.parse(line);
+          if (typeof json.phase === "string") {
+            phase = json.phase;
+          }
+
+          // Resume bookkeeping
+          if (ownsResume && json.phase === "direct_upload_created" && json.upload_id) {
+            resumeStore.begin(request.filePath, json.upload_id);
+          }
+          if (ownsResume && json.phase === "uploading_chunk" && json.current_chunk) {
+            resumeStore.updateChunk(
+              request.filePath,
+              json.current_chunk,
+              json.total_chunks ?? 0,
+            );
+          }
 
           // Progress notification
           if (typeof json.phase === "string" && onProgress) {
@@ -329,31 +815,59 @@ export function upload(
               sizeBytes: json.size_bytes,
               format: json.format,
               uploadId,
+              directUploadId: json.upload_id,
               percent: json.percent,
-              // Fields for uploading_chunk phase
-              currentChunk: json.current_chunk,
+              // Fields for uploading_chunk / direct_upload_resumed phase
+              currentChunk: json.current_chunk ?? json.start_chunk,
               totalChunks: json.total_chunks,
               bytesSent: json.bytes_sent,
               totalBytes: json.total_bytes,
               // Fields for waiting_for_asset phase
               elapsedSecs: json.elapsed_secs,
+              rateLimitKbps,
             });
           }
 
           // Success completion
           if (json.success === true && json.asset_id) {
+            if (ownsResume) {
+              resumeStore.delete(request.filePath);
+            }
             resolve({
               success: true,
               assetId: json.asset_id,
+              deletedOldVideos:
+                typeof json.deleted_old_videos === "number"
+                  ? json.deleted_old_videos
+                  : 0,
+              // Asset IDs are returned from CLI v1.6
+              deletedAssetIds: Array.isArray(json.deleted_asset_ids)
+                ? json.deleted_asset_ids.filter(
+                    (id: unknown): id is string => typeof id === "string",
+                  )
+                : [],
             });
           }
 
-          // Error completion
-          if (json.success === false && json.error) {
+          // Resume rejected: upload again from the beginning after the process exits
+          if (
+            json.success === false &&
+            json.error?.reason === RESUME_UNAVAILABLE_REASON
+          ) {
+            resumeUnavailable = true;
+            resumeStore.delete(request.filePath);
+            continue;
+          }
+
+          // Error completion (not when stopped to restart with a new rate limit)
+          if (json.success === false && json.error && !restartRequest) {
             resolve({
               code: "CLI_NON_ZERO_EXIT",
               message: json.error.message || "Upload failed",
-              details: json.error,
+              details: {
+                exitCode: json.error.exit_code ?? null,
+                hint: json.error.hint ?? null,
+              },
             });
           }
         } catch {
@@ -367,6 +881,8 @@ export function upload(
     });
 
     child.on("error", (err) => {
+      untrack();
+      resumeStore.release(request.filePath, uploadId);
       activeUploads.delete(uploadId);
       resolve({
         code: "CLI_NOT_FOUND",
@@ -375,13 +891,29 @@ export function upload(
     });
 
     child.on("close", (code) => {
+      // Cancelled while running: the map entry was already removed by cancelUpload()
+      const wasCancelled = activeUploads.get(uploadId) !== child;
       activeUploads.delete(uploadId);
+      untrack();
+      resumeStore.release(request.filePath, uploadId);
+
+      // Rate limit changed: resume with the new limit under the same uploadId
+      if (restartRequest && !wasCancelled && !stdout.includes('"success":true')) {
+        resolve(runUpload(restartRequest, uploadId, true, onProgress));
+        return;
+      }
+
+      if (resumeUnavailable && !wasCancelled) {
+        resolve(runUpload(request, uploadId, false, onProgress));
+        return;
+      }
+
       // Normal exit (resolve should already be completed in stdout processing)
       if (code !== 0 && !stdout.includes('"success":true')) {
         resolve({
           code: "CLI_NON_ZERO_EXIT",
           message: `Upload failed (exit code: ${code})`,
-          details: { stderr, stdout },
+          details: { exitCode: code, stderr, stdout },
         });
       }
     });
@@ -405,5 +937,6 @@ export function cancelUpload(uploadId: string): boolean {
 
   child.kill(); // On Windows, this sends termination signal
   activeUploads.delete(uploadId);
+  cancelledUploads.add(uploadId);
   return true;
 }
\ No newline at end of file
@@ -0,0 +1,123 @@
+import Store from 'electron-store';
+import path from 'path';
+import type { WatchFolder, WatchFolderMode } from '../types/ipc';
+
+interface UpdateWatchFolderPayload {
+  patterns?: string[];
+  mode?: WatchFolderMode;
+}
+
+/**
+ * Generates a unique ID using timestamp and random value
+ * Format: [base36 timestamp][base36 random]
+ */
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2, 5);
+}
+
+/**
+ * Trim patterns and drop empty or duplicate entries
+ */
+function normalizePatterns(patterns: string[]): string[] {
+  const trimmed = patterns.map(pattern => pattern.trim()).filter(Boolean);
+  return Array.from(new Set(trimmed));
+}
+
+/**
+ * WatchFolderStore persists the directories watched for new recordings
+ * via electron-store
+ */
+class WatchFolderStore {
+  private store: Store;
+  private readonly STORE_KEY = 'folders';
+
+  constructor() {
+    this.store = new Store({ name: 'watch-folders' });
+    this.initialize();
+  }
+
+  /**
+   * Initialize store with empty folder list if not exists
+   */
+  private initialize(): void {
+    const existing = this.store.get(this.STORE_KEY);
+    if (!existing) {
+      this.store.set(this.STORE_KEY, []);
+    }
+  }
+
+  /**
+   * Get all watch folders
+   */
+  getAll(): WatchFolder[] {
+    const folders = this.store.get(this.STORE_KEY) as WatchFolder[];
+    return folders || [];
+  }
+
+  /**
+   * Get a single watch folder by id
+   */
+  get(id: string): WatchFolder | undefined {
+    return this.getAll().find(folder => folder.id === id);
+  }
+
+  /**
+   * Add a directory, or return the existing entry if it is already watched
+   * New folders ask before uploading until the user opts into auto-upload
+   */
+  add(folderPath: string): WatchFolder {
+    const resolved = path.resolve(folderPath);
+    const folders = this.getAll();
+    const existing = folders.find(folder => folder.path === resolved);
+    if (existing) {
+      return existing;
+    }
+
+    const folder: WatchFolder = {
+      id: generateId(),
+      path: resolved,
+      patterns: [],
+      mode: 'ask',
+    };
+    folders.push(folder);
+    this.store.set(this.STORE_KEY, folders);
+    return folder;
+  }
+
+  /**
+   * Update patterns and/or mode of a watch folder
+   * Returns undefined if not found
+   */
+  update(id: string, payload: UpdateWatchFolderPayload): WatchFolder | undefined {
+    const folders = this.getAll();
+    const index = folders.findIndex(folder => folder.id === id);
+    if (index === -1) {
+      return undefined;
+    }
+
+    const updated: WatchFolder = {
+      ...folders[index],
+      ...(payload.patterns !== undefined && { patterns: normalizePatterns(payload.patterns) }),
+      ...(payload.mode !== undefined && { mode: payload.mode }),
+    };
+    folders[index] = updated;
+    this.store.set(this.STORE_KEY, folders);
+    return updated;
+  }
+
+  /**
+   * Remove a watch folder
+   * Returns true if removed, false if not found
+   */
+  remove(id: string): boolean {
+    const folders = this.getAll();
+    const remaining = folders.filter(folder => folder.id !== id);
+    if (remaining.length === folders.length) {
+      return false;
+    }
+    this.store.set(this.STORE_KEY, remaining);
+    return true;
+  }
+}
+
+export default WatchFolderStore;
@@ -24,7 +24,21 @@ export type IpcErrorCode =
   | "TEMPLATE_NOT_FOUND"
   | "TEMPLATE_ERROR"
   | "AUTO_LAUNCH_ERROR"
-  | "RICH_PRESENCE_ERROR";
+  | "RICH_PRESENCE_ERROR"
+  | "UPLOAD_QUEUE_ERROR"
+  | "WATCH_FOLDER_NOT_FOUND"
+  | "WATCH_FOLDER_ERROR"
+  | "UPLOAD_HISTORY_ERROR"
+  | "MEDIA_PROBE_ERROR"
+  | "ASSET_METADATA_ERROR"
+  | "COLLECTION_NOT_FOUND"
+  | "COLLECTION_ERROR"
+  | "TRASH_NOT_FOUND"
+  | "TRASH_ERROR"
+  | "MP4_NOT_READY"
+  | "MP4_UNAVAILABLE"
+  | "DOWNLOAD_CANCELLED"
+  | "DOWNLOAD_ERROR";
 
 /** IPC統一エラー応答 */
 export interface IpcError {
@@ -69,6 +83,14 @@ export interface LogoutResponse {
 }
 
 /** アセットアイテム */
+/**
+ * MP4（static rendition）のステータス
+ * - ready: ダウンロード可能
+ * - generating: 生成中（HLS は再生可能）
+ * - errored: 生成に失敗
+ */
+export type Mp4Status = "ready" | "generating" | "errored";
+
 export interface AssetItem {
   assetId: string;
   playbackId: string | null;
@@ -84,11 +106,132 @@ export interface AssetItem {
   maxFrameRate?: number;
   /** 作成日時 (Unix timestamp文字列) */
   createdAt?: string;
+  /** Mux に保存されたタイトル（meta.title、CLI v1.5） */
+  title?: string;
+  /** Mux に保存されたタグ（このアプリが passthrough に書いたもの） */
+  tags?: string[];
+  /** MP4 のステータス（static_renditions の highest.mp4 から判定、ない場合は undefined） */
+  mp4Status?: Mp4Status;
+  /** トラック（映像の実際の解像度・音声の有無。処理中はまだ空のことがある） */
+  tracks?: AssetTrack[];
+  /** static rendition（MP4 など） */
+  renditions?: AssetRendition[];
+  /** ビデオ品質 (例: "basic") */
+  videoQuality?: string;
+  /** エンコーディングティア (例: "baseline") */
+  encodingTier?: string;
+}
+
+/**
+ * vidyeet:list 要求（省略時は全件を一度に取得）
+ * limit を指定するとページ単位で取得し、nextCursor で続きを取得する（CLI v1.4）
+ */
+export interface ListRequest {
+  /** 1ページの件数（1〜100） */
+  limit?: number;
+  /** 前のページの nextCursor（省略時は先頭ページ） */
+  cursor?: string;
 }
 
 /** vidyeet:list 応答 */
 export interface ListResponse {
   items: AssetItem[];
+  /** 次のページのカーソル（最後のページ、または全件取得時は null） */
+  nextCursor: string | null;
+  /** CLI の total_count（全件取得時は動画の総数、limit 指定時はこのページの件数。ない場合は null） */
+  totalCount: number | null;
+}
+
+/**
+ * vidyeet:updateAsset 要求（CLI v1.5）
+ * 指定した項目だけを Mux のアセットに書き込む（空文字・空配列 = 削除）
+ */
+export interface UpdateAssetRequest {
+  assetId: string;
+  /** meta.title に書き込む */
+  title?: string;
+  /**
+   * passthrough に書き込む（長さの上限を超えるタグは末尾から除く）
+   * 他のツールが書いた passthrough は上書きしない（tagsSkipped）
+   */
+  tags?: string[];
+}
+
+/** vidyeet:updateAsset 応答（更新後のアセット） */
+export interface UpdateAssetResponse {
+  item: AssetItem;
+  /** passthrough が他のツールの値のため、タグを書き込まなかった */
+  tagsSkipped?: boolean;
+}
+
+/** vidyeet:show 要求 */
+export interface ShowRequest {
+  assetId: string;
+}
+
+/** 再生ID */
+export interface AssetPlaybackId {
+  id: string;
+  /** 再生ポリシー（public / signed など） */
+  policy: string | null;
+}
+
+/** トラック（映像・音声など） */
+export interface AssetTrack {
+  /** video / audio / text など */
+  type: string;
+  id: string | null;
+  /** トラックの長さ（秒） */
+  duration: number | null;
+  /** 映像: 最大幅・高さ（px） */
+  maxWidth: number | null;
+  maxHeight: number | null;
+  /** 映像: 最大フレームレート */
+  maxFrameRate: number | null;
+  /** 音声: 最大チャンネル数 */
+  maxChannels: number | null;
+  /** 音声: 最大チャンネルレイアウト（例: "stereo"） */
+  maxChannelLayout: string | null;
+}
+
+/** Static rendition（MP4 / M4A などのダウンロード用ファイル） */
+export interface AssetRendition {
+  id: string | null;
+  /** 例: "standard" */
+  type: string | null;
+  /** preparing / ready / errored / skipped / deleted */
+  status: string;
+  /** 例: "highest"、"1080p" */
+  resolution: string | null;
+  /** ファイル名（例: "highest.mp4"） */
+  name: string;
+  ext: string | null;
+}
+
+/** アセットの詳細（CLI の show で取得する完全な情報） */
+export interface AssetDetail {
+  assetId: string;
+  playbackIds: AssetPlaybackId[];
+  tracks: AssetTrack[];
+  renditions: AssetRendition[];
+  /** エンコーディングティア（baseline / smart など） */
+  encodingTier: string | null;
+  /** ビデオ品質（basic / plus など） */
+  videoQuality: string | null;
+  /** 最大解像度ティア */
+  maxResolutionTier: string | null;
+  /** マスターファイルアクセス（none / temporary など） */
+  masterAccess: string | null;
+  /** 更新日時（Unix timestamp文字列） */
+  updatedAt: string | null;
+  /** passthrough の生の値（他のツールが書いた値の判定に使う） */
+  passthrough: string | null;
+}
+
+/** vidyeet:show 応答（最新のアセットと詳細） */
+export interface ShowResponse {
+  item: AssetItem;
+  detail: AssetDetail;
 }
 
 /** vidyeet:delete 要求 */
@@ -113,6 +256,7 @@ export type UploadPhase =
   | "file_validated"
   | "creating_direct_upload"
   | "direct_upload_created"
+  | "direct_upload_resumed"
   | "uploading_file"
   | "uploading_chunk"
   | "file_uploaded"
@@ -126,8 +270,10 @@ export interface UploadProgress {
   sizeBytes?: number;
   format?: string;
   uploadId?: string;
+  /** Mux の direct upload ID (direct_upload_created / direct_upload_resumed フェーズ) */
+  directUploadId?: string;
   percent?: number;
-  /** チャンクアップロード進捗 (uploading_chunk フェーズ) */
+  /** チャンクアップロード進捗 (uploading_chunk フェーズ、direct_upload_resumed では確認済みチャンク) */
   currentChunk?: number;
   /** 総チャンク数 (uploading_file, uploading_chunk フェーズ) */
   totalChunks?: number;
@@ -135,17 +281,488 @@ export interface UploadProgress {
   totalBytes?: number;
   /** アセット待機中の経過時間 (waiting_for_asset フェーズ) */
   elapsedSecs?: number;
+  /** 要求元の識別子（並列アップロード時の進捗振り分け用、UploadRequest.requestId を返す） */
+  requestId?: string;
+  /** この試行で適用中の帯域上限（KB/s、null = 無制限） */
+  rateLimitKbps?: number | null;
 }
 
 /** vidyeet:upload 要求 */
 export interface UploadRequest {
   filePath: string;
+  /** 進捗イベントの振り分け用ID（Preload が自動付与するため Renderer は指定不要） */
+  requestId?: string;
+  /** 帯域上限（KB/s、未指定または0 = 無制限） */
+  rateLimitKbps?: number;
+  /** PCがアイドル状態のときは帯域上限を外す */
+  unlimitedWhenIdle?: boolean;
+  /** 重複検出用のフィンガープリント（uploadHistory:findDuplicates の結果。未指定時は Main で計算） */
+  fingerprint?: string;
+  /** 古い動画の自動削除で残す、新しい動画の本数（未指定または0 = 指定なし、CLI v1.6） */
+  keepLatest?: number;
+  /** 古い動画の自動削除で残す、作成から指定日数以内の動画（未指定または0 = 指定なし、CLI v1.6） */
+  keepDays?: number;
 }
 
+/** vidyeet:upload:setRateLimit 要求（設定の変更を実行中のアップロードに反映する） */
+export type UploadRateLimitRequest = Pick<UploadRequest, "rateLimitKbps" | "unlimitedWhenIdle">;
+
 /** vidyeet:upload 応答 */
 export interface UploadResponse {
   success: true;
   assetId: string;
+  /** CLI が自動で削除した古い動画の数 */
+  deletedOldVideos: number;
+  /** CLI が自動で削除した古い動画のアセットID（CLI v1.6 より前は空） */
+  deletedAssetIds: string[];
+}
+
+/** vidyeet:probeFile 要求 */
+export interface ProbeFileRequest {
+  filePath: string;
+}
+
+/**
+ * ローカル検証で見つかった問題（いずれもアップロードしない）
+ * - empty: 0バイト
+ * - unknown_format: 動画コンテナとして認識できない
+ * - truncated: ファイルが途中で切れている
+ * - corrupt: コンテナの構造が壊れている
+ * - missing_index: MP4 のインデックス（moov）がない（録画が正常に終了していない）
+ */
+export type MediaProbeIssue =
+  | "empty"
+  | "unknown_format"
+  | "truncated"
+  | "corrupt"
+  | "missing_index";
+
+/**
+ * vidyeet:probeFile 応答
+ * コンテナのヘッダーから読み取った情報（読み取れなかった項目は null）
+ */
+export interface MediaProbeResult {
+  sizeBytes: number;
+  /** mp4 / mov / matroska / webm / avi / asf / flv */
+  container: string | null;
+  durationSecs: number | null;
+  width: number | null;
+  height: number | null;
+  /** h264 / hevc / av1 など */
+  videoCodec: string | null;
+  audioCodec: string | null;
+  issue: MediaProbeIssue | null;
+}
+
+// =============================================================================
+// Upload Queue Types
+// =============================================================================
+
+/** 永続化するキューアイテムのステータス（アップロード中は再起動時に待機へ戻す） */
+export type PersistedQueueItemStatus = "waiting" | "uploading" | "paused" | "error";
+
+/** 永続化されたキューアイテム */
+export interface PersistedQueueItem {
+  filePath: string;
+  fileName: string;
+  status: PersistedQueueItemStatus;
+  /** 失敗時のエラーメッセージ */
+  error?: string;
+  /** ファイルのフィンガープリント（アップロード履歴との重複チェック用） */
+  fingerprint?: string;
+}
+
+/** uploadQueue:get request (void) */
+export type UploadQueueGetRequest = void;
+
+/** uploadQueue:get response */
+export interface UploadQueueGetResponse {
+  /** 前回終了時に残っていたアイテム（ファイルが存在しないものは除外済み） */
+  items: PersistedQueueItem[];
+  /** 前回終了時にキュー全体が一時停止中だったか */
+  isPaused: boolean;
+}
+
+/** uploadQueue:save request */
+export interface UploadQueueSaveRequest {
+  items: PersistedQueueItem[];
+  /** キュー全体が一時停止中か（トレイメニューの表示切替と再起動後の復元に使う） */
+  isPaused?: boolean;
+}
+
+/** uploadQueue:save response */
+export interface UploadQueueSaveResponse {
+  success: true;
+}
+
+/** uploadQueue:command の操作（トレイメニューから Renderer へ） */
+export type UploadQueueCommandAction = "pauseAll" | "resumeAll";
+
+/** uploadQueue:command イベント */
+export interface UploadQueueCommand {
+  action: UploadQueueCommandAction;
+}
+
+// =============================================================================
+// Upload History Types
+// =============================================================================
+
+/** アップロード履歴の結果 */
+export type UploadHistoryStatus = "completed" | "failed";
+
+/** アップロード履歴の1件（ユーザーによるキャンセル・一時停止は記録しない） */
+export interface UploadHistoryEntry {
+  id: string;
+  filePath: string;
+  fileName: string;
+  /** 開始時のファイルサイズ（取得できなかった場合は null） */
+  sizeBytes: number | null;
+  status: UploadHistoryStatus;
+  /** 完了時のアセットID */
+  assetId?: string;
+  /** 失敗時のエラーメッセージ */
+  error?: string;
+  /** 開始・終了時刻（Unix ms） */
+  startedAt: number;
+  finishedAt: number;
+  /** 重複検出用のフィンガープリント（サイズ + 内容のハッシュ） */
+  fingerprint?: string;
+  /** このアップロードで CLI が自動で削除した古い動画の数 */
+  deletedOldVideos?: number;
+  /** このアップロードで CLI が自動で削除した古い動画のアセットID */
+  deletedAssetIds?: string[];
+}
+
+/** uploadHistory:list 要求 */
+export interface UploadHistoryListRequest {
+  /** ファイル名・パス・アセットID・エラーメッセージの部分一致（空 = すべて） */
+  query?: string;
+}
+
+/** uploadHistory:list 応答（新しい順） */
+export interface UploadHistoryListResponse {
+  entries: UploadHistoryEntry[];
+}
+
+/** 履歴のエクスポート形式 */
+export type UploadHistoryExportFormat = "csv" | "json";
+
+/** uploadHistory:export 要求 */
+export interface UploadHistoryExportRequest {
+  format: UploadHistoryExportFormat;
+}
+
+/** uploadHistory:export 応答（保存ダイアログでキャンセルされた場合は filePath: null） */
+export interface UploadHistoryExportResponse {
+  filePath: string | null;
+}
+
+/** uploadHistory:findDuplicates 要求 */
+export interface UploadDuplicateCheckRequest {
+  filePaths: string[];
+}
+
+/** ファイルごとの重複チェック結果 */
+export interface UploadDuplicateCheckResult {
+  filePath: string;
+  /** フィンガープリント（ファイルを読めなかった場合は null） */
+  fingerprint: string | null;
+  /** 同じ内容のファイルをアップロード済みの場合、最新の完了履歴 */
+  previous: UploadHistoryEntry | null;
+}
+
+/** uploadHistory:findDuplicates 応答（要求と同じ順序） */
+export interface UploadDuplicateCheckResponse {
+  results: UploadDuplicateCheckResult[];
+}
+
+/** uploadHistory:clear 応答 */
+export interface UploadHistoryClearResponse {
+  success: true;
+}
+
+// =============================================================================
+// Asset Metadata Types
+// =============================================================================
+
+/** アセットのローカルのメタ情報（Mux には送信しない） */
+export interface AssetMetadata {
+  assetId: string;
+  /** タイトル（空 = 未設定） */
+  title: string;
+  /** アップロード元のファイル名（空 = 不明） */
+  fileName: string;
+  /** メモ */
+  notes: string;
+  /** タグ（重複なし、入力順） */
+  tags: string[];
+  /** タイトル・タグの Mux への同期に失敗し、再同期が必要か */
+  syncPending: boolean;
+  /** ピン留め（アップロード時の古い動画の自動削除の対象にしない） */
+  pinned: boolean;
+  /** 更新時刻（Unix ms） */
+  updatedAt: number;
+}
+
+/** assetMetadata:list 応答 */
+export interface AssetMetadataListResponse {
+  items: AssetMetadata[];
+}
+
+/**
+ * assetMetadata:update 要求（指定した項目だけを更新）
+ * タイトル・タグを指定した場合は Mux のアセットにも書き込む
+ */
+export interface AssetMetadataUpdateRequest {
+  assetId: string;
+  title?: string;
+  fileName?: string;
+  notes?: string;
+  tags?: string[];
+  pinned?: boolean;
+}
+
+/** assetMetadata:update 応答 */
+export interface AssetMetadataUpdateResponse {
+  metadata: AssetMetadata;
+  /** Mux への同期に成功した場合、更新後のアセット */
+  asset?: AssetItem;
+  /** Mux への同期に失敗した場合のエラー（ローカルには保存済み） */
+  syncError?: IpcError;
+  /** passthrough が他のツールの値のため、タグをローカルにだけ保存した */
+  tagsSkipped?: boolean;
+}
+
+// =============================================================================
+// Collection Types
+// =============================================================================
+
+/** コレクション（動画をまとめる名前付きのグループ、ローカルに保存） */
+export interface Collection {
+  id: string;
+  name: string;
+  /** 含まれるアセットID（重複なし、追加順） */
+  assetIds: string[];
+  /** 作成時刻（Unix ms） */
+  createdAt: number;
+}
+
+/** collections:list 応答 */
+export interface CollectionsResponse {
+  collections: Collection[];
+}
+
+/** collections:create 要求 */
+export interface CollectionCreateRequest {
+  name: string;
+  /** 作成と同時に追加するアセットID */
+  assetIds?: string[];
+}
+
+/** collections:rename 要求 */
+export interface CollectionRenameRequest {
+  id: string;
+  name: string;
+}
+
+/** collections:delete 要求 */
+export interface CollectionDeleteRequest {
+  id: string;
+}
+
+/** collections:delete 応答 */
+export interface CollectionDeleteResponse {
+  success: boolean;
+}
+
+/** collections:addAssets / collections:removeAssets 要求 */
+export interface CollectionAssetsRequest {
+  id: string;
+  assetIds: string[];
+}
+
+// =============================================================================
+// Trash Types
+// =============================================================================
+
+/** 削除までの猶予期間（日）の範囲と既定値（Renderer の設定と Main の保存で共通） */
+export const MIN_TRASH_GRACE_DAYS = 1;
+export const MAX_TRASH_GRACE_DAYS = 30;
+export const DEFAULT_TRASH_GRACE_DAYS = 7;
+
+/** 猶予期間を範囲内の日数にする（数値でなければ既定値） */
+export function clampTrashGraceDays(value: number): number {
+  if (!Number.isFinite(value)) {
+    return DEFAULT_TRASH_GRACE_DAYS;
+  }
+  return Math.min(MAX_TRASH_GRACE_DAYS, Math.max(MIN_TRASH_GRACE_DAYS, Math.round(value)));
+}
+
+/** ゴミ箱の動画（猶予期間が過ぎたら Main プロセスが CLI で削除する） */
+export interface TrashEntry {
+  assetId: string;
+  playbackId: string | null;
+  /** ゴミ箱に移動したときの表示名（タイトルまたは元のファイル名、空 = 未設定） */
+  title: string;
+  /** 再生時間（秒） */
+  duration?: number;
+  /** ゴミ箱に移動した時刻（Unix ms） */
+  trashedAt: number;
+  /** CLI で削除する時刻（Unix ms） */
+  purgeAt: number;
+  /** 最後に削除に失敗したときのエラー（次の確認で再試行する） */
+  lastError?: string;
+}
+
+/** trash:list 応答 */
+export interface TrashListResponse {
+  entries: TrashEntry[];
+}
+
+/** trash:move 要求 */
+export interface TrashMoveRequest {
+  assetId: string;
+  playbackId: string | null;
+  title: string;
+  duration?: number;
+  /** 削除までの猶予期間（日） */
+  graceDays: number;
+}
+
+/** trash:restore 要求 */
+export interface TrashRestoreRequest {
+  assetIds: string[];
+}
+
+/** trash:restore 応答 */
+export interface TrashRestoreResponse {
+  /** ゴミ箱から戻した動画（ゴミ箱になかった動画は含まない） */
+  restoredAssetIds: string[];
+}
+
+/** trash:purge 要求（猶予期間を待たずに削除） */
+export interface TrashPurgeRequest {
+  assetIds: string[];
+}
+
+/** trash:purge 応答、および trash:purged 通知 */
+export interface TrashPurgeResponse {
+  /** CLI で削除した動画 */
+  purgedAssetIds: string[];
+  /** 削除に失敗した動画（ゴミ箱に残る） */
+  failedAssetIds: string[];
+}
+
+// =============================================================================
+// MP4 Download Types
+// =============================================================================
+
+/** download:selectFolder 応答（null = キャンセル） */
+export interface DownloadFolderResponse {
+  directory: string | null;
+}
+
+/** download:mp4 要求 */
+export interface Mp4DownloadRequest {
+  /** Renderer 側で発行するダウンロードID（進捗の振り分け・キャンセル用） */
+  downloadId: string;
+  assetId: string;
+  playbackId: string;
+  /** 保存先フォルダ（download:selectFolder で選んだもの） */
+  directory: string;
+  /** 保存するファイル名（拡張子なし、タイトルまたは元のファイル名。空ならアセットID） */
+  fileName: string;
+}
+
+/** MP4 ダウンロードのフェーズ */
+export type Mp4DownloadPhase = "waiting" | "downloading";
+
+/** download:progress 通知 */
+export interface Mp4DownloadProgress {
+  downloadId: string;
+  phase: Mp4DownloadPhase;
+  /** MP4 の生成を待っている時間（秒、waiting フェーズ） */
+  elapsedSecs?: number;
+  /** 受信済みのバイト数（downloading フェーズ） */
+  bytesReceived?: number;
+  /** ファイルサイズ（Content-Length がない場合は null） */
+  totalBytes?: number | null;
+  percent?: number;
+}
+
+/** download:mp4 応答 */
+export interface Mp4DownloadResponse {
+  /** 保存したファイルのパス（同名のファイルがある場合は " (1)" などを付ける） */
+  filePath: string;
+  sizeBytes: number;
+}
+
+/** download:cancel 要求 */
+export interface DownloadCancelRequest {
+  downloadId: string;
+}
+
+/** download:reveal 要求（保存したファイルをエクスプローラー等で表示） */
+export interface DownloadRevealRequest {
+  filePath: string;
+}
+
+// =============================================================================
+// Watch Folder Types
+// =============================================================================
+
+/** 監視フォルダで新しいファイルを検出したときの動作 */
+export type WatchFolderMode = "auto" | "ask";
+
+/** 監視フォルダ */
+export interface WatchFolder {
+  id: string;
+  /** 監視するディレクトリ（サブフォルダも対象） */
+  path: string;
+  /** ファイル名のグロブパターン（例: "*.mp4"、空 = すべての動画ファイル） */
+  patterns: string[];
+  /** auto: 自動でアップロード / ask: アップロード前に確認 */
+  mode: WatchFolderMode;
+}
+
+/** watchFolders:list 応答 */
+export interface WatchFoldersResponse {
+  folders: WatchFolder[];
+}
+
+/** watchFolders:add 応答（ダイアログでキャンセルされた場合は folder: null） */
+export interface WatchFolderAddResponse {
+  folder: WatchFolder | null;
+}
+
+/** watchFolders:update 要求 */
+export interface WatchFolderUpdateRequest {
+  id: string;
+  patterns?: string[];
+  mode?: WatchFolderMode;
+}
+
+/** watchFolders:remove 要求 */
+export interface WatchFolderRemoveRequest {
+  id: string;
+}
+
+/** watchFolders:remove 応答 */
+export interface WatchFolderRemoveResponse {
+  success: boolean;
+}
+
+/** 監視フォルダで書き込みが完了した新しいファイル */
+export interface WatchFolderFile {
+  folderId: string;
+  filePath: string;
+  fileName: string;
+  mode: WatchFolderMode;
+}
+
+/** watchFolders:takePending 応答（Renderer 未接続の間に検出したファイル） */
+export interface WatchFolderPendingResponse {
+  files: WatchFolderFile[];
 }
 
 // =============================================================================
@@ -300,10 +917,14 @@ export const IpcChannels = {
   LOGIN: "vidyeet:login",
   LOGOUT: "vidyeet:logout",
   LIST: "vidyeet:list",
+  UPDATE_ASSET: "vidyeet:updateAsset",
+  SHOW: "vidyeet:show",
   DELETE: "vidyeet:delete",
   SELECT_FILE: "vidyeet:selectFile",
   UPLOAD: "vidyeet:upload",
   UPLOAD_CANCEL: "vidyeet:upload:cancel",
+  UPLOAD_SET_RATE_LIMIT: "vidyeet:upload:setRateLimit",
+  PROBE_FILE: "vidyeet:probeFile",
   CLIPBOARD_WRITE: "clipboard:write",
   SHELL_OPEN_EXTERNAL: "shell:openExternal",
   UPDATE_CHECK: "update:check",
@@ -319,6 +940,50 @@ export const IpcChannels = {
   AUTO_LAUNCH_SET: "autoLaunch:set",
   RICH_PRESENCE_GET: "richPresence:get",
   RICH_PRESENCE_SET: "richPresence:set",
+  UPLOAD_QUEUE_GET: "uploadQueue:get",
+  UPLOAD_QUEUE_SAVE: "uploadQueue:save",
+  UPLOAD_QUEUE_COMMAND: "uploadQueue:command",
+
+  // Watch Folders
+  WATCH_FOLDERS_LIST: "watchFolders:list",
+  WATCH_FOLDERS_ADD: "watchFolders:add",
+  WATCH_FOLDERS_UPDATE: "watchFolders:update",
+  WATCH_FOLDERS_REMOVE: "watchFolders:remove",
+  WATCH_FOLDERS_TAKE_PENDING: "watchFolders:takePending",
+  WATCH_FOLDERS_FILE_DETECTED: "watchFolders:fileDetected",
+
+  // Upload History
+  UPLOAD_HISTORY_LIST: "uploadHistory:list",
+  UPLOAD_HISTORY_EXPORT: "uploadHistory:export",
+  UPLOAD_HISTORY_CLEAR: "uploadHistory:clear",
+  UPLOAD_HISTORY_FIND_DUPLICATES: "uploadHistory:findDuplicates",
+
+  // Asset Metadata
+  ASSET_METADATA_LIST: "assetMetadata:list",
+  ASSET_METADATA_UPDATE: "assetMetadata:update",
+
+  // Collections
+  COLLECTIONS_LIST: "collections:list",
+  COLLECTIONS_CREATE: "collections:create",
+  COLLECTIONS_RENAME: "collections:rename",
+  COLLECTIONS_DELETE: "collections:delete",
+  COLLECTIONS_ADD_ASSETS: "collections:addAssets",
+  COLLECTIONS_REMOVE_ASSETS: "collections:removeAssets",
+
+  // Trash
+  TRASH_LIST: "trash:list",
+  TRASH_MOVE: "trash:move",
+  TRASH_RESTORE: "trash:restore",
+  TRASH_PURGE: "trash:purge",
+  TRASH_PURGED: "trash:purged",
+
+  // MP4 Download
+  DOWNLOAD_SELECT_FOLDER: "download:selectFolder",
+  DOWNLOAD_MP4: "download:mp4",
+  DOWNLOAD_CANCEL: "download:cancel",
+  DOWNLOAD_REVEAL: "download:reveal",
+  DOWNLOAD_PROGRESS: "download:progress",
+
   APP_WINDOW_HIDDEN: "app:windowHidden",
   APP_GET_UPDATE_STATUS: "app:getUpdateStatus",
   APP_CLEAR_UPDATE_TOAST: "app:clearUpdateToast",
@@ -341,7 +1006,9 @@ export interface VidyeetApi {
   status(): Promise<StatusResponse | IpcError>;
   login(request: LoginRequest): Promise<LoginResponse | IpcError>;
   logout(): Promise<LogoutResponse | IpcError>;
-  list(): Promise<ListResponse | IpcError>;
+  list(request?: ListRequest): Promise<ListResponse | IpcError>;
+  updateAsset(request: UpdateAssetRequest): Promise<UpdateAssetResponse | IpcError>;
+  show(request: ShowRequest): Promise<ShowResponse | IpcError>;
   delete(request: DeleteRequest): Promise<DeleteResponse | IpcError>;
   selectFile(): Promise<SelectFileResponse | IpcError>;
   upload(
@@ -349,11 +1016,46 @@ export interface VidyeetApi {
     onProgress?: (progress: UploadProgress) => void,
   ): Promise<UploadResponse | IpcError>;
   cancelUpload(uploadId: string): Promise<{ success: boolean }>;
+  setUploadRateLimit(request: UploadRateLimitRequest): Promise<{ success: true }>;
+  probeFile(request: ProbeFileRequest): Promise<MediaProbeResult | IpcError>;
   getTemplates(): Promise<GetTemplatesResponse | IpcError>;
   getTemplate(request: GetTemplateRequest): Promise<CopyTemplate | IpcError>;
   saveTemplate(request: SaveTemplateRequest): Promise<SaveTemplateResponse | IpcError>;
   deleteTemplate(request: DeleteTemplateRequest): Promise<DeleteTemplateResponse | IpcError>;
   applyTemplate(request: ApplyTemplateRequest): Promise<ApplyTemplateResponse | IpcError>;
+  getUploadQueue(): Promise<UploadQueueGetResponse | IpcError>;
+  saveUploadQueue(request: UploadQueueSaveRequest): Promise<UploadQueueSaveResponse | IpcError>;
+  onUploadQueueCommand(callback: (command: UploadQueueCommand) => void): () => void;
+  getWatchFolders(): Promise<WatchFoldersResponse | IpcError>;
+  addWatchFolder(): Promise<WatchFolderAddResponse | IpcError>;
+  updateWatchFolder(request: WatchFolderUpdateRequest): Promise<WatchFolder | IpcError>;
+  removeWatchFolder(request: WatchFolderRemoveRequest): Promise<WatchFolderRemoveResponse | IpcError>;
+  takePendingWatchFolderFiles(): Promise<WatchFolderPendingResponse | IpcError>;
+  onWatchFolderFile(callback: (file: WatchFolderFile) => void): () => void;
+  getUploadHistory(request?: UploadHistoryListRequest): Promise<UploadHistoryListResponse | IpcError>;
+  exportUploadHistory(request: UploadHistoryExportRequest): Promise<UploadHistoryExportResponse | IpcError>;
+  clearUploadHistory(): Promise<UploadHistoryClearResponse | IpcError>;
+  findDuplicateUploads(request: UploadDuplicateCheckRequest): Promise<UploadDuplicateCheckResponse | IpcError>;
+  getAssetMetadata(): Promise<AssetMetadataListResponse | IpcError>;
+  updateAssetMetadata(request: AssetMetadataUpdateRequest): Promise<AssetMetadataUpdateResponse | IpcError>;
+  getCollections(): Promise<CollectionsResponse | IpcError>;
+  createCollection(request: CollectionCreateRequest): Promise<Collection | IpcError>;
+  renameCollection(request: CollectionRenameRequest): Promise<Collection | IpcError>;
+  deleteCollection(request: CollectionDeleteRequest): Promise<CollectionDeleteResponse | IpcError>;
+  addToCollection(request: CollectionAssetsRequest): Promise<Collection | IpcError>;
+  removeFromCollection(request: CollectionAssetsRequest): Promise<Collection | IpcError>;
+  getTrash(): Promise<TrashListResponse | IpcError>;
+  moveToTrash(request: TrashMoveRequest): Promise<TrashEntry | IpcError>;
+  restoreFromTrash(request: TrashRestoreRequest): Promise<TrashRestoreResponse | IpcError>;
+  purgeTrash(request: TrashPurgeRequest): Promise<TrashPurgeResponse | IpcError>;
+  onTrashPurged(callback: (result: TrashPurgeResponse) => void): () => void;
+  selectDownloadFolder(): Promise<DownloadFolderResponse | IpcError>;
+  downloadMp4(
+    request: Mp4DownloadRequest,
+    onProgress?: (progress: Mp4DownloadProgress) => void,
+  ): Promise<Mp4DownloadResponse | IpcError>;
+  cancelDownload(request: DownloadCancelRequest): Promise<{ success: boolean }>;
+  revealDownload(request: DownloadRevealRequest): Promise<void>;
 }
 
 /** クリップボードAPI */
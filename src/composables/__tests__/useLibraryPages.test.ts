@@ -0,0 +1,74 @@
+import { LIBRARY_PAGE_SIZE, useLibraryPages } from '../useLibraryPages';
+import { applyLibraryView, createDefaultLibraryView } from '../../utils/libraryView';
+import type { AssetItem, ListRequest } from '../../../electron/types/ipc';
+import type { VideoItem } from '../../types/app';
+
+/** 120 assets, newest first; the longest video is the oldest one */
+const assets: AssetItem[] = Array.from({ length: 120 }, (_, i) => ({
+  assetId: `asset-${i}`,
+  playbackId: `play-${i}`,
+  status: 'ready',
+  duration: i + 1,
+  createdAt: String(2_000_000 - i),
+}));
+
+function toVideoItem(item: AssetItem): VideoItem {
+  return { assetId: item.assetId, playbackId: item.playbackId, duration: item.duration, createdAt: item.createdAt };
+}
+
+function mockList(failAt?: string) {
+  const list = vi.fn(async (request: ListRequest) => {
+    if (failAt !== undefined && request.cursor === failAt) {
+      return { code: 'CLI_NON_ZERO_EXIT', message: 'network error' };
+    }
+    const start = Number(request.cursor ?? 0);
+    const end = start + (request.limit ?? assets.length);
+    return {
+      items: assets.slice(start, end),
+      nextCursor: end < assets.length ? String(end) : null,
+      totalCount: null,
+    };
+  });
+  (globalThis as any).window = { vidyeet: { list } };
+  return list;
+}
+
+describe('useLibraryPages', () => {
+  test('loads every page so that sorting sees videos beyond the first page', async () => {
+    const list = mockList();
+    const pages = useLibraryPages(toVideoItem);
+
+    await pages.fetchFirstPage();
+    expect(pages.videos.value).toHaveLength(LIBRARY_PAGE_SIZE);
+    expect(pages.nextCursor.value).toBe('50');
+
+    const longestFirst = { ...createDefaultLibraryView(), sortKey: 'duration' as const };
+    expect(applyLibraryView(pages.videos.value, longestFirst)[0].assetId).toBe('asset-49');
+
+    expect(await pages.loadRemaining()).toBe(true);
+    expect(list).toHaveBeenCalledTimes(3);
+    expect(pages.videos.value).toHaveLength(120);
+    expect(applyLibraryView(pages.videos.value, longestFirst)[0].assetId).toBe('asset-119');
+  });
+
+  test('stops as soon as the wanted videos are loaded', async () => {
+    mockList();
+    const pages = useLibraryPages(toVideoItem);
+    void pages.fetchFirstPage();
+
+    // Waits for the first page before paging on
+    const found = () => pages.videos.value.some((v) => v.assetId === 'asset-60');
+    expect(await pages.loadRemaining(found)).toBe(false);
+    expect(pages.videos.value).toHaveLength(100);
+  });
+
+  test('reports a page that cannot be loaded', async () => {
+    mockList('100');
+    const pages = useLibraryPages(toVideoItem);
+    await pages.fetchFirstPage();
+
+    expect(await pages.loadRemaining()).toBe(false);
+    expect(pages.loadMoreFailed.value).toBe(true);
+    expect(pages.videos.value).toHaveLength(100);
+  });
+});
@@ -0,0 +1,60 @@
+import { useLibrarySelection } from '../useLibrarySelection';
+import type { VideoItem } from '../../types/app';
+
+const videos: VideoItem[] = ['a', 'b', 'c', 'd', 'e'].map((assetId) => ({
+  assetId,
+  playbackId: `p-${assetId}`,
+  status: 'ready',
+}));
+
+const plain = { range: false, toggle: false };
+const toggle = { range: false, toggle: true };
+const range = { range: true, toggle: false };
+
+function selected(selection: ReturnType<typeof useLibrarySelection>): string[] {
+  return selection.getSelected(videos).map((v) => v.assetId);
+}
+
+describe('useLibrarySelection', () => {
+  test('toggles single videos', () => {
+    const selection = useLibrarySelection();
+    selection.handleClick(videos[0], toggle, videos);
+    selection.handleClick(videos[2], plain, videos);
+    expect(selected(selection)).toEqual(['a', 'c']);
+
+    selection.handleClick(videos[0], toggle, videos);
+    expect(selected(selection)).toEqual(['c']);
+    expect(selection.count.value).toBe(1);
+  });
+
+  test('selects a range from the anchor in either direction', () => {
+    const selection = useLibrarySelection();
+    selection.handleClick(videos[3], toggle, videos);
+    selection.handleClick(videos[1], range, videos);
+    expect(selected(selection)).toEqual(['b', 'c', 'd']);
+
+    // The anchor stays put, so the range can be adjusted
+    selection.handleClick(videos[4], range, videos);
+    expect(selected(selection)).toEqual(['d', 'e']);
+  });
+
+  test('adds a range to the existing selection with Ctrl+Shift', () => {
+    const selection = useLibrarySelection();
+    selection.handleClick(videos[0], toggle, videos);
+    selection.setAnchor('c');
+    selection.handleClick(videos[4], { range: true, toggle: true }, videos);
+    expect(selected(selection)).toEqual(['a', 'c', 'd', 'e']);
+  });
+
+  test('selects all and drops videos that are no longer listed', () => {
+    const selection = useLibrarySelection();
+    selection.selectAll(videos);
+    expect(selection.count.value).toBe(5);
+
+    selection.retain(videos.slice(0, 2));
+    expect(selected(selection)).toEqual(['a', 'b']);
+
+    selection.clear();
+    expect(selection.count.value).toBe(0);
+  });
+});
@@ -0,0 +1,178 @@
+import { ref } from 'vue';
+import { useUploadQueue } from '../useUploadQueue';
+
+function files(count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    filePath: `C:/videos/${i}.mp4`,
+    fileName: `${i}.mp4`,
+  }));
+}
+
+describe('useUploadQueue', () => {
+  test('runs sequentially when no concurrency is given', () => {
+    const queue = useUploadQueue();
+    queue.enqueue(files(2));
+
+    expect(queue.startNext()?.fileName).toBe('0.mp4');
+    expect(queue.startNext()).toBeNull();
+    expect(queue.stats.value.waiting).toBe(1);
+  });
+
+  test('starts items up to the concurrency limit', () => {
+    const queue = useUploadQueue({ concurrency: ref(2) });
+    queue.enqueue(files(3));
+
+    const first = queue.startNext();
+    const second = queue.startNext();
+    expect(first?.status).toBe('uploading');
+    expect(second?.status).toBe('uploading');
+    expect(queue.startNext()).toBeNull();
+    expect(queue.activeItems.value).toHaveLength(2);
+
+    queue.markCompleted(first!.id, 'asset-1');
+    expect(queue.startNext()?.fileName).toBe('2.mp4');
+  });
+
+  test('counts cancelling items against the limit', () => {
+    const queue = useUploadQueue({ concurrency: ref(1) });
+    queue.enqueue(files(2));
+
+    const item = queue.startNext()!;
+    queue.updateStatus(item.id, 'cancelling');
+    expect(queue.startNext()).toBeNull();
+
+    queue.markError(item.id, 'cancelled');
+    expect(queue.startNext()?.fileName).toBe('1.mp4');
+  });
+
+  test('picks up a raised limit on the next call', () => {
+    const concurrency = ref(1);
+    const queue = useUploadQueue({ concurrency });
+    queue.enqueue(files(2));
+
+    queue.startNext();
+    expect(queue.startNext()).toBeNull();
+
+    concurrency.value = 2;
+    expect(queue.startNext()?.fileName).toBe('1.mp4');
+  });
+
+  test('keeps progress and errors per item', () => {
+    const queue = useUploadQueue({ concurrency: ref(2) });
+    queue.enqueue(files(2));
+
+    const a = queue.startNext()!;
+    const b = queue.startNext()!;
+    a.progress.progressPercent = 40;
+    queue.markError(b.id, 'network error');
+
+    expect(queue.getItem(a.id)?.progress.progressPercent).toBe(40);
+    expect(queue.getItem(b.id)?.progress.progressPercent).toBe(0);
+    expect(queue.getItem(b.id)?.error).toBe('network error');
+    expect(queue.stats.value).toMatchObject({ uploading: 1, error: 1 });
+  });
+
+  test('retrying items free their slot and go back in line', () => {
+    const queue = useUploadQueue({ concurrency: ref(1) });
+    queue.enqueue(files(2));
+
+    const first = queue.startNext()!;
+    queue.scheduleRetry(first.id, 'network error', Date.now() + 2000);
+    expect(first.status).toBe('retrying');
+    expect(first.attempt).toBe(2);
+    expect(queue.stats.value.retrying).toBe(1);
+
+    const second = queue.startNext()!;
+    expect(second.fileName).toBe('1.mp4');
+    queue.markCompleted(second.id, 'asset-2');
+
+    queue.requeue(first.id);
+    expect(queue.startNext()?.id).toBe(first.id);
+    expect(first.attempt).toBe(2);
+  });
+
+  test('paused items are skipped until resumed', () => {
+    const queue = useUploadQueue();
+    queue.enqueue(files(2));
+
+    const first = queue.items.value[0];
+    queue.pause(first.id);
+    expect(queue.stats.value.paused).toBe(1);
+
+    const second = queue.startNext()!;
+    expect(second.fileName).toBe('1.mp4');
+    queue.markPaused(second.id);
+    expect(second.status).toBe('paused');
+    expect(queue.startNext()).toBeNull();
+
+    queue.resume(first.id);
+    expect(queue.startNext()?.id).toBe(first.id);
+  });
+
+  test('pauseAll stops new starts and resumeAll releases paused items', () => {
+    const queue = useUploadQueue({ concurrency: ref(2) });
+    queue.enqueue(files(2));
+
+    queue.pause(queue.items.value[1].id);
+    queue.pauseAll();
+    expect(queue.startNext()).toBeNull();
+
+    queue.resumeAll();
+    expect(queue.isPaused.value).toBe(false);
+    expect(queue.startNext()?.fileName).toBe('0.mp4');
+    expect(queue.startNext()?.fileName).toBe('1.mp4');
+  });
+
+  test('keeps a stop requested before the uploadId arrives until it is taken', () => {
+    const queue = useUploadQueue({ concurrency: ref(2) });
+    queue.enqueue(files(3));
+
+    const paused = queue.startNext()!;
+    const cancelled = queue.startNext()!;
+    queue.deferStop(paused.id, 'pause');
+    queue.deferStop(cancelled.id, 'cancel');
+
+    // The slot stays taken until the process is actually stopped
+    expect(paused.status).toBe('pausing');
+    expect(cancelled.status).toBe('cancelling');
+    expect(queue.startNext()).toBeNull();
+
+    expect(queue.takePendingStop(paused.id)).toBe('pause');
+    expect(queue.takePendingStop(paused.id)).toBeNull();
+    expect(queue.takePendingStop(cancelled.id)).toBe('cancel');
+
+    // Items that are not uploading are left alone
+    const waiting = queue.items.value[2];
+    queue.deferStop(waiting.id, 'pause');
+    expect(waiting.status).toBe('waiting');
+    expect(queue.takePendingStop(waiting.id)).toBeNull();
+  });
+
+  test('restores saved items and keeps individually paused ones paused', () => {
+    const queue = useUploadQueue({ concurrency: ref(3) });
+    const ids = queue.restore([
+      { filePath: 'C:/videos/0.mp4', fileName: '0.mp4', status: 'uploading', fingerprint: 'fp-0' },
+      { filePath: 'C:/videos/1.mp4', fileName: '1.mp4', status: 'paused' },
+      { filePath: 'C:/videos/2.mp4', fileName: '2.mp4', status: 'error', error: 'network error' },
+    ]);
+
+    expect(ids.map((id) => queue.getItem(id)?.status)).toEqual(['waiting', 'paused', 'waiting']);
+    expect(queue.getItem(ids[0])?.fingerprint).toBe('fp-0');
+    expect(queue.startNext()?.fileName).toBe('0.mp4');
+    expect(queue.startNext()?.fileName).toBe('2.mp4');
+    expect(queue.startNext()).toBeNull();
+  });
+
+  test('cancel removes only waiting and retrying items', () => {
+    const queue = useUploadQueue();
+    queue.enqueue(files(2));
+
+    const running = queue.startNext()!;
+    queue.cancel(running.id);
+    expect(queue.getItem(running.id)).toBeDefined();
+
+    const waiting = queue.items.value[1];
+    queue.cancel(waiting.id);
+    expect(queue.getItem(waiting.id)).toBeUndefined();
+  });
+});
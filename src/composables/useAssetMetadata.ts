@@ -0,0 +1,134 @@
+/**
+ * Asset metadata (title, original file name, notes, tags)
+ *
+ * Title and tags follow the Mux account (meta.title / passthrough on the asset),
+ * file name and notes stay on this machine. Use resolveMetadata() to get the
+ * merged view of a video.
+ *
+ * State is shared by every caller so that edits in the info panel show up
+ * in the library and in copy templates right away
+ */
+import { ref } from 'vue';
+import type {
+  AssetItem,
+  AssetMetadata,
+  AssetMetadataUpdateRequest,
+} from '../../electron/types/ipc';
+import { isIpcError } from '../../electron/types/ipc';
+import type { VideoItem } from '../types/app';
+
+/** Asset ID -> local metadata */
+const metadataByAsset = ref<Map<string, AssetMetadata>>(new Map());
+
+/** Asset ID -> asset as returned by a sync in this session (newer than the loaded list) */
+const syncedAssets = ref<Map<string, AssetItem>>(new Map());
+
+/** Loaded once per session; later reads use the shared state */
+let loadPromise: Promise<void> | null = null;
+
+export function useAssetMetadata() {
+  const error = ref<string | null>(null);
+  /** Set when the last save was kept locally but could not be written to Mux */
+  const syncError = ref<string | null>(null);
+  /** Set when the tags of the last save stayed local because another tool owns the passthrough */
+  const tagsSkipped = ref(false);
+
+  /**
+   * Load metadata of all assets (only the first call hits IPC unless forced)
+   */
+  const loadMetadata = async (force = false): Promise<void> => {
+    if (loadPromise && !force) {
+      return loadPromise;
+    }
+
+    loadPromise = (async () => {
+      try {
+        const result = await window.vidyeet.getAssetMetadata();
+        if (isIpcError(result)) {
+          error.value = result.message;
+          loadPromise = null;
+          return;
+        }
+        metadataByAsset.value = new Map(result.items.map((item) => [item.assetId, item]));
+      } catch (err) {
+        error.value = err instanceof Error ? err.message : 'Unknown error';
+        loadPromise = null;
+      }
+    })();
+    return loadPromise;
+  };
+
+  /**
+   * Metadata of a video: title and tags from Mux when set there,
+   * unless a local edit has not been synced yet
+   */
+  const resolveMetadata = (video: VideoItem): AssetMetadata => {
+    const local = metadataByAsset.value.get(video.assetId) ?? {
+      assetId: video.assetId,
+      title: '',
+      fileName: '',
+      notes: '',
+      tags: [],
+      syncPending: false,
+      pinned: false,
+      updatedAt: 0,
+    };
+    if (local.syncPending) {
+      return local;
+    }
+
+    const remote = syncedAssets.value.get(video.assetId) ?? video;
+    return {
+      ...local,
+      title: remote.title || local.title,
+      tags: remote.tags ?? local.tags,
+    };
+  };
+
+  /**
+   * Save the given fields of an asset (title and tags are written to Mux too)
+   * @returns Saved metadata, or null if saving failed (see error).
+   *   If only the Mux sync failed, the metadata is returned and syncError is set
+   */
+  const updateMetadata = async (request: AssetMetadataUpdateRequest): Promise<AssetMetadata | null> => {
+    error.value = null;
+    syncError.value = null;
+    tagsSkipped.value = false;
+
+    try {
+      const result = await window.vidyeet.updateAssetMetadata(request);
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+
+      const next = new Map(metadataByAsset.value);
+      next.set(result.metadata.assetId, result.metadata);
+      metadataByAsset.value = next;
+
+      if (result.asset) {
+        const synced = new Map(syncedAssets.value);
+        synced.set(result.asset.assetId, result.asset);
+        syncedAssets.value = synced;
+      }
+      if (result.syncError) {
+        syncError.value = result.syncError.message;
+      }
+      tagsSkipped.value = !!result.tagsSkipped;
+      return result.metadata;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  return {
+    metadataByAsset,
+    error,
+    syncError,
+    tagsSkipped,
+    loadMetadata,
+    resolveMetadata,
+    updateMetadata,
+  };
+}
@@ -0,0 +1,109 @@
+/**
+ * 処理中のアセットの状態の追跡
+ *
+ * 一覧のうち処理中の動画（preparing、MP4 の生成中）を CLI の `show` で定期的に取得し直し、
+ * 最新の状態を onUpdate に渡す（一覧のカードをその場で更新するため）
+ *
+ * 設計方針:
+ * - 処理中の動画がなくなったらタイマーを止め、一覧に処理中の動画が増えたら再開する
+ * - CLI を同時に何本も起動しないよう、1件ずつ順に取得する
+ * - 1回に取得する件数を絞り、最後に取得してから時間が経ったものを優先する
+ * - ウィンドウが非表示の間は取得しない（表示されたら次の周期で取得する）
+ */
+
+import { computed, watch, onMounted, onUnmounted, type Ref } from "vue";
+import type { AssetItem } from "../../electron/types/ipc";
+import { isIpcError } from "../../electron/types/ipc";
+import type { VideoItem } from "../types/app";
+import { needsStatusPolling } from "../utils/assetStatus";
+
+/** 取得の間隔（ms） */
+const POLL_INTERVAL_MS = 5000;
+
+/** 1回に取得する最大件数 */
+const MAX_ASSETS_PER_TICK = 10;
+
+/**
+ * 処理中のアセットの状態を追跡するcomposable
+ *
+ * @param videos - 一覧の動画
+ * @param onUpdate - 取得し直したアセット（状態が変わっていなくても呼ばれる）
+ */
+export function useAssetStatusPoller(
+  videos: Ref<VideoItem[]>,
+  onUpdate: (item: AssetItem) => void,
+): void {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let isPolling = false;
+  let isStopped = false;
+
+  /** アセットID → 最後に取得した時刻 */
+  const lastPolledAt = new Map<string, number>();
+
+  const pendingIds = computed(() =>
+    videos.value.filter(needsStatusPolling).map((video) => video.assetId),
+  );
+
+  function schedule(): void {
+    if (isStopped || timer !== null || isPolling || pendingIds.value.length === 0) {
+      return;
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void poll();
+    }, POLL_INTERVAL_MS);
+  }
+
+  async function poll(): Promise<void> {
+    if (document.hidden) {
+      schedule();
+      return;
+    }
+
+    const targets = [...pendingIds.value]
+      .sort((a, b) => (lastPolledAt.get(a) ?? 0) - (lastPolledAt.get(b) ?? 0))
+      .slice(0, MAX_ASSETS_PER_TICK);
+
+    isPolling = true;
+    try {
+      for (const assetId of targets) {
+        if (isStopped) return;
+        lastPolledAt.set(assetId, Date.now());
+        try {
+          const result = await window.vidyeet.show({ assetId });
+          // 取得中に一覧から消えた（削除・再読み込み）場合は捨てる
+          if (isIpcError(result) || isStopped || !pendingIds.value.includes(assetId)) {
+            continue;
+          }
+          onUpdate(result.item);
+        } catch {
+          // 次の周期で再試行する
+        }
+      }
+    } finally {
+      isPolling = false;
+    }
+
+    // 追跡しなくなったアセットの記録は捨てる
+    for (const assetId of lastPolledAt.keys()) {
+      if (!pendingIds.value.includes(assetId)) {
+        lastPolledAt.delete(assetId);
+      }
+    }
+    schedule();
+  }
+
+  watch(pendingIds, () => schedule());
+
+  onMounted(() => {
+    schedule();
+  });
+
+  onUnmounted(() => {
+    isStopped = true;
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  });
+}
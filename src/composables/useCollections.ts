@@ -0,0 +1,175 @@
+/**
+ * Collections (named groups of videos)
+ *
+ * Collections are kept on this machine and only hold asset IDs.
+ * The collection picked in the side drawer filters the library;
+ * the choice is kept across restarts.
+ *
+ * State is shared by every caller so that the drawer, the library,
+ * the context menu and the selection bar stay in sync
+ */
+import { ref, computed, watch } from 'vue';
+import type { Collection, IpcError } from '../../electron/types/ipc';
+import { isIpcError } from '../../electron/types/ipc';
+
+const STORAGE_KEY = 'vidyeet-active-collection';
+
+const collections = ref<Collection[]>([]);
+
+/** Collection the library is filtered by (null = all videos) */
+const activeCollectionId = ref<string | null>(localStorage.getItem(STORAGE_KEY));
+
+/** Loaded once per session; later reads use the shared state */
+let loadPromise: Promise<void> | null = null;
+
+watch(activeCollectionId, (id) => {
+  if (id === null) {
+    localStorage.removeItem(STORAGE_KEY);
+  } else {
+    localStorage.setItem(STORAGE_KEY, id);
+  }
+});
+
+/** Replace one collection in the shared list */
+function replaceCollection(updated: Collection): void {
+  collections.value = collections.value.map((collection) =>
+    collection.id === updated.id ? updated : collection,
+  );
+}
+
+export function useCollections() {
+  const error = ref<string | null>(null);
+
+  const activeCollection = computed(
+    () => collections.value.find((collection) => collection.id === activeCollectionId.value) ?? null,
+  );
+
+  /**
+   * Load collections (only the first call hits IPC unless forced)
+   * A remembered collection that no longer exists is cleared
+   */
+  const loadCollections = async (force = false): Promise<void> => {
+    if (loadPromise && !force) {
+      return loadPromise;
+    }
+
+    loadPromise = (async () => {
+      try {
+        const result = await window.vidyeet.getCollections();
+        if (isIpcError(result)) {
+          error.value = result.message;
+          loadPromise = null;
+          return;
+        }
+        collections.value = result.collections;
+        if (activeCollectionId.value && !activeCollection.value) {
+          activeCollectionId.value = null;
+        }
+      } catch (err) {
+        error.value = err instanceof Error ? err.message : 'Unknown error';
+        loadPromise = null;
+      }
+    })();
+    return loadPromise;
+  };
+
+  /**
+   * Run a collection IPC call and store the returned collection
+   * @returns The updated collection, or null if the call failed (see error)
+   */
+  const runUpdate = async (
+    call: () => Promise<Collection | IpcError>,
+    onSuccess: (collection: Collection) => void = replaceCollection,
+  ): Promise<Collection | null> => {
+    error.value = null;
+    try {
+      const result = await call();
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+      onSuccess(result);
+      return result;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  /** Create a collection, optionally with initial assets */
+  const createCollection = (name: string, assetIds?: string[]): Promise<Collection | null> =>
+    runUpdate(
+      () => window.vidyeet.createCollection({ name, assetIds }),
+      (created) => {
+        collections.value = [...collections.value, created];
+      },
+    );
+
+  /** Rename a collection */
+  const renameCollection = (id: string, name: string): Promise<Collection | null> =>
+    runUpdate(() => window.vidyeet.renameCollection({ id, name }));
+
+  /** Add assets to a collection */
+  const addToCollection = (id: string, assetIds: string[]): Promise<Collection | null> =>
+    runUpdate(() => window.vidyeet.addToCollection({ id, assetIds }));
+
+  /** Remove assets from a collection */
+  const removeFromCollection = (id: string, assetIds: string[]): Promise<Collection | null> =>
+    runUpdate(() => window.vidyeet.removeFromCollection({ id, assetIds }));
+
+  /**
+   * Delete a collection (the videos are kept)
+   * The library shows all videos again if it was filtered by it
+   */
+  const deleteCollection = async (id: string): Promise<boolean> => {
+    error.value = null;
+    try {
+      const result = await window.vidyeet.deleteCollection({ id });
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return false;
+      }
+      collections.value = collections.value.filter((collection) => collection.id !== id);
+      if (activeCollectionId.value === id) {
+        activeCollectionId.value = null;
+      }
+      return true;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return false;
+    }
+  };
+
+  /** Filter the library by a collection (null = all videos) */
+  const setActiveCollection = (id: string | null): void => {
+    activeCollectionId.value = id;
+  };
+
+  /**
+   * Take deleted assets out of the loaded collections
+   * (the main process already removed them from the store)
+   */
+  const forgetAssets = (assetIds: string[]): void => {
+    const removed = new Set(assetIds);
+    collections.value = collections.value.map((collection) =>
+      collection.assetIds.some((assetId) => removed.has(assetId))
+        ? { ...collection, assetIds: collection.assetIds.filter((assetId) => !removed.has(assetId)) }
+        : collection,
+    );
+  };
+
+  return {
+    collections,
+    activeCollectionId,
+    activeCollection,
+    error,
+    loadCollections,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    setActiveCollection,
+    forgetAssets,
+  };
+}
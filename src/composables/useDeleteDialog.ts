@@ -2,6 +2,10 @@
  * 削除確認ダイアログ管理
  *
  * 動画削除の確認ダイアログの状態と操作を管理するcomposable
+ * 複数の動画（一括削除）も1回の確認で順に削除し、進捗と結果を表示する
+ * 削除した動画はゴミ箱に移り、完了のトーストから元に戻せる
+ * ピン留めした動画は削除せず、一括削除では対象から外し、
+ * 単独で削除する場合は先にピン留めを外す操作を求める
  *
  * 設計方針:
  * - ダイアログの表示/非表示状態を管理
@@ -12,7 +16,22 @@
 
 import { ref, type Ref } from "vue";
 import { useI18n } from "vue-i18n";
-import type { VideoItem, ToastType } from "../types/app";
+import type { VideoItem, ToastAction, ToastType } from "../types/app";
+
+/** 元に戻すボタン付きのトーストを表示する時間（ミリ秒） */
+const UNDO_TOAST_DURATION = 8000;
+
+/**
+ * 削除の進捗（一括削除時の表示用）
+ */
+export interface DeleteProgress {
+  /** 削除した数 */
+  completed: number;
+  /** 失敗した数 */
+  failed: number;
+  /** 対象の数 */
+  total: number;
+}
 
 /**
  * 削除ダイアログの状態
@@ -20,12 +39,18 @@ import type { VideoItem, ToastType } from "../types/app";
 export interface DeleteDialogState {
   /** ダイアログが開いているかどうか */
   isOpen: boolean;
-  /** 削除対象の動画（nullの場合はダイアログが閉じている） */
-  video: VideoItem | null;
+  /** 削除対象の動画（空の場合はダイアログが閉じている） */
+  videos: VideoItem[];
+  /** ピン留めされているため削除しない動画 */
+  pinnedVideos: VideoItem[];
   /** 削除処理中かどうか */
   isDeleting: boolean;
+  /** ピン留めを外している最中かどうか */
+  isUnpinning: boolean;
   /** エラーメッセージ（nullの場合はエラーなし） */
   errorMessage: string | null;
+  /** 削除の進捗（実行前は null） */
+  progress: DeleteProgress | null;
 }
 
 /**
@@ -34,24 +59,32 @@ export interface DeleteDialogState {
 export interface UseDeleteDialog {
   /** 削除ダイアログの状態 */
   state: Ref<DeleteDialogState>;
-  /** 削除ダイアログを開く */
-  openDeleteDialog: (video: VideoItem) => void;
+  /** 削除ダイアログを開く（配列の場合は一括削除） */
+  openDeleteDialog: (target: VideoItem | VideoItem[]) => void;
   /** 削除をキャンセル */
   cancelDelete: () => void;
   /** 削除を実行 */
   confirmDelete: () => Promise<void>;
+  /** ピン留めを外して削除対象に加える */
+  unpinPinnedVideos: () => Promise<void>;
 }
 
 /**
  * useDeleteDialog のオプション
  */
 export interface UseDeleteDialogOptions {
-  /** 削除を実行するコールバック（IPC呼び出しなど） */
-  onDelete: (assetId: string) => Promise<void>;
+  /** 削除を実行するコールバック（ゴミ箱への移動など） */
+  onDelete: (video: VideoItem) => Promise<void>;
   /** 削除成功時のコールバック */
   onDeleted: (assetId: string) => void;
+  /** 削除を元に戻すコールバック（指定した場合、完了のトーストに元に戻すボタンを表示） */
+  onUndo?: (assetIds: string[]) => void;
   /** トースト通知を表示するコールバック */
-  showToast: (type: ToastType, message: string) => void;
+  showToast: (type: ToastType, message: string, duration?: number, action?: ToastAction) => void;
+  /** ピン留めされているか */
+  isPinned: (video: VideoItem) => boolean;
+  /** ピン留めを外すコールバック */
+  onUnpin: (assetId: string) => Promise<void>;
 }
 
 /**
@@ -64,23 +97,32 @@ export function useDeleteDialog(options: UseDeleteDialogOptions): UseDeleteDialo
    // 削除ダイアログの状態
    const state = ref<DeleteDialogState>({
      isOpen: false,
-     video: null,
+     videos: [],
+     pinnedVideos: [],
      isDeleting: false,
+     isUnpinning: false,
      errorMessage: null,
+     progress: null,
    });
    const { t } = useI18n();
 
   /**
    * 削除ダイアログを開く
    *
-   * @param video - 削除対象の動画
+   * ピン留めされた動画は削除対象から分けておく
+   *
+   * @param target - 削除対象の動画（配列の場合は一括削除）
    */
-  function openDeleteDialog(video: VideoItem): void {
+  function openDeleteDialog(target: VideoItem | VideoItem[]): void {
+    const targets = Array.isArray(target) ? target : [target];
     state.value = {
       isOpen: true,
-      video,
+      videos: targets.filter((video) => !options.isPinned(video)),
+      pinnedVideos: targets.filter((video) => options.isPinned(video)),
       isDeleting: false,
+      isUnpinning: false,
       errorMessage: null,
+      progress: null,
     };
   }
 
@@ -89,40 +131,103 @@ export function useDeleteDialog(options: UseDeleteDialogOptions): UseDeleteDialo
    */
   function cancelDelete(): void {
     state.value.isOpen = false;
-    state.value.video = null;
+    state.value.videos = [];
+    state.value.pinnedVideos = [];
+    state.value.progress = null;
+  }
+
+  /**
+   * ピン留めを外して削除対象に加える
+   *
+   * 外せなかった動画はピン留めのまま残し、削除対象にしない
+   */
+  async function unpinPinnedVideos(): Promise<void> {
+    const pinned = state.value.pinnedVideos;
+    if (pinned.length === 0) return;
+
+    const remaining: VideoItem[] = [];
+    state.value.isUnpinning = true;
+    state.value.errorMessage = null;
+
+    for (const video of pinned) {
+      try {
+        await options.onUnpin(video.assetId);
+        state.value.videos.push(video);
+      } catch {
+        remaining.push(video);
+      }
+    }
+
+    state.value.isUnpinning = false;
+    state.value.pinnedVideos = remaining;
+    if (remaining.length > 0) {
+      state.value.errorMessage = t("app.deleteDialog.unpinError");
+    }
   }
 
   /**
    * 削除を実行
    *
-   * IPC呼び出しで削除を実行し、成功時にコールバックを呼び出す
+   * 1件ずつ削除し、成功するたびにコールバックを呼び出す
+   * 失敗した動画が残った場合はダイアログを開いたままにし、再実行の対象にする
    */
   async function confirmDelete(): Promise<void> {
-    const video = state.value.video;
-    if (!video) return;
+    // ダイアログを開いた後にピン留めされた動画も削除しない
+    const videos = state.value.videos.filter((video) => !options.isPinned(video));
+    if (videos.length === 0) return;
 
+    const isBulk = videos.length > 1;
+    const failed: VideoItem[] = [];
+    const deletedIds: string[] = [];
     state.value.isDeleting = true;
     state.value.errorMessage = null;
+    state.value.progress = { completed: 0, failed: 0, total: videos.length };
 
-    try {
-      // 削除を実行（IPC呼び出し）
-      await options.onDelete(video.assetId);
+    for (const video of videos) {
+      try {
+        // 削除を実行（ゴミ箱への移動）
+        await options.onDelete(video);
 
-      // 削除成功: コールバックを呼び出す
-      options.onDeleted(video.assetId);
+        // 削除成功: コールバックを呼び出す
+        options.onDeleted(video.assetId);
+        deletedIds.push(video.assetId);
+        state.value.progress.completed++;
+      } catch {
+        failed.push(video);
+        state.value.progress.failed++;
+      }
+    }
 
-       // ダイアログを閉じる
-       state.value.isOpen = false;
-       state.value.video = null;
+    state.value.isDeleting = false;
+    const { completed } = state.value.progress;
 
-       // トースト通知を表示
-       options.showToast("success", t("app.deleteDialog.success"));
-     } catch (err) {
-       // エラーメッセージを設定
-       state.value.errorMessage = t("app.deleteDialog.error");
-    } finally {
-      state.value.isDeleting = false;
+    if (failed.length === 0) {
+      // ダイアログを閉じる
+      state.value.isOpen = false;
+      state.value.videos = [];
+      state.value.pinnedVideos = [];
+      state.value.progress = null;
+
+      // トースト通知を表示（元に戻すボタン付き）
+      const onUndo = options.onUndo;
+      options.showToast(
+        "success",
+        isBulk
+          ? t("app.deleteDialog.bulkSuccess", { count: completed })
+          : t("app.deleteDialog.success"),
+        onUndo ? UNDO_TOAST_DURATION : undefined,
+        onUndo
+          ? { label: t("app.deleteDialog.undo"), onClick: () => onUndo(deletedIds) }
+          : undefined,
+      );
+      return;
     }
+
+    // エラーメッセージを設定（失敗した動画だけを残す）
+    state.value.videos = failed;
+    state.value.errorMessage = isBulk
+      ? t("app.deleteDialog.bulkPartial", { completed, failed: failed.length })
+      : t("app.deleteDialog.error");
   }
 
   return {
@@ -130,5 +235,6 @@ export function useDeleteDialog(options: UseDeleteDialogOptions): UseDeleteDialo
     openDeleteDialog,
     cancelDelete,
     confirmDelete,
+    unpinPinnedVideos,
   };
 }
@@ -0,0 +1,144 @@
+/**
+ * Library list paging
+ *
+ * The list is fetched a page at a time (`list --limit / --cursor`, CLI v1.4) and
+ * later pages are appended. Search, filters, sorting and select-all only see the
+ * loaded pages, so loadRemaining() fetches the rest when the whole list is needed
+ */
+import { ref } from 'vue';
+import type { VideoItem } from '../types/app';
+import { isIpcError, type AssetItem } from '../../electron/types/ipc';
+
+/** Videos fetched per page */
+export const LIBRARY_PAGE_SIZE = 50;
+
+/** Why the first page could not be loaded */
+export type LibraryLoadError = 'failed' | 'unexpected';
+
+/**
+ * @param toVideoItem - Converts a CLI asset to a list item
+ */
+export function useLibraryPages(toVideoItem: (item: AssetItem) => VideoItem) {
+  const videos = ref<VideoItem[]>([]);
+  const isLoading = ref(true);
+  const loadError = ref<LibraryLoadError | null>(null);
+
+  /** Cursor of the next page (null = everything is loaded) */
+  const nextCursor = ref<string | null>(null);
+  const isLoadingMore = ref(false);
+  const loadMoreFailed = ref(false);
+
+  /** Bumped on reload so that responses for an older list are dropped */
+  let listGeneration = 0;
+  let firstPageRequest: Promise<void> | null = null;
+  let nextPageRequest: Promise<void> | null = null;
+
+  /**
+   * Fetch the first page (replaces the list)
+   */
+  function fetchFirstPage(): Promise<void> {
+    const generation = ++listGeneration;
+    isLoading.value = true;
+    loadError.value = null;
+    loadMoreFailed.value = false;
+
+    const request = (async () => {
+      try {
+        const result = await window.vidyeet.list({ limit: LIBRARY_PAGE_SIZE });
+        if (generation !== listGeneration) return;
+
+        if (isIpcError(result)) {
+          loadError.value = 'failed';
+          return;
+        }
+
+        videos.value = result.items.map(toVideoItem);
+        nextCursor.value = result.nextCursor;
+      } catch {
+        if (generation !== listGeneration) return;
+        loadError.value = 'unexpected';
+      } finally {
+        if (generation === listGeneration) {
+          isLoading.value = false;
+          firstPageRequest = null;
+        }
+      }
+    })();
+    firstPageRequest = request;
+    return request;
+  }
+
+  /**
+   * Fetch the next page and append it (shares a request that is already running)
+   */
+  function loadMore(): Promise<void> {
+    if (!nextPageRequest) {
+      nextPageRequest = fetchNextPage().finally(() => {
+        nextPageRequest = null;
+      });
+    }
+    return nextPageRequest;
+  }
+
+  async function fetchNextPage(): Promise<void> {
+    const cursor = nextCursor.value;
+    if (!cursor) return;
+
+    const generation = listGeneration;
+    isLoadingMore.value = true;
+    loadMoreFailed.value = false;
+
+    try {
+      const result = await window.vidyeet.list({ limit: LIBRARY_PAGE_SIZE, cursor });
+      if (generation !== listGeneration) return;
+
+      if (isIpcError(result)) {
+        loadMoreFailed.value = true;
+        return;
+      }
+
+      // Skip videos repeated at the page boundary (e.g. uploaded while paging)
+      const loaded = new Set(videos.value.map((v) => v.assetId));
+      const items = result.items.filter((item) => !loaded.has(item.assetId)).map(toVideoItem);
+      videos.value = [...videos.value, ...items];
+      nextCursor.value = result.nextCursor;
+    } catch {
+      if (generation !== listGeneration) return;
+      loadMoreFailed.value = true;
+    } finally {
+      if (generation === listGeneration) {
+        isLoadingMore.value = false;
+      }
+    }
+  }
+
+  /**
+   * Load the remaining pages, stopping early once `until` returns true
+   * A page that fails to load is tried once more; after that loading stops
+   * @returns true if every page is loaded
+   */
+  async function loadRemaining(until: () => boolean = () => false): Promise<boolean> {
+    if (firstPageRequest) {
+      await firstPageRequest;
+    }
+
+    const generation = listGeneration;
+    while (nextCursor.value && !until() && generation === listGeneration) {
+      await loadMore();
+      if (loadMoreFailed.value) break;
+    }
+    return nextCursor.value === null;
+  }
+
+  return {
+    videos,
+    isLoading,
+    loadError,
+    nextCursor,
+    isLoadingMore,
+    loadMoreFailed,
+    fetchFirstPage,
+    loadMore,
+    loadRemaining,
+  };
+}
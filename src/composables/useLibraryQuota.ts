@@ -0,0 +1,86 @@
+/** Library quota (dashboard warning) with persistence */
+import { ref, computed, type Ref } from 'vue';
+import type { LibraryQuota } from '../utils/libraryStats';
+import { loadNumberSetting, saveNumberSetting, type NumberSetting } from '../utils/numberSetting';
+
+const MAX_ASSETS_STORAGE_KEY = 'vidyeet-quota-max-assets';
+const MAX_STORED_MINUTES_STORAGE_KEY = 'vidyeet-quota-max-stored-minutes';
+const WARN_PERCENT_STORAGE_KEY = 'vidyeet-quota-warn-percent';
+
+/** 本数の上限の範囲（0 = 上限なし） */
+export const MAX_QUOTA_ASSETS = 100000;
+
+/** 保存分数の上限の範囲（0 = 上限なし） */
+export const MAX_QUOTA_STORED_MINUTES = 1000000;
+
+/** 警告を出す使用率（%）の範囲と既定値 */
+export const MIN_QUOTA_WARN_PERCENT = 50;
+export const MAX_QUOTA_WARN_PERCENT = 100;
+export const DEFAULT_QUOTA_WARN_PERCENT = 80;
+
+const MAX_ASSETS_SETTING: NumberSetting = {
+  key: MAX_ASSETS_STORAGE_KEY,
+  min: 0,
+  max: MAX_QUOTA_ASSETS,
+  defaultValue: 0,
+};
+
+const MAX_STORED_MINUTES_SETTING: NumberSetting = {
+  key: MAX_STORED_MINUTES_STORAGE_KEY,
+  min: 0,
+  max: MAX_QUOTA_STORED_MINUTES,
+  defaultValue: 0,
+};
+
+const WARN_PERCENT_SETTING: NumberSetting = {
+  key: WARN_PERCENT_STORAGE_KEY,
+  min: MIN_QUOTA_WARN_PERCENT,
+  max: MAX_QUOTA_WARN_PERCENT,
+  defaultValue: DEFAULT_QUOTA_WARN_PERCENT,
+};
+
+// ダッシュボードを開き直しても同じ値を使うため、状態はモジュールで共有する
+let state: {
+  maxAssets: Ref<number>;
+  maxStoredMinutes: Ref<number>;
+  warnPercent: Ref<number>;
+} | null = null;
+
+export function useLibraryQuota() {
+  if (!state) {
+    state = {
+      maxAssets: ref(loadNumberSetting(MAX_ASSETS_SETTING)),
+      maxStoredMinutes: ref(loadNumberSetting(MAX_STORED_MINUTES_SETTING)),
+      warnPercent: ref(loadNumberSetting(WARN_PERCENT_SETTING)),
+    };
+  }
+  const { maxAssets, maxStoredMinutes, warnPercent } = state;
+
+  const quota = computed<LibraryQuota>(() => ({
+    maxAssets: maxAssets.value,
+    maxStoredMinutes: maxStoredMinutes.value,
+    warnPercent: warnPercent.value,
+  }));
+
+  const setMaxAssets = (value: number): void => {
+    saveNumberSetting(MAX_ASSETS_SETTING, maxAssets, value);
+  };
+
+  const setMaxStoredMinutes = (value: number): void => {
+    saveNumberSetting(MAX_STORED_MINUTES_SETTING, maxStoredMinutes, value);
+  };
+
+  const setWarnPercent = (value: number): void => {
+    saveNumberSetting(WARN_PERCENT_SETTING, warnPercent, value);
+  };
+
+  return {
+    quota,
+    maxAssets,
+    setMaxAssets,
+    maxStoredMinutes,
+    setMaxStoredMinutes,
+    warnPercent,
+    setWarnPercent,
+  };
+}
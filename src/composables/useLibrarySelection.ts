@@ -0,0 +1,142 @@
+/**
+ * ライブラリの複数選択
+ *
+ * 一括操作（削除・リンクのコピー）の対象を管理するcomposable
+ * 再生中の動画（selectedVideo）とは別に管理する
+ *
+ * 操作:
+ * - Ctrl/Cmd + クリック: 1件を選択/解除
+ * - Shift + クリック: 起点（最後にクリックした動画）からの範囲を選択（Ctrl 併用で追加）
+ * - 選択中の通常クリック: 1件を選択/解除
+ */
+
+import { ref, computed, type Ref, type ComputedRef } from "vue";
+import type { VideoItem } from "../types/app";
+
+/** クリック時の修飾キー */
+export interface SelectionModifiers {
+  /** Shift: 範囲選択 */
+  range: boolean;
+  /** Ctrl/Cmd: 追加・解除 */
+  toggle: boolean;
+}
+
+/**
+ * useLibrarySelection の戻り値型
+ */
+export interface UseLibrarySelection {
+  /** 選択中のアセットID */
+  selectedIds: Ref<Set<string>>;
+  /** 選択数 */
+  count: ComputedRef<number>;
+  /** 選択中か */
+  isSelected: (assetId: string) => boolean;
+  /** クリックによる選択（ordered は表示順の一覧） */
+  handleClick: (video: VideoItem, modifiers: SelectionModifiers, ordered: VideoItem[]) => void;
+  /** 範囲選択の起点を設定（通常クリックで再生した動画など） */
+  setAnchor: (assetId: string) => void;
+  /** すべて選択 */
+  selectAll: (videos: VideoItem[]) => void;
+  /** 選択を解除 */
+  clear: () => void;
+  /** 一覧にない動画を選択から外す */
+  retain: (videos: VideoItem[]) => void;
+  /** 選択中の動画（表示順） */
+  getSelected: (videos: VideoItem[]) => VideoItem[];
+}
+
+/**
+ * ライブラリの複数選択のcomposable
+ */
+export function useLibrarySelection(): UseLibrarySelection {
+  const selectedIds = ref<Set<string>>(new Set());
+
+  /** 範囲選択の起点 */
+  let anchorId: string | null = null;
+
+  const count = computed(() => selectedIds.value.size);
+
+  function isSelected(assetId: string): boolean {
+    return selectedIds.value.has(assetId);
+  }
+
+  function toggle(assetId: string) {
+    const next = new Set(selectedIds.value);
+    if (next.has(assetId)) {
+      next.delete(assetId);
+    } else {
+      next.add(assetId);
+    }
+    selectedIds.value = next;
+  }
+
+  /**
+   * 起点から対象までを選択
+   *
+   * @param additive - true: 既存の選択に追加 / false: 範囲だけを選択
+   */
+  function selectRange(assetId: string, ordered: VideoItem[], additive: boolean) {
+    const start = anchorId ? ordered.findIndex((v) => v.assetId === anchorId) : -1;
+    const end = ordered.findIndex((v) => v.assetId === assetId);
+    if (start === -1 || end === -1) {
+      toggle(assetId);
+      return;
+    }
+
+    const [from, to] = start <= end ? [start, end] : [end, start];
+    const next = additive ? new Set(selectedIds.value) : new Set<string>();
+    for (const video of ordered.slice(from, to + 1)) {
+      next.add(video.assetId);
+    }
+    selectedIds.value = next;
+  }
+
+  function handleClick(video: VideoItem, modifiers: SelectionModifiers, ordered: VideoItem[]) {
+    if (modifiers.range) {
+      // 起点は変えない（Shift を押したまま範囲を広げ直せるように）
+      selectRange(video.assetId, ordered, modifiers.toggle);
+      return;
+    }
+    toggle(video.assetId);
+    anchorId = video.assetId;
+  }
+
+  function setAnchor(assetId: string) {
+    anchorId = assetId;
+  }
+
+  function selectAll(videos: VideoItem[]) {
+    selectedIds.value = new Set(videos.map((v) => v.assetId));
+  }
+
+  function clear() {
+    selectedIds.value = new Set();
+  }
+
+  function retain(videos: VideoItem[]) {
+    const existing = new Set(videos.map((v) => v.assetId));
+    const next = new Set([...selectedIds.value].filter((id) => existing.has(id)));
+    if (next.size !== selectedIds.value.size) {
+      selectedIds.value = next;
+    }
+    if (anchorId && !existing.has(anchorId)) {
+      anchorId = null;
+    }
+  }
+
+  function getSelected(videos: VideoItem[]): VideoItem[] {
+    return videos.filter((v) => selectedIds.value.has(v.assetId));
+  }
+
+  return {
+    selectedIds,
+    count,
+    isSelected,
+    handleClick,
+    setAnchor,
+    selectAll,
+    clear,
+    retain,
+    getSelected,
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Library search, sort and filter state with persistence
+ * Videos in the trash are hidden, and the collection picked in the side drawer
+ * narrows the list before the toolbar does
+ */
+import { ref, computed, watch, type Ref } from 'vue';
+import type { VideoItem } from '../types/app';
+import { isIpcError } from '../../electron/types/ipc';
+import { useAssetMetadata } from './useAssetMetadata';
+import { useCollections } from './useCollections';
+import { useTrash } from './useTrash';
+import {
+  applyLibraryView,
+  countActiveFilters,
+  createDefaultLibraryView,
+  needsAllVideos,
+  normalizeLibraryView,
+  type LibraryViewState,
+} from '../utils/libraryView';
+
+const STORAGE_KEY = 'vidyeet-library-view';
+
+function getInitialState(): LibraryViewState {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (stored === null) {
+    return createDefaultLibraryView();
+  }
+  try {
+    return normalizeLibraryView(JSON.parse(stored));
+  } catch {
+    return createDefaultLibraryView();
+  }
+}
+
+/** Distinct non-empty values, sorted for display */
+function collectOptions(values: (string | undefined)[], compare?: (a: string, b: string) => number): string[] {
+  const unique = [...new Set(values.filter((v): v is string => !!v))];
+  return unique.sort(compare);
+}
+
+export function useLibraryView(videos: Ref<VideoItem[]>) {
+  const state = ref<LibraryViewState>(getInitialState());
+
+  /** Asset ID -> uploaded file name (from the local upload history) */
+  const fileNames = ref<Map<string, string>>(new Map());
+
+  /** Local titles, file names and tags are searchable too; pinned videos sort first */
+  const { metadataByAsset, loadMetadata, resolveMetadata, updateMetadata } = useAssetMetadata();
+
+  const getSearchText = (video: VideoItem): string => {
+    const metadata = resolveMetadata(video);
+    return [
+      fileNames.value.get(video.assetId) ?? '',
+      metadata.title,
+      metadata.fileName,
+      ...metadata.tags,
+    ].join('\n');
+  };
+
+  const { activeCollection } = useCollections();
+  const { trashedIds, loadTrash } = useTrash();
+
+  /** Loaded videos that are not in the trash */
+  const libraryVideos = computed(() =>
+    videos.value.filter((video) => !trashedIds.value.has(video.assetId))
+  );
+
+  /** Library videos in the active collection (all library videos if none) */
+  const collectionVideos = computed(() => {
+    const collection = activeCollection.value;
+    if (!collection) return libraryVideos.value;
+    const assetIds = new Set(collection.assetIds);
+    return libraryVideos.value.filter((video) => assetIds.has(video.assetId));
+  });
+
+  const visibleVideos = computed(() =>
+    applyLibraryView(
+      collectionVideos.value,
+      state.value,
+      getSearchText,
+      (video) => resolveMetadata(video).pinned
+    )
+  );
+
+  const activeFilterCount = computed(() => countActiveFilters(state.value.filter));
+
+  /**
+   * Whether the view is only right once every page is loaded: search, filters and
+   * sorting, or pinned videos (always listed first) that are not loaded yet.
+   * Pins of videos that are gone are dropped once the whole list is loaded (dropMissingPins)
+   */
+  const needsAllPages = computed(() => {
+    if (needsAllVideos(state.value)) return true;
+    const loaded = new Set(videos.value.map((video) => video.assetId));
+    for (const metadata of metadataByAsset.value.values()) {
+      if (metadata.pinned && !loaded.has(metadata.assetId)) return true;
+    }
+    return false;
+  });
+
+  const resolutionOptions = computed(() =>
+    collectOptions(
+      videos.value.map((v) => v.resolutionTier),
+      (a, b) => (parseInt(a, 10) || 0) - (parseInt(b, 10) || 0)
+    )
+  );
+
+  const aspectRatioOptions = computed(() => collectOptions(videos.value.map((v) => v.aspectRatio)));
+
+  /**
+   * Load file names for search from the upload history (and the local metadata and trash)
+   * Entries are newest first, so the latest upload of each asset wins
+   */
+  const loadFileNames = async (): Promise<void> => {
+    void loadMetadata();
+    void loadTrash();
+    try {
+      const result = await window.vidyeet.getUploadHistory();
+      if (isIpcError(result)) return;
+
+      const names = new Map<string, string>();
+      for (const entry of result.entries) {
+        if (entry.assetId && !names.has(entry.assetId)) {
+          names.set(entry.assetId, entry.fileName);
+        }
+      }
+      fileNames.value = names;
+    } catch {
+      // Search still works on asset IDs
+    }
+  };
+
+  /**
+   * Unpin videos that are not in the library (deleted on Mux or from another PC)
+   * Call only once every page is loaded: otherwise a missing pin keeps needsAllPages
+   * true and every page is loaded again on each launch
+   */
+  const dropMissingPins = async (): Promise<void> => {
+    await loadMetadata();
+    const loaded = new Set(videos.value.map((video) => video.assetId));
+    const missing = [...metadataByAsset.value.values()].filter(
+      (metadata) => metadata.pinned && !loaded.has(metadata.assetId)
+    );
+    for (const metadata of missing) {
+      await updateMetadata({ assetId: metadata.assetId, pinned: false });
+    }
+  };
+
+  /** Clear search and filters (sort order is kept) */
+  const resetFilters = (): void => {
+    const defaults = createDefaultLibraryView();
+    state.value.query = defaults.query;
+    state.value.filter = defaults.filter;
+  };
+
+  watch(
+    state,
+    (value) => {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(value));
+    },
+    { deep: true }
+  );
+
+  return {
+    state,
+    fileNames,
+    activeCollection,
+    libraryVideos,
+    collectionVideos,
+    visibleVideos,
+    activeFilterCount,
+    needsAllPages,
+    resolutionOptions,
+    aspectRatioOptions,
+    loadFileNames,
+    dropMissingPins,
+    resetFilters,
+  };
+}
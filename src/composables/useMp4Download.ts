@@ -0,0 +1,206 @@
+/**
+ * MP4 downloads
+ *
+ * Saves the processed MP4 of a video back to disk (to re-edit it).
+ * The user picks a folder, then the main process waits for Mux if the MP4
+ * is still being generated and streams it with progress.
+ * A failed download keeps its folder so that it can be retried in one click.
+ *
+ * State is shared by every caller so that the context menu, the player
+ * and the download panel show the same downloads
+ */
+import { ref, computed } from 'vue';
+import type { IpcErrorCode, Mp4DownloadProgress } from '../../electron/types/ipc';
+import { isIpcError } from '../../electron/types/ipc';
+import type { VideoItem } from '../types/app';
+
+/**
+ * State of a download
+ * - preparing: checking the MP4 status
+ * - waiting: Mux is still generating the MP4
+ */
+export type Mp4DownloadStatus = 'preparing' | 'waiting' | 'downloading' | 'done' | 'failed';
+
+export interface Mp4DownloadJob {
+  id: string;
+  assetId: string;
+  playbackId: string;
+  /** Name shown in the panel and used for the file (title or original file name) */
+  name: string;
+  directory: string;
+  status: Mp4DownloadStatus;
+  /** Seconds spent waiting for the MP4 (waiting) */
+  elapsedSecs: number;
+  bytesReceived: number;
+  totalBytes: number | null;
+  /** null while the size is unknown */
+  percent: number | null;
+  /** Saved file (done) */
+  filePath: string | null;
+  errorCode: IpcErrorCode | null;
+  error: string | null;
+}
+
+const jobs = ref<Mp4DownloadJob[]>([]);
+
+let downloadCounter = 0;
+
+function updateJob(id: string, patch: Partial<Mp4DownloadJob>): void {
+  jobs.value = jobs.value.map((job) => (job.id === id ? { ...job, ...patch } : job));
+}
+
+function applyProgress(id: string, progress: Mp4DownloadProgress): void {
+  if (progress.phase === 'waiting') {
+    updateJob(id, { status: 'waiting', elapsedSecs: progress.elapsedSecs ?? 0 });
+    return;
+  }
+  updateJob(id, {
+    status: 'downloading',
+    bytesReceived: progress.bytesReceived ?? 0,
+    totalBytes: progress.totalBytes ?? null,
+    percent: progress.percent ?? null,
+  });
+}
+
+/**
+ * Run (or re-run) a download job
+ */
+async function runJob(id: string): Promise<void> {
+  const job = jobs.value.find((item) => item.id === id);
+  if (!job) return;
+
+  updateJob(id, {
+    status: 'preparing',
+    elapsedSecs: 0,
+    bytesReceived: 0,
+    totalBytes: null,
+    percent: null,
+    errorCode: null,
+    error: null,
+  });
+
+  try {
+    const result = await window.vidyeet.downloadMp4(
+      {
+        downloadId: id,
+        assetId: job.assetId,
+        playbackId: job.playbackId,
+        directory: job.directory,
+        fileName: job.name,
+      },
+      (progress) => applyProgress(id, progress),
+    );
+    if (isIpcError(result)) {
+      if (result.code === 'DOWNLOAD_CANCELLED') {
+        jobs.value = jobs.value.filter((item) => item.id !== id);
+        return;
+      }
+      updateJob(id, { status: 'failed', errorCode: result.code, error: result.message });
+      return;
+    }
+    updateJob(id, { status: 'done', filePath: result.filePath, percent: 100 });
+  } catch (err) {
+    updateJob(id, {
+      status: 'failed',
+      errorCode: 'DOWNLOAD_ERROR',
+      error: err instanceof Error ? err.message : 'Unknown error',
+    });
+  }
+}
+
+export function useMp4Download() {
+  const error = ref<string | null>(null);
+
+  /** Downloads that are still running */
+  const activeCount = computed(
+    () => jobs.value.filter((job) => job.status !== 'done' && job.status !== 'failed').length,
+  );
+
+  /**
+   * Pick a folder and download the MP4 of a video
+   * @param name - Title or original file name (empty = the asset ID)
+   * @returns false if the video has no playback ID, the folder picker was canceled or failed
+   */
+  const startDownload = async (video: VideoItem, name: string): Promise<boolean> => {
+    error.value = null;
+    if (!video.playbackId) return false;
+
+    try {
+      const folder = await window.vidyeet.selectDownloadFolder();
+      if (isIpcError(folder)) {
+        error.value = folder.message;
+        return false;
+      }
+      if (!folder.directory) return false;
+
+      const job: Mp4DownloadJob = {
+        id: `download-${Date.now()}-${++downloadCounter}`,
+        assetId: video.assetId,
+        playbackId: video.playbackId,
+        name,
+        directory: folder.directory,
+        status: 'preparing',
+        elapsedSecs: 0,
+        bytesReceived: 0,
+        totalBytes: null,
+        percent: null,
+        filePath: null,
+        errorCode: null,
+        error: null,
+      };
+      jobs.value = [...jobs.value, job];
+      void runJob(job.id);
+      return true;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return false;
+    }
+  };
+
+  /**
+   * Download a failed job again into the same folder
+   */
+  const retry = (id: string): void => {
+    const job = jobs.value.find((item) => item.id === id);
+    if (job?.status === 'failed') {
+      void runJob(id);
+    }
+  };
+
+  /**
+   * Stop a running download (it disappears from the list once stopped)
+   */
+  const cancel = async (id: string): Promise<void> => {
+    await window.vidyeet.cancelDownload({ downloadId: id });
+  };
+
+  /**
+   * Show a saved MP4 in the file manager
+   */
+  const reveal = async (id: string): Promise<void> => {
+    const job = jobs.value.find((item) => item.id === id);
+    if (job?.filePath) {
+      await window.vidyeet.revealDownload({ filePath: job.filePath });
+    }
+  };
+
+  /**
+   * Remove a finished or failed download from the list
+   */
+  const dismiss = (id: string): void => {
+    jobs.value = jobs.value.filter(
+      (job) => job.id !== id || (job.status !== 'done' && job.status !== 'failed'),
+    );
+  };
+
+  return {
+    jobs,
+    activeCount,
+    error,
+    startDownload,
+    retry,
+    cancel,
+    reveal,
+    dismiss,
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * Player settings
+ *
+ * The volume and mute state are kept in localStorage so that every video
+ * (and the next start) plays at the level the user last chose.
+ * The playback rate is kept for the session only, so a slowed-down review
+ * does not carry over to the next start by surprise
+ */
+import { ref } from 'vue';
+import { clampVolume } from '../utils/playerControls';
+
+const VOLUME_STORAGE_KEY = 'vidyeet-player-volume';
+const MUTED_STORAGE_KEY = 'vidyeet-player-muted';
+
+function getInitialVolume(): number {
+  const stored = localStorage.getItem(VOLUME_STORAGE_KEY);
+  if (stored === null) {
+    return 1;
+  }
+  return clampVolume(parseFloat(stored));
+}
+
+const volume = ref(getInitialVolume());
+const muted = ref(localStorage.getItem(MUTED_STORAGE_KEY) === 'true');
+const playbackRate = ref(1);
+
+export function usePlayerSettings() {
+  const setVolume = (value: number): void => {
+    const clamped = clampVolume(value);
+    volume.value = clamped;
+    localStorage.setItem(VOLUME_STORAGE_KEY, String(clamped));
+  };
+
+  const setMuted = (value: boolean): void => {
+    muted.value = value;
+    localStorage.setItem(MUTED_STORAGE_KEY, String(value));
+  };
+
+  const setPlaybackRate = (value: number): void => {
+    playbackRate.value = value;
+  };
+
+  return {
+    volume,
+    muted,
+    playbackRate,
+    setVolume,
+    setMuted,
+    setPlaybackRate,
+  };
+}
@@ -10,7 +10,7 @@
  */
 
 import { ref, type Ref } from "vue";
-import type { ToastItem, ToastType } from "../types/app";
+import type { ToastAction, ToastItem, ToastType } from "../types/app";
 
 let toastIdCounter = 0;
 
@@ -18,7 +18,7 @@ export interface UseToast {
   /** トースト通知のリスト */
   toasts: Ref<ToastItem[]>;
   /** トースト通知を表示 */
-  showToast: (type: ToastType, message: string, duration?: number) => void;
+  showToast: (type: ToastType, message: string, duration?: number, action?: ToastAction) => void;
   /** トースト通知を削除 */
   removeToast: (id: number) => void;
 }
@@ -35,8 +35,9 @@ export function useToast(): UseToast {
    * @param type - 通知タイプ
    * @param message - 表示メッセージ
    * @param duration - 自動消去までの時間（ミリ秒）。デフォルトは成功3秒、エラー5秒
+   * @param action - トーストに表示するボタン（元に戻すなど）
    */
-  function showToast(type: ToastType, message: string, duration?: number) {
+  function showToast(type: ToastType, message: string, duration?: number, action?: ToastAction) {
     const defaultDuration = type === "error" ? 5000 : 3000;
     const id = ++toastIdCounter;
     const toast: ToastItem = {
@@ -44,6 +45,7 @@ export function useToast(): UseToast {
       type,
       message,
       duration: duration ?? defaultDuration,
+      ...(action && { action }),
     };
 
     // 最大3件まで保持（古いものを削除）
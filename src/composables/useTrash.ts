@@ -0,0 +1,172 @@
+/**
+ * Trash (soft-deleted videos)
+ *
+ * Deleting a video moves it to the trash: it is hidden from the library and
+ * deleted from Mux by the main process once the grace period ends
+ * (the grace period is kept in localStorage and sent with each move).
+ * Until then it can be restored from the trash view or the toast's Undo.
+ *
+ * State is shared by every caller so that the library, the delete dialog
+ * and the trash view stay in sync
+ */
+import { ref, computed } from 'vue';
+import type { TrashEntry, TrashPurgeResponse } from '../../electron/types/ipc';
+import {
+  isIpcError,
+  clampTrashGraceDays,
+  DEFAULT_TRASH_GRACE_DAYS,
+} from '../../electron/types/ipc';
+import type { VideoItem } from '../types/app';
+
+const GRACE_DAYS_STORAGE_KEY = 'vidyeet-trash-grace-days';
+
+function getInitialGraceDays(): number {
+  const stored = localStorage.getItem(GRACE_DAYS_STORAGE_KEY);
+  if (stored === null) {
+    return DEFAULT_TRASH_GRACE_DAYS;
+  }
+  return clampTrashGraceDays(parseInt(stored, 10));
+}
+
+const entries = ref<TrashEntry[]>([]);
+
+const graceDays = ref(getInitialGraceDays());
+
+/** Loaded once per session; later reads use the shared state */
+let loadPromise: Promise<void> | null = null;
+
+/** Drop assets from the loaded trash */
+function removeEntries(assetIds: string[]): void {
+  const removed = new Set(assetIds);
+  entries.value = entries.value.filter((entry) => !removed.has(entry.assetId));
+}
+
+export function useTrash() {
+  const error = ref<string | null>(null);
+
+  /** Asset IDs in the trash (hidden from the library) */
+  const trashedIds = computed(() => new Set(entries.value.map((entry) => entry.assetId)));
+
+  /**
+   * Load the trash (only the first call hits IPC unless forced)
+   */
+  const loadTrash = async (force = false): Promise<void> => {
+    if (loadPromise && !force) {
+      return loadPromise;
+    }
+
+    loadPromise = (async () => {
+      try {
+        const result = await window.vidyeet.getTrash();
+        if (isIpcError(result)) {
+          error.value = result.message;
+          loadPromise = null;
+          return;
+        }
+        entries.value = result.entries;
+      } catch (err) {
+        error.value = err instanceof Error ? err.message : 'Unknown error';
+        loadPromise = null;
+      }
+    })();
+    return loadPromise;
+  };
+
+  /**
+   * Move a video to the trash
+   * @param title - Name shown in the trash (title or original file name)
+   * @returns The trash entry, or null if it failed (see error)
+   */
+  const moveToTrash = async (video: VideoItem, title: string): Promise<TrashEntry | null> => {
+    error.value = null;
+    try {
+      const result = await window.vidyeet.moveToTrash({
+        assetId: video.assetId,
+        playbackId: video.playbackId,
+        title,
+        duration: video.duration,
+        graceDays: graceDays.value,
+      });
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+      entries.value = [...entries.value.filter((entry) => entry.assetId !== result.assetId), result];
+      return result;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  /**
+   * Take videos out of the trash (they show up in the library again)
+   * @returns Restored asset IDs, or null if it failed (see error)
+   */
+  const restore = async (assetIds: string[]): Promise<string[] | null> => {
+    error.value = null;
+    try {
+      const result = await window.vidyeet.restoreFromTrash({ assetIds });
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+      removeEntries(assetIds);
+      return result.restoredAssetIds;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  /**
+   * Delete trashed videos from Mux now
+   * Failed ones stay in the trash with their error
+   * @returns The result, or null if the call failed (see error)
+   */
+  const purge = async (assetIds: string[]): Promise<TrashPurgeResponse | null> => {
+    error.value = null;
+    try {
+      const result = await window.vidyeet.purgeTrash({ assetIds });
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+      removeEntries(result.purgedAssetIds);
+      if (result.failedAssetIds.length > 0) {
+        await loadTrash(true);
+      }
+      return result;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  /**
+   * Take deleted assets out of the loaded trash
+   * (deleted by the main process after the grace period, or by the CLI on upload)
+   */
+  const forgetTrashed = (assetIds: string[]): void => {
+    removeEntries(assetIds);
+  };
+
+  const setGraceDays = (value: number): void => {
+    const clamped = clampTrashGraceDays(value);
+    graceDays.value = clamped;
+    localStorage.setItem(GRACE_DAYS_STORAGE_KEY, String(clamped));
+  };
+
+  return {
+    entries,
+    trashedIds,
+    error,
+    loadTrash,
+    moveToTrash,
+    restore,
+    purge,
+    forgetTrashed,
+    graceDays,
+    setGraceDays,
+  };
+}
@@ -5,9 +5,12 @@
  *
  * 設計方針:
  * - 状態管理: アップロードダイアログの表示状態と進捗を管理
- * - キュー統合: useUploadQueue を内部で使用し、逐次処理を実装
+ * - キュー統合: useUploadQueue を内部で使用し、同時実行数までの並列処理を実装
  * - 進捗補間: useProgressInterpolation で滑らかな進捗表示を実現
  * - コールバック駆動: showToast, onUploadComplete で外部連携
+ * - 永続化: キューを Main プロセスに保存し、再起動後に再開を確認する
+ * - 自動再試行: ネットワーク系エラー（CLI 終了コード 3）は指数バックオフで再試行
+ * - 一時停止: アップロード中のファイルは CLI プロセスを停止し、再開時は続きから送信
  *
  * UX原則:
  * - ノンモーダル設計: ユーザーに制御を与える (NN/g)
@@ -18,15 +21,35 @@
  * @see docs/UX_PSYCHOLOGY.md
  */
 
-import { ref } from "vue";
-import type { Ref } from "vue";
+import { ref, computed, watch } from "vue";
+import type { Ref, ComputedRef } from "vue";
 import { useI18n } from "vue-i18n";
-import type { UploadProgress } from "../../electron/types/ipc";
+import type {
+  MediaProbeIssue,
+  MediaProbeResult,
+  PersistedQueueItem,
+  UploadProgress,
+  WatchFolderFile,
+} from "../../electron/types/ipc";
 import { isIpcError } from "../../electron/types/ipc";
-import type { ToastType } from "../types/app";
-import { useUploadQueue } from "./useUploadQueue";
+import type { DuplicateFile, QueueItem, ToastType } from "../types/app";
+import { useUploadQueue, createInitialProgress } from "./useUploadQueue";
+import { useUploadSettings } from "./useUploadSettings";
+import { useAssetMetadata } from "./useAssetMetadata";
+import { useCollections } from "./useCollections";
+import { useTrash } from "./useTrash";
+import {
+  shouldRetry,
+  getRetryDelayMs,
+  type RetryPolicy,
+} from "../utils/retryPolicy";
+import { classifyDuplicates } from "../utils/duplicateCheck";
+import { getMp4Url } from "../utils/muxUrls";
 import { useProgressInterpolation } from "./useProgressInterpolation";
-import type { UseUploadQueue } from "./useUploadQueue";
+import type { StopAction, UseUploadQueue } from "./useUploadQueue";
+
+/** 再試行の待ち時間の上限（バックオフが伸びすぎないように） */
+const RETRY_MAX_DELAY_MS = 5 * 60 * 1000;
 
 // Interface for Electron files with .path property
 interface ElectronFile extends File {
@@ -43,36 +66,16 @@ export interface FileWithPath {
 // Types
 // =============================================================================
 
-/** アップロードダイアログの状態 */
+/**
+ * アップロードダイアログの状態
+ *
+ * ファイルごとの進捗・エラーは QueueItem.progress / QueueItem.error に保持する
+ */
 export interface UploadDialogState {
   /** ダイアログが開いているか */
   isOpen: boolean;
   /** 最小化されているか（ノンモーダル状態） */
   isMinimized: boolean;
-  /** 現在のファイル名 */
-  fileName: string;
-  /** 現在のフェーズ */
-  phase: string;
-  /** フェーズの日本語テキスト */
-  phaseText: string;
-  /** アップロード中かどうか */
-  isUploading: boolean;
-  /** エラーメッセージ */
-  errorMessage: string | null;
-  /** 進捗率（0-100） */
-  progressPercent: number;
-  /** 現在のチャンク番号 */
-  currentChunk: number;
-  /** 総チャンク数 */
-  totalChunks: number;
-  /** 送信済みバイト数 */
-  bytesSent: number;
-  /** 総バイト数 */
-  totalBytes: number;
-  /** プログレスバーを表示するか */
-  showProgressBar: boolean;
-  /** キャンセル処理中かどうか */
-  isCancelling: boolean;
 }
 
 /** useUploadDialog のオプション */
@@ -89,12 +92,54 @@ export interface UseUploadDialog {
   uploadDialogState: Ref<UploadDialogState>;
   /** アップロードキュー */
   uploadQueue: UseUploadQueue;
+  /** 未完了のファイルがあるか（アップロード中・再試行待ち・一時停止中） */
+  isUploading: ComputedRef<boolean>;
+  /** キュー全体が一時停止中か */
+  isQueuePaused: Ref<boolean>;
+  /** 失敗したファイルがあるか */
+  hasError: ComputedRef<boolean>;
+  /** 全体の進捗率（アップロード中ファイルの平均、0-100） */
+  overallPercent: ComputedRef<number>;
+  /** 1ファイルあたりの最大試行回数（初回 + 自動再試行回数） */
+  maxAttempts: ComputedRef<number>;
+  /** 前回終了時に残っていたアイテム（再開確認待ち） */
+  pendingRestoreItems: Ref<PersistedQueueItem[]>;
+  /** 保存済みキューを読み込み、残っていれば再開確認を表示 */
+  loadSavedQueue: () => Promise<void>;
+  /** 保存済みキューをキューに戻して再開 */
+  resumeSavedQueue: () => void;
+  /** 保存済みキューを破棄 */
+  discardSavedQueue: () => void;
+  /** 監視フォルダで検出し、アップロード確認待ちのファイル */
+  pendingWatchFiles: Ref<WatchFolderFile[]>;
+  /** 監視フォルダで検出したファイルを受け取る（auto はキューへ、ask は確認待ちへ） */
+  handleWatchFolderFiles: (files: WatchFolderFile[]) => Promise<void>;
+  /** 確認待ちの検出ファイルをアップロード */
+  uploadWatchFiles: () => Promise<void>;
+  /** 確認待ちの検出ファイルを無視 */
+  dismissWatchFiles: () => void;
+  /** 重複の可能性があり、判断待ちのファイル */
+  pendingDuplicates: Ref<DuplicateFile[]>;
+  /** 重複ファイルをスキップ */
+  skipDuplicate: (filePath: string) => void;
+  /** 重複ファイルをそのままアップロード */
+  uploadDuplicateAnyway: (filePath: string) => void;
+  /** 重複ファイルをスキップし、既存アセットのリンクをコピー */
+  copyDuplicateLink: (filePath: string) => Promise<void>;
   /** 複数ファイルをキューに追加して処理開始 */
   handleMultipleFiles: (files: Array<{ name: string; path?: string }>) => Promise<void>;
   /** アップロードダイアログを閉じる */
   closeUploadDialog: () => void;
-  /** 現在アップロード中のファイルをキャンセル */
-  cancelCurrentUpload: () => Promise<void>;
+  /** アップロード中のファイルをキャンセル */
+  cancelUpload: (id: number) => Promise<void>;
+  /** ファイルを一時停止（アップロード中ならCLIプロセスを停止） */
+  pauseUpload: (id: number) => Promise<void>;
+  /** 一時停止中のファイルを再開 */
+  resumeUpload: (id: number) => void;
+  /** キュー全体を一時停止 */
+  pauseAll: () => Promise<void>;
+  /** キュー全体を再開 */
+  resumeAll: () => void;
   /** アップロードダイアログを最小化 */
   minimizeUploadDialog: () => void;
   /** アップロードダイアログを復元 */
@@ -120,6 +165,19 @@ export function useUploadDialog(
 ): UseUploadDialog {
     const { showToast, onUploadComplete } = options;
     const { t } = useI18n();
+    const {
+      concurrency,
+      maxRetries,
+      retryDelaySecs,
+      rateLimitEnabled,
+      rateLimitKbps,
+      unlimitedWhenIdle,
+      keepLatest,
+      keepDays,
+    } = useUploadSettings();
+    const { loadMetadata, resolveMetadata } = useAssetMetadata();
+    const { forgetAssets } = useCollections();
+    const { forgetTrashed } = useTrash();
 
   // ===========================================================================
   // State
@@ -129,31 +187,130 @@ export function useUploadDialog(
   const uploadDialogState = ref<UploadDialogState>({
     isOpen: false,
     isMinimized: false,
-    fileName: "",
-    phase: "",
-    phaseText: "",
-    isUploading: false,
-    errorMessage: null,
-    progressPercent: 0,
-    currentChunk: 0,
-    totalChunks: 0,
-    bytesSent: 0,
-    totalBytes: 0,
-    showProgressBar: false,
-    isCancelling: false,
   });
 
-  /** アップロードキュー */
-  const uploadQueue = useUploadQueue();
+  /** アップロードキュー（同時実行数は設定画面と共有） */
+  const uploadQueue = useUploadQueue({ concurrency });
+
+  /** 未完了のファイルがあるか（再試行待ち・一時停止中を含む） */
+  const isUploading = computed(
+    () =>
+      uploadQueue.isProcessing.value ||
+      uploadQueue.stats.value.retrying > 0 ||
+      uploadQueue.stats.value.paused > 0 ||
+      (uploadQueue.isPaused.value && uploadQueue.stats.value.waiting > 0),
+  );
+
+  /** 失敗したファイルがあるか */
+  const hasError = computed(() => uploadQueue.stats.value.error > 0);
+
+  /** 全体の進捗率 */
+  const overallPercent = computed(() => {
+    const active = uploadQueue.activeItems.value;
+    if (active.length === 0) return 0;
+    const sum = active.reduce(
+      (total, item) => total + item.progress.progressPercent,
+      0,
+    );
+    return Math.round(sum / active.length);
+  });
+
+  // 同時実行数が増えた場合は空いた枠ですぐに待機中アイテムを開始
+  watch(concurrency, () => {
+    if (uploadQueue.isProcessing.value) {
+      processUploadQueue();
+    }
+  });
+
+  // 帯域上限の変更を実行中のアップロードにも反映（Main 側で CLI を再開し直す）
+  watch([rateLimitEnabled, rateLimitKbps, unlimitedWhenIdle], () => {
+    if (!uploadQueue.isProcessing.value) return;
+    void window.vidyeet
+      .setUploadRateLimit({
+        rateLimitKbps: rateLimitEnabled.value ? rateLimitKbps.value : undefined,
+        unlimitedWhenIdle: unlimitedWhenIdle.value,
+      })
+      .catch(() => {
+        // 反映できなくても次の試行から新しい設定が使われる
+      });
+  });
+
+  /** 再試行ポリシー（設定画面の変更を即時反映） */
+  const retryPolicy = computed<RetryPolicy>(() => ({
+    maxRetries: maxRetries.value,
+    baseDelayMs: retryDelaySecs.value * 1000,
+    maxDelayMs: RETRY_MAX_DELAY_MS,
+  }));
+
+  /** 1ファイルあたりの最大試行回数 */
+  const maxAttempts = computed(() => maxRetries.value + 1);
+
+  /** 再試行待ちのタイマー（キャンセル時に解除） */
+  const retryTimers = new Map<number, ReturnType<typeof setTimeout>>();
+
+  /** アイテムごとの進捗補間クリーンアップ（キャンセル時用） */
+  const progressCleanups = new Map<number, () => void>();
+
+  /** キャンセル処理済みのアイテムID（2重処理防止用） */
+  const cancelHandledIds = new Set<number>();
+
+  /** 一時停止処理済みのアイテムID（停止したCLIの結果を無視するため） */
+  const pauseHandledIds = new Set<number>();
 
-  /** 現在アップロード中のuploadId */
-  const currentUploadId = ref<string | null>(null);
+  /** 実行中のローカル検証（アイテムID → 検証結果） */
+  const probeRequests = new Map<number, Promise<MediaProbeResult | null>>();
 
-  /** 現在の進捗補間ハンドラ（キャンセル時のクリーンアップ用） */
-  let currentProgressCleanup: (() => void) | null = null;
+  /** 前回終了時に残っていたアイテム（再開確認待ち） */
+  const pendingRestoreItems = ref<PersistedQueueItem[]>([]);
 
-  /** キャンセル処理が実行されたかどうか（2重処理防止用） */
-  let cancelHandled = false;
+  /** 監視フォルダで検出し、アップロード確認待ちのファイル */
+  const pendingWatchFiles = ref<WatchFolderFile[]>([]);
+
+  /** 重複の可能性があり、判断待ちのファイル */
+  const pendingDuplicates = ref<DuplicateFile[]>([]);
+
+  /** 保存済みキューの読み込みが完了したか（完了前に空のキューで上書きしないため） */
+  let savedQueueLoaded = false;
+
+  /**
+   * 永続化するキューの内容
+   *
+   * 再開確認待ちのアイテムも含め、ユーザーがキャンセルしたアイテムは除外する
+   */
+  const persistedItems = computed<PersistedQueueItem[]>(() => [
+    ...pendingRestoreItems.value,
+    ...uploadQueue.items.value
+      .filter(
+        (item) =>
+          item.status !== "completed" &&
+          !(item.status === "error" && cancelHandledIds.has(item.id)),
+      )
+      .map((item) => ({
+        filePath: item.filePath,
+        fileName: item.fileName,
+        status:
+          item.status === "waiting" || item.status === "error"
+            ? item.status
+            : item.status === "retrying"
+              ? ("waiting" as const)
+              : item.status === "paused" || item.status === "pausing"
+                ? ("paused" as const)
+                : ("uploading" as const),
+        error: item.error,
+        fingerprint: item.fingerprint,
+      })),
+  ]);
+
+  // キューの構成が変わるたびに保存（進捗更新では保存しない）
+  watch(
+    () =>
+      JSON.stringify(persistedItems.value) + String(uploadQueue.isPaused.value),
+    () => {
+      if (savedQueueLoaded) {
+        void saveQueue();
+      }
+    },
+  );
 
   // ===========================================================================
   // Helper Functions
@@ -172,6 +329,7 @@ export function useUploadDialog(
         file_validated: "uploadPhase.validationComplete",
         creating_direct_upload: "uploadPhase.preparing",
         direct_upload_created: "uploadPhase.prepareComplete",
+        direct_upload_resumed: "uploadPhase.resuming",
         uploading_file: "uploadPhase.uploading",
         uploading_chunk: "uploadPhase.uploading",
         file_uploaded: "uploadPhase.completed",
@@ -193,37 +351,82 @@ export function useUploadDialog(
     return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
   }
 
+  // ===========================================================================
+  // Persistence
+  // ===========================================================================
+
+  /**
+   * 現在のキューを Main プロセスに保存
+   *
+   * 保存に失敗してもアップロード自体は継続する
+   */
+  async function saveQueue() {
+    try {
+      await window.vidyeet.saveUploadQueue({
+        items: persistedItems.value,
+        isPaused: uploadQueue.isPaused.value,
+      });
+    } catch {
+      // 永続化はベストエフォート
+    }
+  }
+
   // ===========================================================================
   // Progress Handler
   // ===========================================================================
 
   /**
    * 進捗補間ハンドラを生成（アップロードごとに独立）
+   *
+   * @param item - 進捗を書き込むキューアイテム（リアクティブ）
    */
-  function createUploadProgressHandler() {
+  function createUploadProgressHandler(item: QueueItem) {
     let progressInterpolation: ReturnType<
       typeof useProgressInterpolation
     > | null = null;
 
+    /** 再開時に送信済みのバイト数（direct_upload_resumed で確定） */
+    let resumedBytes = 0;
+
     const onProgress = (progress: UploadProgress) => {
+      const state = item.progress;
+
       // Capture uploadId when first available
-      if (progress.uploadId && !currentUploadId.value) {
-        currentUploadId.value = progress.uploadId;
+      if (progress.uploadId && !item.uploadId) {
+        item.uploadId = progress.uploadId;
+
+        // uploadId が届く前に要求された一時停止・キャンセルをここで実行
+        const pendingStop = uploadQueue.takePendingStop(item.id);
+        if (pendingStop === "pause") {
+          void stopForPause(item.id, progress.uploadId);
+        } else if (pendingStop === "cancel") {
+          void stopForCancel(item.id, progress.uploadId);
+        }
+      }
+
+      // 適用中の帯域上限（試行ごとに Main 側で確定）
+      if (progress.rateLimitKbps !== undefined) {
+        state.rateLimitKbps = progress.rateLimitKbps;
       }
 
       // 進捗更新
-      uploadDialogState.value.phase = progress.phase;
-      uploadDialogState.value.phaseText = getPhaseText(progress.phase);
+      state.phase = progress.phase;
+      state.phaseText = getPhaseText(progress.phase);
+
+      // 中断したアップロードの再開: 確認済みチャンクまでは送信済みとして扱う
+      if (progress.phase === "direct_upload_resumed") {
+        resumedBytes = progress.bytesSent ?? 0;
+      }
 
       // uploading_file フェーズでプログレスバーを0%表示と補間初期化
       // CLI仕様 v1.1: uploading_file に total_chunks が含まれるようになった
       // Warmup モード: 第1chunk完了までの間だけ time-based で進捗を滑らかに表示
       // UX原則: 10秒以上の処理には percent-done indicator を使用 (NN/g)
       if (progress.phase === "uploading_file") {
-        uploadDialogState.value.showProgressBar = true;
-        uploadDialogState.value.progressPercent = 0;
-        uploadDialogState.value.totalBytes = progress.sizeBytes ?? 0;
-        uploadDialogState.value.totalChunks = progress.totalChunks ?? 0;
+        state.showProgressBar = true;
+        state.progressPercent = 0;
+        state.totalBytes = progress.sizeBytes ?? 0;
+        state.totalChunks = progress.totalChunks ?? 0;
 
         // 進捗補間を初期化（コールバックで UI を更新）
         const totalBytes = progress.sizeBytes ?? 0;
@@ -233,10 +436,9 @@ export function useUploadDialog(
             totalBytes,
             (displayBytes, displayPercent) => {
               // 補間された値で UI を更新
-              if (uploadDialogState.value.showProgressBar) {
-                uploadDialogState.value.bytesSent = Math.round(displayBytes);
-                uploadDialogState.value.progressPercent =
-                  Math.round(displayPercent);
+              if (item.progress.showProgressBar) {
+                item.progress.bytesSent = Math.round(displayBytes);
+                item.progress.progressPercent = Math.round(displayPercent);
               }
             },
           );
@@ -244,8 +446,11 @@ export function useUploadDialog(
           // アップロード開始時刻を記録
           progressInterpolation.startUpload();
 
-          // Warmup モードを初期化（total_chunks 確定時）
-          if (totalChunks > 0) {
+          if (resumedBytes > 0) {
+            // 再開時は送信済み位置から表示（第1chunkの warmup は不要）
+            progressInterpolation.updateTruth(resumedBytes);
+          } else if (totalChunks > 0) {
+            // Warmup モードを初期化（total_chunks 確定時）
             progressInterpolation.initializeWarmup(totalChunks);
           }
         }
@@ -257,18 +462,18 @@ export function useUploadDialog(
         progress.totalBytes &&
         progress.bytesSent !== undefined
       ) {
-        uploadDialogState.value.showProgressBar = true;
-        uploadDialogState.value.currentChunk = progress.currentChunk ?? 0;
-        uploadDialogState.value.totalChunks = progress.totalChunks ?? 0;
-        uploadDialogState.value.totalBytes = progress.totalBytes;
+        state.showProgressBar = true;
+        state.currentChunk = progress.currentChunk ?? 0;
+        state.totalChunks = progress.totalChunks ?? 0;
+        state.totalBytes = progress.totalBytes;
 
         // Truth（確定値）を更新（コールバックで UI が自動更新される）
         if (progressInterpolation) {
           progressInterpolation.updateTruth(progress.bytesSent);
         } else {
           // フォールバック: 補間が初期化されていない場合は直接設定
-          uploadDialogState.value.bytesSent = progress.bytesSent;
-          uploadDialogState.value.progressPercent = Math.round(
+          state.bytesSent = progress.bytesSent;
+          state.progressPercent = Math.round(
             (progress.bytesSent / progress.totalBytes) * 100,
           );
         }
@@ -280,15 +485,13 @@ export function useUploadDialog(
           progress.phase,
         )
       ) {
-        if (uploadDialogState.value.showProgressBar) {
+        if (state.showProgressBar) {
           // 補間を停止し、100% に設定
           if (progressInterpolation) {
-            progressInterpolation.updateTruth(
-              uploadDialogState.value.totalBytes,
-            );
+            progressInterpolation.updateTruth(state.totalBytes);
           }
-          uploadDialogState.value.progressPercent = 100;
-          uploadDialogState.value.bytesSent = uploadDialogState.value.totalBytes;
+          state.progressPercent = 100;
+          state.bytesSent = state.totalBytes;
         }
       }
     };
@@ -299,14 +502,6 @@ export function useUploadDialog(
         progressInterpolation.reset();
         progressInterpolation = null;
       }
-
-      // uploadDialogState の進捗フィールドをリセット
-      uploadDialogState.value.progressPercent = 0;
-      uploadDialogState.value.currentChunk = 0;
-      uploadDialogState.value.totalChunks = 0;
-      uploadDialogState.value.bytesSent = 0;
-      uploadDialogState.value.totalBytes = 0;
-      uploadDialogState.value.showProgressBar = false;
     };
 
     return { onProgress, cleanup };
@@ -318,102 +513,310 @@ export function useUploadDialog(
 
   /**
    * アップロードキューを処理
+   *
+   * 同時実行数に空きがある限り待機中のアイテムを開始し、
+   * すべて終わっていればダイアログを閉じて結果を通知する
    */
-  async function processUploadQueue() {
-    // 次のアイテムを取得
-    const item = uploadQueue.startNext();
-    if (!item) {
-      // キュー完了
-      uploadDialogState.value.isOpen = false;
+  function processUploadQueue() {
+    let item = uploadQueue.startNext();
+    while (item) {
+      void runUpload(item);
+      item = uploadQueue.startNext();
+    }
 
-      const stats = uploadQueue.stats.value;
-      if (stats.completed > 0) {
-        if (stats.error > 0) {
-          showToast(
-            "info",
-            `${stats.completed}件完了、${stats.error}件失敗しました`,
-          );
-        } else {
-          showToast(
-            "success",
-            `${stats.completed}件のアップロードが完了しました`,
-          );
-        }
+    const { waiting, retrying, paused } = uploadQueue.stats.value;
+    if (
+      uploadQueue.isProcessing.value ||
+      waiting > 0 ||
+      retrying > 0 ||
+      paused > 0
+    ) {
+      return;
+    }
+
+    // キュー完了
+    if (uploadQueue.isEmpty.value) {
+      return;
+    }
+    // 再開確認・検出ファイル・重複の確認待ちがあればダイアログは開いたままにする
+    uploadDialogState.value.isOpen = hasPendingPrompt();
+
+    const stats = uploadQueue.stats.value;
+    if (stats.completed > 0) {
+      if (stats.error > 0) {
+        showToast(
+          "info",
+          `${stats.completed}件完了、${stats.error}件失敗しました`,
+        );
+      } else {
+        showToast(
+          "success",
+          `${stats.completed}件のアップロードが完了しました`,
+        );
       }
+    }
 
-      // キューをクリア
-      uploadQueue.clear();
+    // キューをクリア
+    uploadQueue.clear();
+  }
+
+  /**
+   * 1ファイルをアップロード
+   *
+   * @param item - startNext() で uploading になったアイテム
+   */
+  async function runUpload(item: QueueItem) {
+    // ネットワーク処理の前にローカル検証の結果を待つ
+    const media = await probeItem(item.id);
+    if (media?.issue) {
+      rejectProbedItem(item, media.issue);
+      processUploadQueue();
       return;
     }
 
-      // アップロード状態を初期化
-      currentUploadId.value = null; // Reset before new upload
-      cancelHandled = false; // Reset cancel flag for new upload
-      uploadDialogState.value.fileName = item.fileName;
-      uploadDialogState.value.phase = "starting";
-      uploadDialogState.value.phaseText = t("uploadPhase.starting");
-      uploadDialogState.value.isUploading = true;
-      uploadDialogState.value.errorMessage = null;
-     uploadDialogState.value.progressPercent = 0;
-     uploadDialogState.value.currentChunk = 0;
-     uploadDialogState.value.totalChunks = 0;
-     uploadDialogState.value.bytesSent = 0;
-     uploadDialogState.value.totalBytes = 0;
-     uploadDialogState.value.showProgressBar = false;
-
-     const { onProgress, cleanup } = createUploadProgressHandler();
-     currentProgressCleanup = cleanup; // Store for potential cancellation
-
-     // アップロード実行
-     const uploadResult = await window.vidyeet.upload(
-       { filePath: item.filePath },
-       onProgress,
-     );
-
-     // Check if this upload was cancelled by user
-     // If so, skip error handling as it's already handled by cancelCurrentUpload()
-     if (cancelHandled) {
-       // Cancel handling is in progress, don't process result here
-       return;
-     }
+    // 検証中に一時停止・キャンセルされた場合は CLI を起動しない
+    const stopBeforeStart = uploadQueue.takePendingStop(item.id);
+    if (stopBeforeStart) {
+      finishStoppedUpload(item.id, stopBeforeStart);
+      processUploadQueue();
+      return;
+    }
 
-     if (isIpcError(uploadResult)) {
-       // エラー: キューに記録
-       uploadQueue.markCurrentError(uploadResult.message);
-       currentUploadId.value = null;
-       currentProgressCleanup = null;
-       uploadDialogState.value.isUploading = false;
-       uploadDialogState.value.errorMessage = uploadResult.message;
-       cleanup();
-
-        // エラートースト表示
-        showToast("error", `${item.fileName}: ${t("uploadErrors.uploadFailed")}`);
-
-       // 次のファイルを処理（少し待ってから）
-       setTimeout(() => {
-         processUploadQueue();
-       }, 1000);
-       return;
-     }
+    // アップロード状態を初期化
+    cancelHandledIds.delete(item.id);
+    pauseHandledIds.delete(item.id);
+    item.uploadId = undefined;
+    item.progress = {
+      ...createInitialProgress(),
+      phase: "starting",
+      phaseText: t("uploadPhase.starting"),
+    };
 
-      // 成功: キューに記録
-      uploadQueue.markCurrentCompleted(uploadResult.assetId);
-      currentUploadId.value = null;
-      currentProgressCleanup = null;
-      uploadDialogState.value.phase = "completed";
-      uploadDialogState.value.phaseText = `${t("uploadPhase.completed")}！`;
-      uploadDialogState.value.isUploading = false;
+    const { onProgress, cleanup } = createUploadProgressHandler(item);
+    progressCleanups.set(item.id, cleanup); // Store for potential cancellation
+
+    // アップロード実行
+    // 帯域上限は試行開始時点の設定で始め、設定やアイドル状態の変化は Main 側で反映する
+    const uploadResult = await window.vidyeet.upload(
+      {
+        filePath: item.filePath,
+        fingerprint: item.fingerprint,
+        rateLimitKbps: rateLimitEnabled.value ? rateLimitKbps.value : undefined,
+        unlimitedWhenIdle: unlimitedWhenIdle.value,
+        keepLatest: keepLatest.value,
+        keepDays: keepDays.value,
+      },
+      onProgress,
+    );
+
+    // Check if this upload was cancelled or paused by user
+    // If so, skip error handling as it's already handled by cancelUpload() / pauseUpload()
+    if (cancelHandledIds.has(item.id) || pauseHandledIds.has(item.id)) {
+      return;
+    }
 
-     // 個別リロード: 成功したファイルをすぐに一覧に追加
-     onUploadComplete();
+    progressCleanups.delete(item.id);
+    cleanup();
 
-     cleanup();
+    // uploadId が届く前に CLI が失敗・終了した場合は、要求された停止として扱う
+    const stopAfterExit = uploadQueue.takePendingStop(item.id);
+    if (stopAfterExit && isIpcError(uploadResult)) {
+      finishStoppedUpload(item.id, stopAfterExit);
+      processUploadQueue();
+      return;
+    }
 
-     // 次のファイルを処理（少し待ってから）
-     setTimeout(() => {
-       processUploadQueue();
-     }, 800);
-   }
+    if (isIpcError(uploadResult)) {
+      // ネットワーク系エラー: バックオフ後に自動再試行（枠は他のファイルに譲る）
+      if (shouldRetry(uploadResult, item.attempt, retryPolicy.value)) {
+        scheduleRetry(item, uploadResult.message);
+        processUploadQueue();
+        return;
+      }
+
+      // エラー: キューに記録
+      uploadQueue.markError(item.id, uploadResult.message);
+
+      // エラートースト表示
+      showToast("error", `${item.fileName}: ${t("uploadErrors.uploadFailed")}`);
+
+      // 次のファイルを処理（少し待ってから）
+      setTimeout(() => {
+        processUploadQueue();
+      }, 1000);
+      return;
+    }
+
+    // 成功: キューに記録
+    uploadQueue.markCompleted(item.id, uploadResult.assetId);
+    item.progress.phase = "completed";
+    item.progress.phaseText = `${t("uploadPhase.completed")}！`;
+
+    // CLI が古い動画を自動で削除した場合は、どの動画が消えたかを知らせる
+    if (uploadResult.deletedOldVideos > 0) {
+      void notifyDeletedOldVideos(uploadResult.deletedOldVideos, uploadResult.deletedAssetIds);
+    }
+
+    // 個別リロード: 成功したファイルをすぐに一覧に追加
+    onUploadComplete();
+
+    // 次のファイルを処理（少し待ってから）
+    setTimeout(() => {
+      processUploadQueue();
+    }, 800);
+  }
+
+  /**
+   * CLI が自動で削除した古い動画をトーストで知らせ、コレクション・ゴミ箱から取り除く
+   * 削除された動画はタイトル（なければ元のファイル名、アセットID）で示す
+   *
+   * @param count - 削除された数
+   * @param assetIds - 削除されたアセットID（CLI v1.6 より前は空）
+   */
+  async function notifyDeletedOldVideos(count: number, assetIds: string[]) {
+    if (assetIds.length === 0) {
+      showToast("info", t("app.toasts.oldVideosDeletedCount", { count }));
+      return;
+    }
+
+    forgetAssets(assetIds);
+    forgetTrashed(assetIds);
+    await loadMetadata();
+    const names = assetIds.map((assetId) => {
+      const metadata = resolveMetadata({ assetId, playbackId: null });
+      return metadata.title || metadata.fileName || assetId;
+    });
+    showToast("info", t("app.toasts.oldVideosDeleted", { count, names: names.join(", ") }));
+  }
+
+  /**
+   * ファイルのローカル検証（コンテナのヘッダーの読み取り）を開始
+   *
+   * 結果はアイテムの media に反映し、問題のある待機中のアイテムは
+   * ネットワーク処理の前にエラーにする。ファイルを読めない場合は CLI の検証に任せる
+   *
+   * @param id - キューアイテムのID
+   */
+  function probeItem(id: number): Promise<MediaProbeResult | null> {
+    const item = uploadQueue.getItem(id);
+    if (!item) return Promise.resolve(null);
+    if (item.media) return Promise.resolve(item.media);
+
+    const existing = probeRequests.get(id);
+    if (existing) return existing;
+
+    const request = window.vidyeet
+      .probeFile({ filePath: item.filePath })
+      .then((result) => {
+        if (isIpcError(result)) return null;
+
+        const current = uploadQueue.getItem(id);
+        if (current) {
+          current.media = result;
+          if (result.issue && current.status === "waiting") {
+            rejectProbedItem(current, result.issue);
+            processUploadQueue();
+          }
+        }
+        return result;
+      })
+      .catch(() => null)
+      .finally(() => {
+        probeRequests.delete(id);
+      });
+    probeRequests.set(id, request);
+    return request;
+  }
+
+  /**
+   * 追加したアイテムのローカル検証を開始
+   */
+  function probeItems(ids: number[]) {
+    for (const id of ids) {
+      void probeItem(id);
+    }
+  }
+
+  /**
+   * ローカル検証で問題が見つかったアイテムをエラーにする
+   */
+  function rejectProbedItem(item: QueueItem, issue: MediaProbeIssue) {
+    const message = t(`uploadErrors.probe.${issue}`);
+    uploadQueue.markError(item.id, message);
+    showToast("error", `${item.fileName}: ${message}`);
+  }
+
+  /**
+   * 失敗したアイテムを再試行待ちにし、待ち時間後に待機中へ戻す
+   *
+   * @param item - 失敗したアイテム
+   * @param error - 失敗時のエラーメッセージ
+   */
+  function scheduleRetry(item: QueueItem, error: string) {
+    const delay = getRetryDelayMs(item.attempt, retryPolicy.value);
+    uploadQueue.scheduleRetry(item.id, error, Date.now() + delay);
+
+    const timer = setTimeout(() => {
+      retryTimers.delete(item.id);
+      uploadQueue.requeue(item.id);
+      processUploadQueue();
+    }, delay);
+    retryTimers.set(item.id, timer);
+  }
+
+  /**
+   * ユーザーの判断待ちの確認（再開・検出ファイル・重複）があるか
+   */
+  function hasPendingPrompt(): boolean {
+    return (
+      pendingRestoreItems.value.length > 0 ||
+      pendingWatchFiles.value.length > 0 ||
+      pendingDuplicates.value.length > 0
+    );
+  }
+
+  /**
+   * 重複チェックをしてからキューに追加
+   *
+   * 重複がないファイルはそのまま追加し、キュー内・過去のアップロードと
+   * 同じ内容のファイルは判断待ちにする。チェックに失敗した場合はすべて追加する
+   */
+  async function enqueueWithDuplicateCheck(
+    files: { filePath: string; fileName: string }[],
+  ): Promise<void> {
+    let unique: { filePath: string; fileName: string; fingerprint?: string }[] =
+      files;
+    let duplicates: DuplicateFile[] = [];
+
+    try {
+      const result = await window.vidyeet.findDuplicateUploads({
+        filePaths: files.map((file) => file.filePath),
+      });
+      if (!isIpcError(result)) {
+        ({ unique, duplicates } = classifyDuplicates(
+          files,
+          result.results,
+          [
+            ...uploadQueue.items.value,
+            ...pendingDuplicates.value.map((file) => ({
+              fingerprint: file.fingerprint,
+            })),
+          ],
+        ));
+      }
+    } catch {
+      // チェックできない場合は重複なしとして扱う
+    }
+
+    if (unique.length > 0) {
+      probeItems(uploadQueue.enqueue(unique));
+    }
+    if (duplicates.length > 0) {
+      pendingDuplicates.value = [...pendingDuplicates.value, ...duplicates];
+      uploadDialogState.value.isOpen = true;
+      uploadDialogState.value.isMinimized = false;
+    }
+  }
 
   // ===========================================================================
   // Public API
@@ -441,104 +844,427 @@ export function useUploadDialog(
        return;
      }
 
-     // キューに追加
-     uploadQueue.enqueue(fileItems);
-
      // ダイアログを開く
      uploadDialogState.value.isOpen = true;
      uploadDialogState.value.isMinimized = false;
 
-     // キューが処理中でなければ開始
-     if (!uploadQueue.isProcessing.value) {
-       await processUploadQueue();
-     }
+     // 重複チェックしてキューに追加
+     await enqueueWithDuplicateCheck(fileItems);
+
+     // 空きがあれば開始（同時実行数は startNext が制御）
+     processUploadQueue();
    }
 
   /**
    * アップロードダイアログを閉じる
    *
-   * エラー後にダイアログを閉じる際、進捗データをリセットして
-   * 次回アップロード時に前回の進捗が残らないようにする
+   * アップロード中のファイルがない場合のみ閉じ、キューをクリアする
    */
   function closeUploadDialog() {
-    if (!uploadDialogState.value.isUploading) {
+    if (!isUploading.value) {
       uploadDialogState.value.isOpen = false;
       uploadDialogState.value.isMinimized = false;
 
-      // 進捗データをリセット（防御的プログラミング）
-      uploadDialogState.value.progressPercent = 0;
-      uploadDialogState.value.currentChunk = 0;
-      uploadDialogState.value.totalChunks = 0;
-      uploadDialogState.value.bytesSent = 0;
-      uploadDialogState.value.totalBytes = 0;
-      uploadDialogState.value.showProgressBar = false;
-      uploadDialogState.value.errorMessage = null;
-      uploadDialogState.value.phase = "";
-      uploadDialogState.value.phaseText = "";
-
       // キューもクリア
       uploadQueue.clear();
     }
   }
 
   /**
-   * Cancel the currently uploading file
+   * Cancel an uploading file
+   *
+   * @param id - キューアイテムのID
    */
-  async function cancelCurrentUpload(): Promise<void> {
-    if (!currentUploadId.value) {
+  async function cancelUpload(id: number): Promise<void> {
+    const item = uploadQueue.getItem(id);
+    if (item?.status !== "uploading") {
       return;
     }
 
-    const uploadIdToCancel = currentUploadId.value;
-    
+    // CLI がまだ uploadId を返していない: 受け取った時点でキャンセルする
+    if (!item.uploadId) {
+      uploadQueue.deferStop(id, "cancel");
+      return;
+    }
+
+    await stopForCancel(id, item.uploadId);
+  }
+
+  /**
+   * アップロード中の CLI プロセスを停止してキャンセル扱いにする
+   *
+   * @param id - キューアイテムのID
+   * @param uploadIdToCancel - 停止するアップロードのID
+   */
+  async function stopForCancel(id: number, uploadIdToCancel: string): Promise<void> {
     // Set cancelling state immediately (Doherty Threshold: <100ms feedback)
-    uploadDialogState.value.isCancelling = true;
-    uploadQueue.updateCurrentStatus("cancelling");
-    cancelHandled = true; // Mark that cancel has been handled to prevent double processing
+    uploadQueue.updateStatus(id, "cancelling");
+    cancelHandledIds.add(id); // Mark that cancel has been handled to prevent double processing
 
     try {
       // Call IPC to kill CLI process
       const result = await window.vidyeet.cancelUpload(uploadIdToCancel);
-      
-        if (result.success) {
-          // Mark as error with neutral message
-          uploadQueue.markCurrentError(t("uploadErrors.cancelled"));
-          
-          // Show toast notification
-          showToast("info", t("uploadErrors.cancelSuccess"));
-         
-         // Clean up state
-         currentUploadId.value = null;
-         uploadDialogState.value.isCancelling = false;
-         uploadDialogState.value.isUploading = false;
-         
-         // Clean up progress interpolation if exists
-         if (currentProgressCleanup) {
-           currentProgressCleanup();
-           currentProgressCleanup = null;
-         }
-         
-         // Continue to next item in queue
-         setTimeout(() => {
-           processUploadQueue();
-         }, 500);
-       } else {
-         // Upload already completed/not found
-         uploadDialogState.value.isCancelling = false;
-         cancelHandled = false; // Reset flag if cancel failed
-       }
-      } catch (error) {
-        showToast("error", t("uploadErrors.cancelFailed"));
-        uploadDialogState.value.isCancelling = false;
-        cancelHandled = false; // Reset flag if cancel failed
+
+      if (result.success) {
+        // Mark as error with neutral message
+        uploadQueue.markError(id, t("uploadErrors.cancelled"));
+
+        // Show toast notification
+        showToast("info", t("uploadErrors.cancelSuccess"));
+
+        // Clean up progress interpolation if exists
+        progressCleanups.get(id)?.();
+        progressCleanups.delete(id);
+
+        // Continue to next item in queue
+        setTimeout(() => {
+          processUploadQueue();
+        }, 500);
+      } else {
+        // Upload already completed/not found
+        uploadQueue.updateStatus(id, "uploading");
+        cancelHandledIds.delete(id); // Reset flag if cancel failed
       }
+    } catch (error) {
+      showToast("error", t("uploadErrors.cancelFailed"));
+      uploadQueue.updateStatus(id, "uploading");
+      cancelHandledIds.delete(id); // Reset flag if cancel failed
+    }
+  }
+
+  /**
+   * ファイルを一時停止
+   *
+   * 待機中・再試行待ちはそのまま一時停止にし、アップロード中は CLI プロセスを停止する
+   * Main 側の再開記録は残るため、再開時は最後に確認されたチャンクから送信される
+   *
+   * @param id - キューアイテムのID
+   */
+  async function pauseUpload(id: number): Promise<void> {
+    const item = uploadQueue.getItem(id);
+    if (!item) return;
+
+    if (item.status === "waiting" || item.status === "retrying") {
+      clearRetryTimer(id);
+      uploadQueue.pause(id);
+      return;
+    }
+
+    if (item.status !== "uploading") {
+      return;
+    }
+
+    // CLI がまだ uploadId を返していない: 受け取った時点で一時停止する
+    if (!item.uploadId) {
+      uploadQueue.deferStop(id, "pause");
+      return;
+    }
+
+    await stopForPause(id, item.uploadId);
+  }
+
+  /**
+   * アップロード中の CLI プロセスを停止して一時停止にする
+   *
+   * @param id - キューアイテムのID
+   * @param uploadId - 停止するアップロードのID
+   */
+  async function stopForPause(id: number, uploadId: string): Promise<void> {
+    // Set pausing state immediately (Doherty Threshold: <100ms feedback)
+    uploadQueue.updateStatus(id, "pausing");
+    pauseHandledIds.add(id);
+
+    try {
+      const result = await window.vidyeet.cancelUpload(uploadId);
+
+      if (result.success) {
+        progressCleanups.get(id)?.();
+        progressCleanups.delete(id);
+        uploadQueue.markPaused(id);
+
+        // 空いた枠で次のファイルを処理
+        processUploadQueue();
+      } else {
+        // Upload already completed/not found
+        uploadQueue.updateStatus(id, "uploading");
+        pauseHandledIds.delete(id);
+      }
+    } catch {
+      uploadQueue.updateStatus(id, "uploading");
+      pauseHandledIds.delete(id);
+    }
+  }
+
+  /**
+   * CLI を停止せずに済んだ一時停止・キャンセル要求を反映
+   * （CLI の起動前、または uploadId が届く前に CLI が終了した場合）
+   *
+   * @param id - キューアイテムのID
+   * @param action - 要求された操作
+   */
+  function finishStoppedUpload(id: number, action: StopAction) {
+    progressCleanups.get(id)?.();
+    progressCleanups.delete(id);
+
+    if (action === "pause") {
+      uploadQueue.markPaused(id);
+      return;
+    }
+
+    cancelHandledIds.add(id);
+    uploadQueue.markError(id, t("uploadErrors.cancelled"));
+    showToast("info", t("uploadErrors.cancelSuccess"));
+  }
+
+  /**
+   * 一時停止中のファイルを再開
+   *
+   * @param id - キューアイテムのID
+   */
+  function resumeUpload(id: number) {
+    uploadQueue.resume(id);
+    processUploadQueue();
+  }
+
+  /**
+   * キュー全体を一時停止
+   *
+   * 新しいファイルを開始せず、アップロード中・再試行待ちのファイルも一時停止する
+   * UX原則: 配信開始時などに帯域をすぐに取り戻せるようにする
+   */
+  async function pauseAll(): Promise<void> {
+    uploadQueue.pauseAll();
+
+    const targets = uploadQueue.items.value
+      .filter(
+        (item) => item.status === "uploading" || item.status === "retrying",
+      )
+      .map((item) => item.id);
+    await Promise.all(targets.map((id) => pauseUpload(id)));
+  }
+
+  /**
+   * キュー全体を再開
+   */
+  function resumeAll() {
+    uploadQueue.resumeAll();
+    processUploadQueue();
+  }
+
+  /**
+   * 再試行待ちのタイマーを解除
+   */
+  function clearRetryTimer(id: number) {
+    const timer = retryTimers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      retryTimers.delete(id);
+    }
   }
 
   /**
    * キュー内のアイテムをキャンセル
    */
   function cancelQueueItem(id: number) {
+    clearRetryTimer(id);
     uploadQueue.cancel(id);
+    processUploadQueue();
+  }
+
+  /**
+   * 保存済みキューを読み込む
+   *
+   * 前回終了時（終了・クラッシュ・自動更新）に残っていたアイテムがあれば
+   * ダイアログを開いて再開を確認する
+   */
+  async function loadSavedQueue(): Promise<void> {
+    try {
+      const result = await window.vidyeet.getUploadQueue();
+      if (!isIpcError(result) && result.items.length > 0) {
+        pendingRestoreItems.value = result.items;
+        // 一時停止したまま終了した場合は、再開後も一時停止を保つ
+        if (result.isPaused) {
+          uploadQueue.pauseAll();
+        }
+        uploadDialogState.value.isOpen = true;
+        uploadDialogState.value.isMinimized = false;
+      }
+    } catch {
+      // 読み込めない場合は空のキューから開始
+    } finally {
+      savedQueueLoaded = true;
+      // 読み込み中に追加されたファイルや、存在しないファイルの除外を反映
+      void saveQueue();
+    }
+  }
+
+  /**
+   * 保存済みキューをキューに戻して再開
+   *
+   * 前回アップロード中・失敗だったアイテムもアップロードし直す（再開の記録があれば最後に確認されたチャンクから続ける）
+   * 個別に一時停止していたアイテムは一時停止のまま戻す
+   */
+  function resumeSavedQueue() {
+    const items = pendingRestoreItems.value;
+    if (items.length === 0) return;
+
+    pendingRestoreItems.value = [];
+    probeItems(uploadQueue.restore(items));
+
+    uploadDialogState.value.isOpen = true;
+    uploadDialogState.value.isMinimized = false;
+    processUploadQueue();
+  }
+
+  /**
+   * 保存済みキューを破棄
+   */
+  function discardSavedQueue() {
+    pendingRestoreItems.value = [];
+    if (uploadQueue.isEmpty.value) {
+      // 破棄したキューの一時停止を新しいアップロードに持ち越さない
+      uploadQueue.resumeAll();
+    }
+    if (uploadQueue.isEmpty.value && !hasPendingPrompt()) {
+      uploadDialogState.value.isOpen = false;
+    }
+  }
+
+  /**
+   * 監視フォルダで検出したファイルを受け取る
+   *
+   * 自動アップロードのフォルダはそのままキューへ追加し、
+   * 確認するフォルダはダイアログに確認を表示する
+   * キュー内・確認待ちに同じファイルがあれば追加しない
+   */
+  async function handleWatchFolderFiles(files: WatchFolderFile[]): Promise<void> {
+    const known = new Set([
+      ...uploadQueue.items.value
+        .filter((item) => item.status !== "completed")
+        .map((item) => item.filePath),
+      ...pendingWatchFiles.value.map((file) => file.filePath),
+    ]);
+    const newFiles = files.filter((file) => !known.has(file.filePath));
+    if (newFiles.length === 0) return;
+
+    const autoFiles = newFiles.filter((file) => file.mode === "auto");
+    const askFiles = newFiles.filter((file) => file.mode === "ask");
+
+    if (askFiles.length > 0) {
+      pendingWatchFiles.value = [...pendingWatchFiles.value, ...askFiles];
+      uploadDialogState.value.isOpen = true;
+      uploadDialogState.value.isMinimized = false;
+    }
+
+    if (autoFiles.length > 0) {
+      // 自動アップロードは最小化中ならそのまま裏で進める
+      uploadDialogState.value.isOpen = true;
+      await enqueueWithDuplicateCheck(
+        autoFiles.map((file) => ({
+          filePath: file.filePath,
+          fileName: file.fileName,
+        })),
+      );
+      processUploadQueue();
+    }
+  }
+
+  /**
+   * 確認待ちの検出ファイルをアップロード
+   */
+  async function uploadWatchFiles(): Promise<void> {
+    const files = pendingWatchFiles.value;
+    if (files.length === 0) return;
+
+    pendingWatchFiles.value = [];
+    await enqueueWithDuplicateCheck(
+      files.map((file) => ({
+        filePath: file.filePath,
+        fileName: file.fileName,
+      })),
+    );
+    processUploadQueue();
+  }
+
+  /**
+   * 確認待ちの検出ファイルを無視
+   */
+  function dismissWatchFiles() {
+    pendingWatchFiles.value = [];
+    if (uploadQueue.isEmpty.value && !hasPendingPrompt()) {
+      uploadDialogState.value.isOpen = false;
+    }
+  }
+
+  /**
+   * 判断待ちの重複ファイルを取り除く
+   */
+  function takeDuplicate(filePath: string): DuplicateFile | undefined {
+    const file = pendingDuplicates.value.find((f) => f.filePath === filePath);
+    if (!file) return undefined;
+
+    pendingDuplicates.value = pendingDuplicates.value.filter(
+      (f) => f.filePath !== filePath,
+    );
+    if (uploadQueue.isEmpty.value && !hasPendingPrompt()) {
+      uploadDialogState.value.isOpen = false;
+    }
+    return file;
+  }
+
+  /**
+   * 重複ファイルをスキップ
+   */
+  function skipDuplicate(filePath: string) {
+    takeDuplicate(filePath);
+  }
+
+  /**
+   * 重複ファイルをそのままアップロード
+   */
+  function uploadDuplicateAnyway(filePath: string) {
+    const file = takeDuplicate(filePath);
+    if (!file) return;
+
+    uploadDialogState.value.isOpen = true;
+    probeItems(
+      uploadQueue.enqueue([
+        {
+          filePath: file.filePath,
+          fileName: file.fileName,
+          fingerprint: file.fingerprint,
+        },
+      ]),
+    );
+    processUploadQueue();
+  }
+
+  /**
+   * 既存アセットのリンク（MP4）をコピーし、重複ファイルはアップロードしない
+   *
+   * 既存アセットが削除済み・準備中でリンクを作れない場合は判断待ちのまま残す
+   */
+  async function copyDuplicateLink(filePath: string): Promise<void> {
+    const file = pendingDuplicates.value.find((f) => f.filePath === filePath);
+    if (!file?.existingAssetId) return;
+
+    try {
+      const result = await window.vidyeet.list();
+      const asset = isIpcError(result)
+        ? undefined
+        : result.items.find((item) => item.assetId === file.existingAssetId);
+
+      if (!asset?.playbackId) {
+        showToast("error", t("app.upload.duplicateLinkUnavailable"));
+        return;
+      }
+
+      await window.clipboard.writeText(getMp4Url(asset.playbackId));
+      showToast("success", t("app.toasts.linkCopied"));
+      skipDuplicate(filePath);
+    } catch {
+      showToast("error", t("app.upload.duplicateLinkUnavailable"));
+    }
   }
 
   /**
@@ -563,9 +1289,30 @@ export function useUploadDialog(
   return {
     uploadDialogState,
     uploadQueue,
+    isUploading,
+    isQueuePaused: uploadQueue.isPaused,
+    hasError,
+    overallPercent,
+    maxAttempts,
+    pendingRestoreItems,
+    loadSavedQueue,
+    resumeSavedQueue,
+    discardSavedQueue,
+    pendingWatchFiles,
+    handleWatchFolderFiles,
+    uploadWatchFiles,
+    dismissWatchFiles,
+    pendingDuplicates,
+    skipDuplicate,
+    uploadDuplicateAnyway,
+    copyDuplicateLink,
     handleMultipleFiles,
     closeUploadDialog,
-    cancelCurrentUpload,
+    cancelUpload,
+    pauseUpload,
+    resumeUpload,
+    pauseAll,
+    resumeAll,
     minimizeUploadDialog,
     restoreUploadDialog,
     cancelQueueItem,
@@ -0,0 +1,93 @@
+/** Upload history composable */
+import { ref, computed } from 'vue';
+import type {
+  UploadHistoryEntry,
+  UploadHistoryExportFormat,
+} from '../../electron/types/ipc';
+import { isIpcError } from '../../electron/types/ipc';
+
+export function useUploadHistory() {
+  const entries = ref<UploadHistoryEntry[]>([]);
+  const query = ref<string>('');
+  const isLoading = ref<boolean>(false);
+  const error = ref<string | null>(null);
+
+  /**
+   * Load history entries matching the current query
+   * Sets error message if loading fails
+   */
+  const loadHistory = async (): Promise<void> => {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.getUploadHistory({ query: query.value });
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+
+      entries.value = result.entries;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Export the whole history (not only search results)
+   * @returns Saved file path, or null if the dialog was cancelled or failed
+   */
+  const exportHistory = async (format: UploadHistoryExportFormat): Promise<string | null> => {
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.exportUploadHistory({ format });
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return null;
+      }
+
+      return result.filePath;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+      return null;
+    }
+  };
+
+  /**
+   * Remove all history entries
+   */
+  const clearHistory = async (): Promise<void> => {
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.clearUploadHistory();
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+
+      entries.value = [];
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    }
+  };
+
+  const hasError = computed(() => error.value !== null);
+
+  return {
+    entries,
+    query,
+    isLoading,
+    error,
+    hasError,
+    loadHistory,
+    exportHistory,
+    clearHistory,
+  };
+}
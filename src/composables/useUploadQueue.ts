@@ -1,45 +1,112 @@
 /**
  * アップロードキュー管理
  *
- * 複数ファイルの逐次アップロードを管理するcomposable
+ * 複数ファイルの並列アップロードを管理するcomposable
  *
  * 設計方針:
- * - 逐次実行: 1つずつアップロードを処理（並列実行なし）
- * - エラー継続: 1ファイル失敗しても次のファイルを処理
+ * - 並列実行: 同時実行数（concurrency）まで待機中アイテムを開始する
+ * - エラー継続: 1ファイル失敗しても他のファイルを処理
+ * - 自動再試行: 再試行待ちのアイテムは枠を占有せず、時刻到来で待機に戻す
+ * - 一時停止: アイテム単位（paused）とキュー全体（isPaused）の2段階
  * - 個別リロード: 各ファイル成功時に一覧を更新
- * - 状態管理: Reactiveな状態でUIと連携
+ * - 状態管理: Reactiveな状態でUIと連携（進捗・エラーはアイテムごとに保持）
  *
  * CLI と GUI の責務分離は docs/README.md、CLI_CONTRACT.md 参照
  */
 
 import { ref, computed, type Ref, type ComputedRef } from "vue";
-import type { QueueItem, QueueStats, QueueItemStatus } from "../types/app";
+import type {
+  QueueItem,
+  QueueItemProgress,
+  QueueStats,
+  QueueItemStatus,
+} from "../types/app";
+import type { PersistedQueueItem } from "../../electron/types/ipc";
 
 let queueItemIdCounter = 0;
 
+/** アップロード中とみなすステータス */
+const ACTIVE_STATUSES: QueueItemStatus[] = [
+  "uploading",
+  "pausing",
+  "cancelling",
+];
+
+/**
+ * 初期状態の進捗を生成
+ */
+export function createInitialProgress(): QueueItemProgress {
+  return {
+    phase: "",
+    phaseText: "",
+    progressPercent: 0,
+    currentChunk: 0,
+    totalChunks: 0,
+    bytesSent: 0,
+    totalBytes: 0,
+    showProgressBar: false,
+  };
+}
+
+/** アップロード中のアイテムの停止操作 */
+export type StopAction = "pause" | "cancel";
+
+export interface UseUploadQueueOptions {
+  /** 同時アップロード数（未指定時は1 = 逐次実行） */
+  concurrency?: Ref<number>;
+}
+
 export interface UseUploadQueue {
   /** キューアイテムのリスト */
   items: Ref<QueueItem[]>;
-  /** 現在アップロード中のアイテム */
-  currentItem: Ref<QueueItem | null>;
+  /** 現在アップロード中のアイテム（一時停止・キャンセル処理中を含む） */
+  activeItems: ComputedRef<QueueItem[]>;
   /** キューの統計情報 */
   stats: ComputedRef<QueueStats>;
   /** キューが空かどうか */
   isEmpty: ComputedRef<boolean>;
   /** キューが実行中かどうか */
-  isProcessing: Ref<boolean>;
-
-  /** ファイルをキューに追加 */
-  enqueue(files: { filePath: string; fileName: string }[]): void;
-  /** 現在のアイテムのステータスを更新 */
-  updateCurrentStatus(status: QueueItemStatus): void;
-  /** 現在のアイテムをエラー状態にする */
-  markCurrentError(error: string): void;
-  /** 現在のアイテムを完了状態にする */
-  markCurrentCompleted(assetId: string): void;
-  /** 次のアイテムを取得して処理開始 */
+  isProcessing: ComputedRef<boolean>;
+  /** 同時アップロード数 */
+  concurrency: Ref<number>;
+  /** キュー全体が一時停止中か（新しいアイテムを開始しない） */
+  isPaused: Ref<boolean>;
+
+  /** ファイルをキューに追加（追加したアイテムのIDを返す） */
+  enqueue(
+    files: { filePath: string; fileName: string; fingerprint?: string }[],
+  ): number[];
+  /** 保存済みキューのアイテムを戻す（一時停止していたものは一時停止のまま） */
+  restore(saved: PersistedQueueItem[]): number[];
+  /** アイテムを取得 */
+  getItem(id: number): QueueItem | undefined;
+  /** アイテムのステータスを更新 */
+  updateStatus(id: number, status: QueueItemStatus): void;
+  /** アイテムをエラー状態にする */
+  markError(id: number, error: string): void;
+  /** アイテムを完了状態にする */
+  markCompleted(id: number, assetId: string): void;
+  /** アイテムを再試行待ちにする */
+  scheduleRetry(id: number, error: string, retryAt: number): void;
+  /** 再試行待ちのアイテムを待機中に戻す */
+  requeue(id: number): void;
+  /** 待機中・再試行待ちのアイテムを一時停止 */
+  pause(id: number): void;
+  /** アップロード中だったアイテムを一時停止状態にする（CLIプロセス停止後） */
+  markPaused(id: number): void;
+  /** uploadId が届く前のアイテムの停止要求を記録 */
+  deferStop(id: number, action: StopAction): void;
+  /** 記録された停止要求を取り出す */
+  takePendingStop(id: number): StopAction | null;
+  /** 一時停止中のアイテムを待機中に戻す */
+  resume(id: number): void;
+  /** キュー全体を一時停止 */
+  pauseAll(): void;
+  /** キュー全体と一時停止中のアイテムを再開 */
+  resumeAll(): void;
+  /** 空きがあれば次のアイテムを取得して処理開始 */
   startNext(): QueueItem | null;
-  /** 特定のアイテムをキャンセル（待機中のみ） */
+  /** 特定のアイテムをキャンセル（待機中・再試行待ち・一時停止中のみ） */
   cancel(id: number): void;
   /** キューをクリア */
   clear(): void;
@@ -48,22 +115,38 @@ export interface UseUploadQueue {
 /**
  * アップロードキュー管理のcomposable
  */
-export function useUploadQueue(): UseUploadQueue {
+export function useUploadQueue(
+  options: UseUploadQueueOptions = {},
+): UseUploadQueue {
   // キューアイテムのリスト
   const items = ref<QueueItem[]>([]);
 
+  // 同時アップロード数
+  const concurrency = options.concurrency ?? ref(1);
+
+  // キュー全体の一時停止
+  const isPaused = ref(false);
+
+  // uploadId が届く前に要求された停止（CLI プロセスを特定できないため後で実行する）
+  const pendingStops = new Map<number, StopAction>();
+
   // 現在アップロード中のアイテム
-  const currentItem = ref<QueueItem | null>(null);
+  const activeItems = computed(() =>
+    items.value.filter((item) => ACTIVE_STATUSES.includes(item.status)),
+  );
 
   // キューが実行中かどうか
-  const isProcessing = ref(false);
+  const isProcessing = computed(() => activeItems.value.length > 0);
 
   // キューの統計情報
   const stats = computed<QueueStats>(() => {
     const total = items.value.length;
     const waiting = items.value.filter((item) => item.status === "waiting")
       .length;
-    const uploading = items.value.filter((item) => item.status === "uploading")
+    const uploading = activeItems.value.length;
+    const retrying = items.value.filter((item) => item.status === "retrying")
+      .length;
+    const paused = items.value.filter((item) => item.status === "paused")
       .length;
     const completed = items.value.filter((item) => item.status === "completed")
       .length;
@@ -73,6 +156,8 @@ export function useUploadQueue(): UseUploadQueue {
       total,
       waiting,
       uploading,
+      paused,
+      retrying,
       completed,
       error,
     };
@@ -84,90 +169,261 @@ export function useUploadQueue(): UseUploadQueue {
   /**
    * ファイルをキューに追加
    *
-   * @param files - 追加するファイル情報の配列
+   * @param files - 追加するファイル情報の配列（フィンガープリントは重複チェック済みの場合のみ）
+   * @returns 追加したアイテムのID
    */
-  function enqueue(files: { filePath: string; fileName: string }[]): void {
+  function enqueue(
+    files: { filePath: string; fileName: string; fingerprint?: string }[],
+  ): number[] {
     const newItems: QueueItem[] = files.map((file) => ({
       id: ++queueItemIdCounter,
       filePath: file.filePath,
       fileName: file.fileName,
       status: "waiting",
+      attempt: 1,
+      fingerprint: file.fingerprint,
+      progress: createInitialProgress(),
     }));
 
     items.value.push(...newItems);
+    return newItems.map((item) => item.id);
   }
 
   /**
-   * 現在のアイテムのステータスを更新
+   * 保存済みキューのアイテムを戻す
    *
-   * @param status - 新しいステータス
+   * 個別に一時停止していたアイテムは一時停止のまま、それ以外は待機中にする
+   * （アップロード中・失敗だったアイテムも、再開の記録があれば続きから送信される）
+   *
+   * @param saved - 前回終了時に保存したアイテム
+   * @returns 追加したアイテムのID
    */
-  function updateCurrentStatus(status: QueueItemStatus): void {
-    if (!currentItem.value) return;
+  function restore(saved: PersistedQueueItem[]): number[] {
+    const ids = enqueue(
+      saved.map((item) => ({
+        filePath: item.filePath,
+        fileName: item.fileName,
+        fingerprint: item.fingerprint,
+      })),
+    );
+    ids.forEach((id, index) => {
+      if (saved[index].status === "paused") {
+        pause(id);
+      }
+    });
+    return ids;
+  }
 
-    const item = items.value.find((i) => i.id === currentItem.value!.id);
+  /**
+   * アイテムを取得
+   *
+   * 返されるアイテムはリアクティブなため、直接変更してもUIに反映される
+   *
+   * @param id - アイテムのID
+   */
+  function getItem(id: number): QueueItem | undefined {
+    return items.value.find((item) => item.id === id);
+  }
+
+  /**
+   * アイテムのステータスを更新
+   *
+   * @param id - アイテムのID
+   * @param status - 新しいステータス
+   */
+  function updateStatus(id: number, status: QueueItemStatus): void {
+    const item = getItem(id);
     if (item) {
       item.status = status;
     }
-    currentItem.value.status = status;
   }
 
   /**
-   * 現在のアイテムをエラー状態にする
+   * アイテムをエラー状態にする
    *
+   * @param id - アイテムのID
    * @param error - エラーメッセージ
    */
-  function markCurrentError(error: string): void {
-    if (!currentItem.value) return;
-
-    const item = items.value.find((i) => i.id === currentItem.value!.id);
-    if (item) {
-      item.status = "error";
-      item.error = error;
-    }
+  function markError(id: number, error: string): void {
+    const item = getItem(id);
+    if (!item) return;
 
-    currentItem.value.status = "error";
-    currentItem.value.error = error;
-    currentItem.value = null;
+    item.status = "error";
+    item.error = error;
+    item.uploadId = undefined;
   }
 
   /**
-   * 現在のアイテムを完了状態にする
+   * アイテムを完了状態にする
    *
+   * @param id - アイテムのID
    * @param assetId - アップロード完了後のアセットID
    */
-  function markCurrentCompleted(assetId: string): void {
-    if (!currentItem.value) return;
+  function markCompleted(id: number, assetId: string): void {
+    const item = getItem(id);
+    if (!item) return;
 
-    const item = items.value.find((i) => i.id === currentItem.value!.id);
-    if (item) {
-      item.status = "completed";
-      item.assetId = assetId;
+    item.status = "completed";
+    item.assetId = assetId;
+    item.uploadId = undefined;
+  }
+
+  /**
+   * アイテムを再試行待ちにする
+   *
+   * 試行回数を1つ進め、アップロード枠を解放する
+   *
+   * @param id - アイテムのID
+   * @param error - 直前の試行のエラーメッセージ
+   * @param retryAt - 再試行予定時刻（Unix ms）
+   */
+  function scheduleRetry(id: number, error: string, retryAt: number): void {
+    const item = getItem(id);
+    if (!item) return;
+
+    item.status = "retrying";
+    item.error = error;
+    item.attempt += 1;
+    item.retryAt = retryAt;
+    item.uploadId = undefined;
+  }
+
+  /**
+   * 再試行待ちのアイテムを待機中に戻す
+   *
+   * キュー内の位置は変わらないため、空きができ次第優先して開始される
+   *
+   * @param id - アイテムのID
+   */
+  function requeue(id: number): void {
+    const item = getItem(id);
+    if (!item || item.status !== "retrying") return;
+
+    item.status = "waiting";
+    item.retryAt = undefined;
+  }
+
+  /**
+   * 待機中・再試行待ちのアイテムを一時停止
+   *
+   * アップロード中のアイテムは CLI プロセス停止後に markPaused() で一時停止にする
+   *
+   * @param id - アイテムのID
+   */
+  function pause(id: number): void {
+    const item = getItem(id);
+    if (!item || (item.status !== "waiting" && item.status !== "retrying")) {
+      return;
     }
 
-    currentItem.value.status = "completed";
-    currentItem.value.assetId = assetId;
-    currentItem.value = null;
+    item.status = "paused";
+    item.retryAt = undefined;
+  }
+
+  /**
+   * アップロード中だったアイテムを一時停止状態にする
+   *
+   * 進捗表示は残し、再開時に startNext() でリセットする
+   *
+   * @param id - アイテムのID
+   */
+  function markPaused(id: number): void {
+    const item = getItem(id);
+    if (!item) return;
+
+    item.status = "paused";
+    item.uploadId = undefined;
+    item.retryAt = undefined;
+  }
+
+  /**
+   * uploadId が届く前のアイテムの停止要求を記録
+   *
+   * すぐに pausing / cancelling にして操作を受け付けたことを示し、
+   * 呼び出し側は uploadId の受信時（またはアップロード終了時）に takePendingStop() で取り出す
+   *
+   * @param id - アップロード中のアイテムのID
+   * @param action - 一時停止またはキャンセル
+   */
+  function deferStop(id: number, action: StopAction): void {
+    const item = getItem(id);
+    if (!item || item.status !== "uploading") return;
+
+    pendingStops.set(id, action);
+    item.status = action === "pause" ? "pausing" : "cancelling";
+  }
+
+  /**
+   * 記録された停止要求を取り出す
+   *
+   * @returns 停止要求、なければ null
+   */
+  function takePendingStop(id: number): StopAction | null {
+    const action = pendingStops.get(id) ?? null;
+    pendingStops.delete(id);
+    return action;
+  }
+
+  /**
+   * 一時停止中のアイテムを待機中に戻す
+   *
+   * @param id - アイテムのID
+   */
+  function resume(id: number): void {
+    const item = getItem(id);
+    if (!item || item.status !== "paused") return;
+
+    item.status = "waiting";
+  }
+
+  /**
+   * キュー全体を一時停止
+   *
+   * 以降 startNext() は新しいアイテムを開始しない
+   * アップロード中のアイテムの停止は呼び出し側が行う
+   */
+  function pauseAll(): void {
+    isPaused.value = true;
+  }
+
+  /**
+   * キュー全体と一時停止中のアイテムを再開
+   */
+  function resumeAll(): void {
+    isPaused.value = false;
+    for (const item of items.value) {
+      if (item.status === "paused") {
+        item.status = "waiting";
+      }
+    }
   }
 
   /**
    * 次のアイテムを取得して処理開始
    *
-   * 待機中のアイテムを1つ取り出し、アップロード中状態にする
+   * 同時実行数に空きがある場合のみ、待機中のアイテムを1つ取り出し
+   * アップロード中状態にする
    *
-   * @returns 次のアイテム、またはキューが空ならnull
+   * @returns 次のアイテム、または一時停止中・空きがない・待機中がなければnull
    */
   function startNext(): QueueItem | null {
+    if (isPaused.value) {
+      return null;
+    }
+
+    if (activeItems.value.length >= Math.max(1, concurrency.value)) {
+      return null;
+    }
+
     const nextItem = items.value.find((item) => item.status === "waiting");
 
     if (!nextItem) {
-      isProcessing.value = false;
       return null;
     }
 
     nextItem.status = "uploading";
-    currentItem.value = nextItem;
-    isProcessing.value = true;
+    nextItem.error = undefined;
+    nextItem.progress = createInitialProgress();
 
     return nextItem;
   }
@@ -175,13 +431,17 @@ export function useUploadQueue(): UseUploadQueue {
   /**
    * 特定のアイテムをキャンセル
    *
-   * 待機中のアイテムのみキャンセル可能
+   * 待機中・再試行待ち・一時停止中のアイテムのみキャンセル可能
    *
    * @param id - キャンセルするアイテムのID
    */
   function cancel(id: number): void {
     const index = items.value.findIndex(
-      (item) => item.id === id && item.status === "waiting",
+      (item) =>
+        item.id === id &&
+        (item.status === "waiting" ||
+          item.status === "retrying" ||
+          item.status === "paused"),
     );
 
     if (index !== -1) {
@@ -196,20 +456,33 @@ export function useUploadQueue(): UseUploadQueue {
    */
   function clear(): void {
     items.value = [];
-    currentItem.value = null;
-    isProcessing.value = false;
+    isPaused.value = false;
+    pendingStops.clear();
   }
 
   return {
     items,
-    currentItem,
+    activeItems,
     stats,
     isEmpty,
     isProcessing,
+    concurrency,
+    isPaused,
     enqueue,
-    updateCurrentStatus,
-    markCurrentError,
-    markCurrentCompleted,
+    restore,
+    getItem,
+    updateStatus,
+    markError,
+    markCompleted,
+    scheduleRetry,
+    requeue,
+    pause,
+    markPaused,
+    deferStop,
+    takePendingStop,
+    resume,
+    pauseAll,
+    resumeAll,
     startNext,
     cancel,
     clear,
@@ -0,0 +1,184 @@
+/** Upload settings with persistence */
+import { ref, type Ref } from 'vue';
+import { loadNumberSetting, saveNumberSetting, type NumberSetting } from '../utils/numberSetting';
+
+const CONCURRENCY_STORAGE_KEY = 'vidyeet-upload-concurrency';
+const MAX_RETRIES_STORAGE_KEY = 'vidyeet-upload-max-retries';
+const RETRY_DELAY_STORAGE_KEY = 'vidyeet-upload-retry-delay';
+const RATE_LIMIT_ENABLED_STORAGE_KEY = 'vidyeet-upload-rate-limit-enabled';
+const RATE_LIMIT_STORAGE_KEY = 'vidyeet-upload-rate-limit';
+const UNLIMITED_WHEN_IDLE_STORAGE_KEY = 'vidyeet-upload-unlimited-when-idle';
+const KEEP_LATEST_STORAGE_KEY = 'vidyeet-upload-keep-latest';
+const KEEP_DAYS_STORAGE_KEY = 'vidyeet-upload-keep-days';
+
+/** 同時アップロード数の下限 */
+export const MIN_UPLOAD_CONCURRENCY = 1;
+/** 同時アップロード数の上限（CLIプロセス数と帯域の兼ね合い） */
+export const MAX_UPLOAD_CONCURRENCY = 5;
+/** 同時アップロード数の既定値 */
+export const DEFAULT_UPLOAD_CONCURRENCY = 2;
+
+/** 自動再試行回数の範囲と既定値（既定: 初回 + 4回 = 最大5回試行） */
+export const MIN_UPLOAD_RETRIES = 0;
+export const MAX_UPLOAD_RETRIES = 10;
+export const DEFAULT_UPLOAD_RETRIES = 4;
+
+/** 初回再試行までの待ち時間（秒）の範囲と既定値。以降は再試行ごとに2倍 */
+export const MIN_RETRY_DELAY_SECS = 1;
+export const MAX_RETRY_DELAY_SECS = 60;
+export const DEFAULT_RETRY_DELAY_SECS = 2;
+
+/** 帯域上限（KB/s）の範囲と既定値。上限は同時アップロードのプロセスごとに適用される */
+export const MIN_RATE_LIMIT_KBPS = 64;
+export const MAX_RATE_LIMIT_KBPS = 10240;
+export const RATE_LIMIT_STEP_KBPS = 64;
+export const DEFAULT_RATE_LIMIT_KBPS = 1024;
+
+/** 古い動画の自動削除で残す新しい動画の本数（0 = 指定なし、CLI v1.6） */
+export const MAX_KEEP_LATEST = 100;
+
+/** 古い動画の自動削除で残す、作成からの日数（0 = 指定なし、CLI v1.6） */
+export const MAX_KEEP_DAYS = 365;
+
+const CONCURRENCY_SETTING: NumberSetting = {
+  key: CONCURRENCY_STORAGE_KEY,
+  min: MIN_UPLOAD_CONCURRENCY,
+  max: MAX_UPLOAD_CONCURRENCY,
+  defaultValue: DEFAULT_UPLOAD_CONCURRENCY,
+};
+
+const MAX_RETRIES_SETTING: NumberSetting = {
+  key: MAX_RETRIES_STORAGE_KEY,
+  min: MIN_UPLOAD_RETRIES,
+  max: MAX_UPLOAD_RETRIES,
+  defaultValue: DEFAULT_UPLOAD_RETRIES,
+};
+
+const RETRY_DELAY_SETTING: NumberSetting = {
+  key: RETRY_DELAY_STORAGE_KEY,
+  min: MIN_RETRY_DELAY_SECS,
+  max: MAX_RETRY_DELAY_SECS,
+  defaultValue: DEFAULT_RETRY_DELAY_SECS,
+};
+
+const RATE_LIMIT_SETTING: NumberSetting = {
+  key: RATE_LIMIT_STORAGE_KEY,
+  min: MIN_RATE_LIMIT_KBPS,
+  max: MAX_RATE_LIMIT_KBPS,
+  defaultValue: DEFAULT_RATE_LIMIT_KBPS,
+};
+
+const KEEP_LATEST_SETTING: NumberSetting = {
+  key: KEEP_LATEST_STORAGE_KEY,
+  min: 0,
+  max: MAX_KEEP_LATEST,
+  defaultValue: 0,
+};
+
+const KEEP_DAYS_SETTING: NumberSetting = {
+  key: KEEP_DAYS_STORAGE_KEY,
+  min: 0,
+  max: MAX_KEEP_DAYS,
+  defaultValue: 0,
+};
+
+function getInitialFlag(key: string, defaultValue: boolean): boolean {
+  const stored = localStorage.getItem(key);
+  if (stored === null) {
+    return defaultValue;
+  }
+  return stored === 'true';
+}
+
+function persistFlag(key: string, target: Ref<boolean>, value: boolean): void {
+  target.value = value;
+  localStorage.setItem(key, String(value));
+}
+
+// 設定画面での変更を実行中のキューへ即時反映するため、状態はモジュールで共有する
+let state: {
+  concurrency: Ref<number>;
+  maxRetries: Ref<number>;
+  retryDelaySecs: Ref<number>;
+  rateLimitEnabled: Ref<boolean>;
+  rateLimitKbps: Ref<number>;
+  unlimitedWhenIdle: Ref<boolean>;
+  keepLatest: Ref<number>;
+  keepDays: Ref<number>;
+} | null = null;
+
+export function useUploadSettings() {
+  if (!state) {
+    state = {
+      concurrency: ref(loadNumberSetting(CONCURRENCY_SETTING)),
+      maxRetries: ref(loadNumberSetting(MAX_RETRIES_SETTING)),
+      retryDelaySecs: ref(loadNumberSetting(RETRY_DELAY_SETTING)),
+      rateLimitEnabled: ref(getInitialFlag(RATE_LIMIT_ENABLED_STORAGE_KEY, false)),
+      rateLimitKbps: ref(loadNumberSetting(RATE_LIMIT_SETTING)),
+      unlimitedWhenIdle: ref(getInitialFlag(UNLIMITED_WHEN_IDLE_STORAGE_KEY, false)),
+      keepLatest: ref(loadNumberSetting(KEEP_LATEST_SETTING)),
+      keepDays: ref(loadNumberSetting(KEEP_DAYS_SETTING)),
+    };
+  }
+  const {
+    concurrency,
+    maxRetries,
+    retryDelaySecs,
+    rateLimitEnabled,
+    rateLimitKbps,
+    unlimitedWhenIdle,
+    keepLatest,
+    keepDays,
+  } = state;
+
+  const setConcurrency = (value: number): void => {
+    saveNumberSetting(CONCURRENCY_SETTING, concurrency, value);
+  };
+
+  const setMaxRetries = (value: number): void => {
+    saveNumberSetting(MAX_RETRIES_SETTING, maxRetries, value);
+  };
+
+  const setRetryDelaySecs = (value: number): void => {
+    saveNumberSetting(RETRY_DELAY_SETTING, retryDelaySecs, value);
+  };
+
+  const setRateLimitEnabled = (value: boolean): void => {
+    persistFlag(RATE_LIMIT_ENABLED_STORAGE_KEY, rateLimitEnabled, value);
+  };
+
+  const setRateLimitKbps = (value: number): void => {
+    saveNumberSetting(RATE_LIMIT_SETTING, rateLimitKbps, value);
+  };
+
+  const setUnlimitedWhenIdle = (value: boolean): void => {
+    persistFlag(UNLIMITED_WHEN_IDLE_STORAGE_KEY, unlimitedWhenIdle, value);
+  };
+
+  const setKeepLatest = (value: number): void => {
+    saveNumberSetting(KEEP_LATEST_SETTING, keepLatest, value);
+  };
+
+  const setKeepDays = (value: number): void => {
+    saveNumberSetting(KEEP_DAYS_SETTING, keepDays, value);
+  };
+
+  return {
+    concurrency,
+    setConcurrency,
+    maxRetries,
+    setMaxRetries,
+    retryDelaySecs,
+    setRetryDelaySecs,
+    rateLimitEnabled,
+    setRateLimitEnabled,
+    rateLimitKbps,
+    setRateLimitKbps,
+    unlimitedWhenIdle,
+    setUnlimitedWhenIdle,
+    keepLatest,
+    setKeepLatest,
+    keepDays,
+    setKeepDays,
+  };
+}
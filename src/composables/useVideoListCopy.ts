@@ -0,0 +1,110 @@
+/**
+ * 動画リストのコピー
+ *
+ * 複数の動画のリンクを改行区切りでコピーするcomposable
+ * 複数選択バーとコレクションのコピーで共通
+ *
+ * コピー方法:
+ * - MP4_LINK: MP4 URL（再生できない動画 = playbackId なしは除く）
+ * - テンプレートID: 動画ごとにコピーテンプレートを適用
+ *   （例: "- [${TITLE}](${MP4_URL})" で Markdown のリンク一覧）
+ *   適用できなかった動画はスキップし、件数をトーストで知らせる
+ */
+
+import { useI18n } from 'vue-i18n';
+import type { VideoItem } from '../types/app';
+import { getMp4Url } from '../utils/muxUrls';
+import { buildTemplateVariables } from '../utils/templateVariables';
+import { useCopyTemplates } from './useCopyTemplates';
+import { useAssetMetadata } from './useAssetMetadata';
+import { useToast } from './useToast';
+
+/** テンプレートを使わずに MP4 URL をコピーする選択肢 */
+export const MP4_LINK = '';
+
+/** 動画リストの整形結果 */
+export interface VideoListLines {
+  lines: string[];
+  /** テンプレートを適用できずスキップした動画の数 */
+  skipped: number;
+  /** 最初にスキップした動画のエラー */
+  firstError: string | null;
+}
+
+/**
+ * 動画リストのコピーのcomposable
+ */
+export function useVideoListCopy() {
+  const { t } = useI18n();
+  const { applyTemplate } = useCopyTemplates();
+  const { loadMetadata, resolveMetadata } = useAssetMetadata();
+  const { showToast } = useToast();
+
+  /**
+   * 動画ごとの行を作る
+   * @param format - MP4_LINK またはテンプレートID
+   */
+  async function formatVideoList(videos: VideoItem[], format: string): Promise<VideoListLines> {
+    const result: VideoListLines = { lines: [], skipped: 0, firstError: null };
+    if (format === MP4_LINK) {
+      for (const video of videos) {
+        if (video.playbackId) {
+          result.lines.push(getMp4Url(video.playbackId));
+        }
+      }
+      return result;
+    }
+
+    await loadMetadata();
+    for (const video of videos) {
+      const variables = buildTemplateVariables(video, resolveMetadata(video));
+      try {
+        result.lines.push(await applyTemplate(format, variables));
+      } catch (err) {
+        // 1件の失敗でリスト全体のコピーを止めない
+        result.skipped++;
+        if (result.firstError === null) {
+          result.firstError = err instanceof Error ? err.message : 'Unknown error';
+        }
+      }
+    }
+    return result;
+  }
+
+  /**
+   * 動画のリンクを改行区切りでコピーし、結果をトーストで通知
+   * @param format - MP4_LINK またはテンプレートID
+   */
+  async function copyVideoList(videos: VideoItem[], format: string): Promise<void> {
+    try {
+      const { lines, skipped, firstError } = await formatVideoList(videos, format);
+      if (lines.length === 0) {
+        if (firstError) {
+          showToast('error', t('copyTemplate.toast.copyError', { reason: firstError }));
+        } else {
+          showToast('error', t('library.selection.nothingToCopy'));
+        }
+        return;
+      }
+
+      await window.clipboard.writeText(lines.join('\n'));
+      if (skipped > 0) {
+        showToast(
+          'info',
+          t('library.selection.copyPartial', { count: lines.length, skipped, reason: firstError }),
+          5000,
+        );
+      } else {
+        showToast('success', t('library.selection.copySuccess', { count: lines.length }));
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      showToast('error', t('copyTemplate.toast.copyError', { reason: message }));
+    }
+  }
+
+  return {
+    formatVideoList,
+    copyVideoList,
+  };
+}
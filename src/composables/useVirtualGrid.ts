@@ -0,0 +1,144 @@
+/**
+ * 仮想グリッド
+ *
+ * スクロール領域の中のグリッドについて、表示範囲にある項目だけを描画するためのcomposable
+ * 項目の高さは列幅から求める（すべての項目が同じ高さであることが前提）
+ *
+ * 使い方:
+ * - container: スクロールする要素（overflow-y: auto）
+ * - grid: 項目を並べる要素。range.paddingTop / paddingBottom をパディングに設定し、
+ *   range.start 〜 range.end の項目だけを描画する
+ */
+
+import { ref, computed, watch, onMounted, onUnmounted, type Ref, type ComputedRef } from "vue";
+import { computeVirtualRange, getGridColumns, type VirtualGridRange } from "../utils/virtualGrid";
+
+/** 仮想グリッドの設定 */
+export interface VirtualGridOptions {
+  /** 1列の最小幅（px） */
+  minColumnWidth: number;
+  /** 行間・列間（px） */
+  gap: number;
+  /** 列幅から1行の高さを求める */
+  getRowHeight: (columnWidth: number) => number;
+  /** 表示範囲の前後に余分に描画する行数 */
+  overscanRows?: number;
+}
+
+/**
+ * useVirtualGrid の戻り値型
+ */
+export interface UseVirtualGrid {
+  /** 列数 */
+  columns: ComputedRef<number>;
+  /** 描画する範囲 */
+  range: ComputedRef<VirtualGridRange>;
+  /** 寸法を測り直す（グリッドの上にある要素の高さが変わったときなど） */
+  measure: () => void;
+}
+
+/**
+ * 仮想グリッドのcomposable
+ *
+ * @param container - スクロールする要素
+ * @param grid - 項目を並べる要素
+ * @param itemCount - 項目数
+ */
+export function useVirtualGrid(
+  container: Ref<HTMLElement | null>,
+  grid: Ref<HTMLElement | null>,
+  itemCount: Ref<number>,
+  options: VirtualGridOptions,
+): UseVirtualGrid {
+  const overscanRows = options.overscanRows ?? 2;
+
+  const gridWidth = ref(0);
+  const gridOffset = ref(0);
+  const scrollTop = ref(0);
+  const viewportHeight = ref(0);
+
+  let resizeObserver: ResizeObserver | null = null;
+
+  const columns = computed(() =>
+    getGridColumns(gridWidth.value, options.minColumnWidth, options.gap),
+  );
+
+  const range = computed(() => {
+    const columnWidth =
+      (gridWidth.value - (columns.value - 1) * options.gap) / columns.value;
+    return computeVirtualRange({
+      itemCount: itemCount.value,
+      columns: columns.value,
+      rowHeight: columnWidth > 0 ? options.getRowHeight(columnWidth) : 0,
+      gap: options.gap,
+      viewportTop: scrollTop.value - gridOffset.value,
+      viewportHeight: viewportHeight.value,
+      overscanRows,
+    });
+  });
+
+  function measure(): void {
+    const containerEl = container.value;
+    if (!containerEl) return;
+
+    scrollTop.value = containerEl.scrollTop;
+    viewportHeight.value = containerEl.clientHeight;
+
+    const gridEl = grid.value;
+    if (!gridEl) return;
+
+    const style = getComputedStyle(gridEl);
+    gridWidth.value =
+      gridEl.clientWidth -
+      parseFloat(style.paddingLeft || "0") -
+      parseFloat(style.paddingRight || "0");
+    // グリッド上端のスクロール領域内での位置
+    gridOffset.value =
+      gridEl.getBoundingClientRect().top -
+      containerEl.getBoundingClientRect().top +
+      containerEl.scrollTop;
+  }
+
+  function handleScroll(): void {
+    const containerEl = container.value;
+    if (!containerEl) return;
+    scrollTop.value = containerEl.scrollTop;
+  }
+
+  // グリッドは一覧の状態によって出たり消えたりするため、要素が変わるたびに監視し直す
+  watch(
+    [container, grid],
+    ([containerEl, gridEl], [prevContainer, prevGrid]) => {
+      prevContainer?.removeEventListener("scroll", handleScroll);
+      if (prevGrid) resizeObserver?.unobserve(prevGrid);
+      if (prevContainer) resizeObserver?.unobserve(prevContainer);
+
+      containerEl?.addEventListener("scroll", handleScroll, { passive: true });
+      if (containerEl) resizeObserver?.observe(containerEl);
+      if (gridEl) resizeObserver?.observe(gridEl);
+      measure();
+    },
+  );
+
+  onMounted(() => {
+    resizeObserver = new ResizeObserver(() => measure());
+    if (container.value) {
+      container.value.addEventListener("scroll", handleScroll, { passive: true });
+      resizeObserver.observe(container.value);
+    }
+    if (grid.value) resizeObserver.observe(grid.value);
+    measure();
+  });
+
+  onUnmounted(() => {
+    container.value?.removeEventListener("scroll", handleScroll);
+    resizeObserver?.disconnect();
+    resizeObserver = null;
+  });
+
+  return {
+    columns,
+    range,
+    measure,
+  };
+}
@@ -0,0 +1,114 @@
+/** Watch folder management composable */
+import { ref, computed } from 'vue';
+import type { WatchFolder, WatchFolderUpdateRequest } from '../../electron/types/ipc';
+import { isIpcError } from '../../electron/types/ipc';
+
+export function useWatchFolders() {
+  const folders = ref<WatchFolder[]>([]);
+  const isLoading = ref<boolean>(false);
+  const error = ref<string | null>(null);
+
+  /**
+   * Load watch folders from the main process
+   * Sets error message if loading fails
+   */
+  const loadFolders = async (): Promise<void> => {
+    isLoading.value = true;
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.getWatchFolders();
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+
+      folders.value = result.folders;
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    } finally {
+      isLoading.value = false;
+    }
+  };
+
+  /**
+   * Pick a directory and start watching it
+   * Does nothing if the dialog is cancelled
+   */
+  const addFolder = async (): Promise<void> => {
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.addWatchFolder();
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+      if (!result.folder) return;
+
+      const added = result.folder;
+      if (!folders.value.some((folder) => folder.id === added.id)) {
+        folders.value = [...folders.value, added];
+      }
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    }
+  };
+
+  /**
+   * Update patterns and/or mode of a folder
+   */
+  const updateFolder = async (request: WatchFolderUpdateRequest): Promise<void> => {
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.updateWatchFolder(request);
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+
+      folders.value = folders.value.map((folder) =>
+        folder.id === result.id ? result : folder,
+      );
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    }
+  };
+
+  /**
+   * Stop watching a folder
+   */
+  const removeFolder = async (id: string): Promise<void> => {
+    error.value = null;
+
+    try {
+      const result = await window.vidyeet.removeWatchFolder({ id });
+
+      if (isIpcError(result)) {
+        error.value = result.message;
+        return;
+      }
+
+      folders.value = folders.value.filter((folder) => folder.id !== id);
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Unknown error';
+    }
+  };
+
+  const hasError = computed(() => error.value !== null);
+
+  return {
+    folders,
+    isLoading,
+    error,
+    hasError,
+    loadFolders,
+    addFolder,
+    updateFolder,
+    removeFolder,
+  };
+}
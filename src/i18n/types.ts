@@ -12,6 +12,19 @@ export interface MessageSchema {
       cancelButton: string;
       deleteButton: string;
       deleting: string;
+      bulkTitle: string;
+      deletingProgress: string;
+      bulkSuccess: string;
+      bulkPartial: string;
+      pinnedTitle: string;
+      pinnedMessage: string;
+      pinnedSkipped: string;
+      unpinButton: string;
+      unpinning: string;
+      unpinError: string;
+      undo: string;
+      undoSuccess: string;
+      undoError: string;
     };
     upload: {
       failed: string;
@@ -25,9 +38,43 @@ export interface MessageSchema {
       items: string;
       cancel: string;
       cancelling: string;
+      failedItems: string;
+      uploadingCount: string;
+      retrying: string;
+      pause: string;
+      pausing: string;
+      resume: string;
+      paused: string;
+      pauseAll: string;
+      resumeAll: string;
+      queuePaused: string;
+      rateLimited: string;
+      rateUnlimited: string;
+      restoreTitle: string;
+      restoreMessage: string;
+      restoreResume: string;
+      restoreDiscard: string;
+      watchTitle: string;
+      watchMessage: string;
+      watchUpload: string;
+      watchDismiss: string;
+      duplicateTitle: string;
+      duplicateMessage: string;
+      duplicateInQueue: string;
+      duplicateUploaded: string;
+      duplicateSkip: string;
+      duplicateUploadAnyway: string;
+      duplicateCopyLink: string;
+      duplicateLinkUnavailable: string;
     };
     toasts: {
       linkCopied: string;
+      assetPlayable: string;
+      assetDownloadable: string;
+      assetReady: string;
+      assetErrored: string;
+      oldVideosDeleted: string;
+      oldVideosDeletedCount: string;
     };
   };
   settings: {
@@ -43,6 +90,7 @@ export interface MessageSchema {
       security: string;
       notification: string;
       display: string;
+      upload: string;
       data: string;
       support: string;
       appinfo: string;
@@ -98,10 +146,66 @@ export interface MessageSchema {
         system: string;
       };
     };
+    upload: {
+      section: {
+        queue: string;
+        queueDesc: string;
+        retry: string;
+        retryDesc: string;
+        bandwidth: string;
+        bandwidthDesc: string;
+        watch: string;
+        watchDesc: string;
+        retention: string;
+        retentionDesc: string;
+      };
+      concurrency: {
+        label: string;
+        description: string;
+      };
+      retries: {
+        label: string;
+        description: string;
+      };
+      retryDelay: {
+        label: string;
+        description: string;
+        unit: string;
+      };
+      rateLimitEnabled: {
+        label: string;
+        description: string;
+      };
+      rateLimit: {
+        label: string;
+        description: string;
+        unit: string;
+      };
+      unlimitedWhenIdle: {
+        label: string;
+        description: string;
+      };
+      keepLatest: {
+        label: string;
+        description: string;
+        unit: string;
+      };
+      keepDays: {
+        label: string;
+        description: string;
+        unit: string;
+      };
+      pinned: {
+        label: string;
+        description: string;
+      };
+    };
     data: {
       section: {
         templates: string;
         templatesDesc: string;
+        history: string;
+        historyDesc: string;
       };
     };
     support: {
@@ -193,20 +297,104 @@ export interface MessageSchema {
     error: {
       loadFailed: string;
       unexpected: string;
+      loadMoreFailed: string;
     };
     retry: string;
+    loadingMore: string;
+    partialResult: {
+      loading: string;
+      failed: string;
+    };
     empty: {
       title: string;
       hint: string;
     };
     uploadButton: string;
     uploadAria: string;
+    toolbar: {
+      searchPlaceholder: string;
+      filter: string;
+      sortBy: string;
+      sort: {
+        createdAt: string;
+        duration: string;
+        resolution: string;
+        status: string;
+      };
+      ascending: string;
+      descending: string;
+      statusLabel: string;
+      status: {
+        ready: string;
+        preparing: string;
+        errored: string;
+      };
+      resolutionLabel: string;
+      aspectRatioLabel: string;
+      dateLabel: string;
+      dateFrom: string;
+      dateTo: string;
+      resultCount: string;
+      reset: string;
+      noResults: string;
+    };
+    selection: {
+      ariaLabel: string;
+      count: string;
+      selectAll: string;
+      clear: string;
+      copyFormat: string;
+      copy: string;
+      delete: string;
+      nothingToCopy: string;
+      copySuccess: string;
+      copyPartial: string;
+    };
+  };
+  collections: {
+    title: string;
+    allVideos: string;
+    create: string;
+    createNew: string;
+    name: string;
+    namePlaceholder: string;
+    rename: string;
+    delete: string;
+    cancel: string;
+    deleteConfirm: string;
+    hint: string;
+    addTo: string;
+    add: string;
+    added: string;
+    barAriaLabel: string;
+    videoCount: string;
+    showAll: string;
+    copyList: string;
+    empty: string;
+    emptyHint: string;
+    error: {
+      saveFailed: string;
+    };
   };
   player: {
     selectVideo: string;
     selectHint: string;
     loading: string;
     retry: string;
+    download: string;
+    controls: {
+      frameBack: string;
+      frameForward: string;
+      playbackRate: string;
+      quality: string;
+      qualityAuto: string;
+      qualityAutoCurrent: string;
+      pictureInPicture: string;
+      exitPictureInPicture: string;
+      fullscreen: string;
+      exitFullscreen: string;
+      shortcuts: string;
+    };
     errors: {
       networkError: string;
       mediaError: string;
@@ -218,13 +406,59 @@ export interface MessageSchema {
     ariaPrefix: string;
     unplayable: string;
     playing: string;
+    statusProcessing: string;
+    statusMp4Generating: string;
+    statusErrored: string;
+    hasAudio: string;
+    noAudio: string;
+    mp4Ready: string;
+    pinned: string;
   };
   contextMenu: {
     ariaLabel: string;
     copyLink: string;
     copyTemplates: string;
+    collections: string;
+    pin: string;
+    unpin: string;
+    pinFailed: string;
+    download: string;
     delete: string;
   };
+  uploadHistory: {
+    searchPlaceholder: string;
+    empty: string;
+    noResults: string;
+    more: string;
+    exportCsv: string;
+    exportJson: string;
+    clearButton: string;
+    clearConfirm: string;
+    cancelButton: string;
+    status: {
+      completed: string;
+      failed: string;
+    };
+    deletedOldVideos: string;
+    toast: {
+      exportSuccess: string;
+      exportError: string;
+    };
+  };
+  watchFolder: {
+    addButton: string;
+    removeButton: string;
+    cancelButton: string;
+    empty: string;
+    patternsLabel: string;
+    patternsPlaceholder: string;
+    mode: {
+      ask: string;
+      askDesc: string;
+      auto: string;
+      autoDesc: string;
+    };
+  };
   copyTemplate: {
     title: string;
     nameLabel: string;
@@ -264,6 +498,42 @@ export interface MessageSchema {
     frameRate: string;
     createdAt: string;
     status: string;
+    metadata: {
+      untitled: string;
+      edit: string;
+      title: string;
+      fileName: string;
+      tags: string;
+      tagsPlaceholder: string;
+      notes: string;
+      cancel: string;
+      save: string;
+      saveError: string;
+      syncPending: string;
+      tagsKeptLocal: string;
+    };
+    detail: {
+      show: string;
+      hide: string;
+      loading: string;
+      loadFailed: string;
+      retry: string;
+      encodingTier: string;
+      videoQuality: string;
+      maxResolutionTier: string;
+      masterAccess: string;
+      updatedAt: string;
+      playbackIds: string;
+      tracks: string;
+      renditions: string;
+      none: string;
+      channels: string;
+      trackTypes: {
+        video: string;
+        audio: string;
+        text: string;
+      };
+    };
   };
   dragDrop: {
     message: string;
@@ -271,14 +541,88 @@ export interface MessageSchema {
   };
   sideDrawer: {
     upload: string;
+    dashboard: string;
+    trash: string;
     logout: string;
   };
+  dashboard: {
+    title: string;
+    refresh: string;
+    close: string;
+    loading: string;
+    loadFailed: string;
+    retry: string;
+    totalAssets: string;
+    storedMinutes: string;
+    minutes: string;
+    count: string;
+    byResolution: string;
+    byMonth: string;
+    largest: string;
+    longest: string;
+    unknown: string;
+    none: string;
+    quota: {
+      title: string;
+      description: string;
+      maxAssets: string;
+      maxStoredMinutes: string;
+      warnPercent: string;
+      usage: string;
+      warning: string;
+      exceeded: string;
+      autoDeleteHint: string;
+    };
+  };
+  download: {
+    title: string;
+    active: string;
+    preparing: string;
+    waiting: string;
+    done: string;
+    notReady: string;
+    unavailable: string;
+    failed: string;
+    folderError: string;
+    cancel: string;
+    retry: string;
+    reveal: string;
+    dismiss: string;
+  };
+  trash: {
+    title: string;
+    refresh: string;
+    close: string;
+    loading: string;
+    none: string;
+    description: string;
+    graceDays: string;
+    count: string;
+    purgeInDays: string;
+    purgeInHours: string;
+    purgeSoon: string;
+    lastError: string;
+    restore: string;
+    purgeNow: string;
+    purge: string;
+    cancel: string;
+    purgeConfirm: string;
+    empty: string;
+    emptying: string;
+    emptyConfirm: string;
+    restored: string;
+    restoreFailed: string;
+    purged: string;
+    emptied: string;
+    purgeFailed: string;
+  };
   toast: {
     close: string;
   };
   titleBar: {
     reload: string;
     settings: string;
+    menu: string;
     minimize: string;
     restore: string;
     maximize: string;
@@ -294,6 +638,7 @@ export interface MessageSchema {
     completed: string;
     done: string;
     starting: string;
+    resuming: string;
   };
   uploadErrors: {
     pathError: string;
@@ -301,5 +646,12 @@ export interface MessageSchema {
     cancelled: string;
     cancelSuccess: string;
     cancelFailed: string;
+    probe: {
+      empty: string;
+      unknown_format: string;
+      truncated: string;
+      corrupt: string;
+      missing_index: string;
+    };
   };
 }
@@ -2,7 +2,7 @@
  * アプリケーション状態の型定義
  */
 
-import type { AssetItem } from '../../electron/types/ipc';
+import type { AssetItem, MediaProbeResult } from '../../electron/types/ipc';
 
 /** アプリケーションの画面状態 */
 export type AppScreen = "initializing" | "login" | "library";
@@ -39,6 +39,14 @@ export interface AppError {
 /** トースト通知のタイプ */
 export type ToastType = "success" | "error" | "info";
 
+/** トースト通知のボタン（例: 元に戻す） */
+export interface ToastAction {
+  /** ボタンのラベル */
+  label: string;
+  /** 押したときの処理（トーストは閉じる） */
+  onClick: () => void;
+}
+
 /** トースト通知アイテム */
 export interface ToastItem {
   /** 一意なID */
@@ -49,6 +57,8 @@ export interface ToastItem {
   message: string;
   /** 自動消去までの時間（ミリ秒） */
   duration: number;
+  /** ボタン（元に戻すなど） */
+  action?: ToastAction;
 }
 
 // =============================================================================
@@ -56,7 +66,37 @@ export interface ToastItem {
 // =============================================================================
 
 /** アップロードキューアイテムのステータス */
-export type QueueItemStatus = "waiting" | "uploading" | "cancelling" | "completed" | "error";
+export type QueueItemStatus =
+  | "waiting"
+  | "uploading"
+  | "pausing"
+  | "paused"
+  | "cancelling"
+  | "retrying"
+  | "completed"
+  | "error";
+
+/** アップロードキューアイテムの進捗（アイテムごとに独立） */
+export interface QueueItemProgress {
+  /** 現在のフェーズ */
+  phase: string;
+  /** フェーズの表示テキスト */
+  phaseText: string;
+  /** 進捗率（0-100） */
+  progressPercent: number;
+  /** 現在のチャンク番号 */
+  currentChunk: number;
+  /** 総チャンク数 */
+  totalChunks: number;
+  /** 送信済みバイト数 */
+  bytesSent: number;
+  /** 総バイト数 */
+  totalBytes: number;
+  /** プログレスバーを表示するか */
+  showProgressBar: boolean;
+  /** 適用中の帯域上限（KB/s、null = 無制限、undefined = 未確定） */
+  rateLimitKbps?: number | null;
+}
 
 /** アップロードキューアイテム */
 export interface QueueItem {
@@ -68,10 +108,35 @@ export interface QueueItem {
   fileName: string;
   /** 現在のステータス */
   status: QueueItemStatus;
-  /** エラーメッセージ（errorステータス時のみ） */
+  /** エラーメッセージ（error / retrying ステータス時） */
   error?: string;
   /** アップロード完了後のアセットID（completedステータス時のみ） */
   assetId?: string;
+  /** Main側のアップロードID（キャンセル用、最初の進捗通知で確定） */
+  uploadId?: string;
+  /** 試行回数（1始まり、自動再試行のたびに増える） */
+  attempt: number;
+  /** 次の再試行予定時刻（Unix ms、retryingステータス時のみ） */
+  retryAt?: number;
+  /** 重複検出用のフィンガープリント（サイズ + 内容のハッシュ） */
+  fingerprint?: string;
+  /** ローカル検証で読み取った動画情報（検証前・読めなかった場合は undefined） */
+  media?: MediaProbeResult;
+  /** 進捗 */
+  progress: QueueItemProgress;
+}
+
+/** 重複の可能性があり、ユーザーの判断待ちのファイル */
+export interface DuplicateFile {
+  filePath: string;
+  fileName: string;
+  fingerprint: string;
+  /** queue: キュー内に同じファイルがある / history: 過去にアップロード済み */
+  reason: "queue" | "history";
+  /** アップロード済みの場合、そのアセットID（既存リンクのコピー用） */
+  existingAssetId?: string;
+  /** アップロード済みの場合、そのときのファイル名 */
+  existingFileName?: string;
 }
 
 /** アップロードキューの統計情報 */
@@ -80,8 +145,12 @@ export interface QueueStats {
   total: number;
   /** 待機中の数 */
   waiting: number;
-  /** アップロード中の数 */
+  /** アップロード中の数（一時停止・キャンセル処理中を含む） */
   uploading: number;
+  /** 一時停止中の数 */
+  paused: number;
+  /** 再試行待ちの数 */
+  retrying: number;
   /** 完了した数 */
   completed: number;
   /** エラーの数 */
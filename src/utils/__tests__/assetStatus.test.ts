@@ -0,0 +1,45 @@
+import { getStatusChanges, needsStatusPolling } from '../assetStatus';
+import type { VideoItem } from '../../types/app';
+
+function video(patch: Partial<VideoItem> = {}): VideoItem {
+  return { assetId: 'a', playbackId: 'p', status: 'ready', ...patch };
+}
+
+describe('needsStatusPolling', () => {
+  test('follows processing assets and MP4 renditions being generated', () => {
+    expect(needsStatusPolling(video({ status: 'preparing' }))).toBe(true);
+    expect(needsStatusPolling(video({ mp4Status: 'generating' }))).toBe(true);
+  });
+
+  test('stops once the asset and its MP4 are settled', () => {
+    expect(needsStatusPolling(video())).toBe(false);
+    expect(needsStatusPolling(video({ mp4Status: 'ready' }))).toBe(false);
+    expect(needsStatusPolling(video({ status: 'errored' }))).toBe(false);
+    expect(needsStatusPolling(video({ status: undefined }))).toBe(false);
+  });
+});
+
+describe('getStatusChanges', () => {
+  test('reports an asset that became playable and downloadable', () => {
+    const previous = video({ status: 'preparing', mp4Status: 'generating' });
+
+    expect(getStatusChanges(previous, video({ mp4Status: 'generating' }))).toEqual(['playable']);
+    expect(getStatusChanges(previous, video({ mp4Status: 'ready' }))).toEqual([
+      'playable',
+      'downloadable',
+    ]);
+  });
+
+  test('reports failures and nothing when the state did not change', () => {
+    const previous = video({ status: 'preparing' });
+
+    expect(getStatusChanges(previous, video({ status: 'errored' }))).toEqual(['errored']);
+    expect(getStatusChanges(previous, previous)).toEqual([]);
+  });
+
+  test('does not report links for assets without a playback ID', () => {
+    const previous = video({ status: 'preparing', playbackId: null });
+
+    expect(getStatusChanges(previous, video({ playbackId: null, mp4Status: 'ready' }))).toEqual([]);
+  });
+});
@@ -0,0 +1,65 @@
+import { getAudioChannels, getFrameRate, getVideoDimensions, hasAudioTrack } from '../assetTracks';
+import type { AssetTrack } from '../../../electron/types/ipc';
+import type { VideoItem } from '../../types/app';
+
+function track(patch: Partial<AssetTrack>): AssetTrack {
+  return {
+    type: 'video',
+    id: null,
+    duration: null,
+    maxWidth: null,
+    maxHeight: null,
+    maxFrameRate: null,
+    maxChannels: null,
+    maxChannelLayout: null,
+    ...patch,
+  };
+}
+
+function video(tracks?: AssetTrack[]): VideoItem {
+  return { assetId: 'a', playbackId: 'p', tracks };
+}
+
+describe('getVideoDimensions', () => {
+  test('returns the pixel size of the video track', () => {
+    const item = video([
+      track({ type: 'audio', maxChannels: 2 }),
+      track({ maxWidth: 1080, maxHeight: 1920 }),
+    ]);
+
+    expect(getVideoDimensions(item)).toEqual({ width: 1080, height: 1920 });
+  });
+
+  test('returns null while the size is unknown', () => {
+    expect(getVideoDimensions(video())).toBeNull();
+    expect(getVideoDimensions(video([track({})]))).toBeNull();
+  });
+});
+
+describe('getFrameRate', () => {
+  test('returns the frame rate of the video track', () => {
+    expect(getFrameRate(video([track({ maxFrameRate: 29.97 })]))).toBe(29.97);
+  });
+
+  test('returns null while the frame rate is unknown', () => {
+    expect(getFrameRate(video())).toBeNull();
+    expect(getFrameRate(video([track({ type: 'audio' })]))).toBeNull();
+    expect(getFrameRate(video([track({ maxFrameRate: 0 })]))).toBeNull();
+  });
+});
+
+describe('hasAudioTrack / getAudioChannels', () => {
+  test('reports the audio track and its channels', () => {
+    const item = video([track({}), track({ type: 'audio', maxChannels: 2 })]);
+
+    expect(hasAudioTrack(item)).toBe(true);
+    expect(getAudioChannels(item)).toBe(2);
+  });
+
+  test('distinguishes silent videos from unknown tracks', () => {
+    expect(hasAudioTrack(video([track({})]))).toBe(false);
+    expect(getAudioChannels(video([track({})]))).toBeNull();
+    expect(hasAudioTrack(video())).toBeNull();
+    expect(hasAudioTrack(video([]))).toBeNull();
+  });
+});
@@ -0,0 +1,82 @@
+import { classifyDuplicates } from '../duplicateCheck';
+import type { UploadDuplicateCheckResult, UploadHistoryEntry } from '../../../electron/types/ipc';
+
+function file(name: string) {
+  return { filePath: `/videos/${name}`, fileName: name };
+}
+
+function result(name: string, fingerprint: string | null, previous: UploadHistoryEntry | null = null): UploadDuplicateCheckResult {
+  return { filePath: `/videos/${name}`, fingerprint, previous };
+}
+
+const previousUpload: UploadHistoryEntry = {
+  id: 'h1',
+  filePath: '/old/clip.mp4',
+  fileName: 'clip.mp4',
+  sizeBytes: 1024,
+  status: 'completed',
+  assetId: 'asset-1',
+  startedAt: 1,
+  finishedAt: 2,
+  fingerprint: 'fp-old',
+};
+
+describe('classifyDuplicates', () => {
+  test('passes through files with no match, keeping their fingerprint', () => {
+    const { unique, duplicates } = classifyDuplicates(
+      [file('a.mp4')],
+      [result('a.mp4', 'fp-a')],
+      [],
+    );
+    expect(unique).toEqual([{ ...file('a.mp4'), fingerprint: 'fp-a' }]);
+    expect(duplicates).toEqual([]);
+  });
+
+  test('reports files matching a completed upload in the history', () => {
+    const { unique, duplicates } = classifyDuplicates(
+      [file('copy.mp4')],
+      [result('copy.mp4', 'fp-old', previousUpload)],
+      [],
+    );
+    expect(unique).toEqual([]);
+    expect(duplicates).toEqual([
+      {
+        ...file('copy.mp4'),
+        fingerprint: 'fp-old',
+        reason: 'history',
+        existingAssetId: 'asset-1',
+        existingFileName: 'clip.mp4',
+      },
+    ]);
+  });
+
+  test('reports files already in the queue before checking the history', () => {
+    const { duplicates } = classifyDuplicates(
+      [file('a.mp4')],
+      [result('a.mp4', 'fp-a', previousUpload)],
+      [{ fingerprint: 'fp-a', assetId: 'asset-2' }],
+    );
+    expect(duplicates).toHaveLength(1);
+    expect(duplicates[0]).toMatchObject({ reason: 'queue', existingAssetId: 'asset-2' });
+  });
+
+  test('detects duplicates within the same batch', () => {
+    const { unique, duplicates } = classifyDuplicates(
+      [file('a.mp4'), file('a-copy.mp4')],
+      [result('a.mp4', 'fp-a'), result('a-copy.mp4', 'fp-a')],
+      [],
+    );
+    expect(unique.map(f => f.fileName)).toEqual(['a.mp4']);
+    expect(duplicates.map(f => f.fileName)).toEqual(['a-copy.mp4']);
+  });
+
+  test('adds files that could not be fingerprinted without checking', () => {
+    const { unique, duplicates } = classifyDuplicates(
+      [file('locked.mp4')],
+      [result('locked.mp4', null)],
+      [{ fingerprint: undefined }],
+    );
+    expect(unique).toEqual([file('locked.mp4')]);
+    expect(duplicates).toEqual([]);
+  });
+});
@@ -0,0 +1,13 @@
+import { formatDuration } from '../duration';
+
+describe('formatDuration', () => {
+  test('formats durations under an hour as M:SS', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(65.7)).toBe('1:05');
+  });
+
+  test('formats durations of an hour or more as H:MM:SS', () => {
+    expect(formatDuration(3600)).toBe('1:00:00');
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+});
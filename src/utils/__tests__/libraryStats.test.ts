@@ -0,0 +1,81 @@
+import { computeLibraryStats, getQuotaUsage, getStorageWeight, type LibraryQuota } from '../libraryStats';
+import type { VideoItem } from '../../types/app';
+
+/** Unix seconds (as the CLI returns them) for a local date */
+function createdAt(year: number, month: number, day: number): string {
+  return String(new Date(year, month - 1, day, 12).getTime() / 1000);
+}
+
+const videos: VideoItem[] = [
+  { assetId: 'a', playbackId: 'p-a', duration: 30, resolutionTier: '1080p', createdAt: createdAt(2024, 5, 1) },
+  { assetId: 'b', playbackId: 'p-b', duration: 600, resolutionTier: '720p', createdAt: createdAt(2024, 6, 10) },
+  { assetId: 'c', playbackId: 'p-c', duration: 90, resolutionTier: '2160p', createdAt: createdAt(2024, 5, 20) },
+  { assetId: 'd', playbackId: null, createdAt: undefined },
+];
+
+function quota(patch: Partial<LibraryQuota> = {}): LibraryQuota {
+  return { maxAssets: 0, maxStoredMinutes: 0, warnPercent: 80, ...patch };
+}
+
+describe('computeLibraryStats', () => {
+  test('totals the assets and their length', () => {
+    const stats = computeLibraryStats(videos);
+
+    expect(stats.totalAssets).toBe(4);
+    expect(stats.totalSeconds).toBe(720);
+  });
+
+  test('breaks down by resolution and month with unknown values last', () => {
+    const stats = computeLibraryStats(videos);
+
+    expect(stats.byResolution.map((g) => g.key)).toEqual(['2160p', '1080p', '720p', '']);
+    expect(stats.byMonth).toEqual([
+      { key: '2024-06', count: 1, seconds: 600 },
+      { key: '2024-05', count: 2, seconds: 120 },
+      { key: '', count: 1, seconds: 0 },
+    ]);
+  });
+
+  test('ranks the largest and longest assets', () => {
+    const stats = computeLibraryStats(videos);
+
+    expect(stats.longest.map((v) => v.assetId)).toEqual(['b', 'c', 'a']);
+    expect(stats.largest.map((v) => v.assetId)).toEqual(['c', 'b', 'a']);
+  });
+});
+
+describe('getStorageWeight', () => {
+  test('prefers the pixel size of the video track over the resolution tier', () => {
+    const video: VideoItem = {
+      assetId: 'a',
+      playbackId: 'p',
+      duration: 10,
+      resolutionTier: '1080p',
+      tracks: [
+        { type: 'video', id: null, duration: 10, maxWidth: 1080, maxHeight: 1920, maxFrameRate: 30, maxChannels: null, maxChannelLayout: null },
+      ],
+    };
+
+    expect(getStorageWeight(video)).toBe(1080 * 1920 * 10);
+    expect(getStorageWeight({ ...video, tracks: undefined })).toBe(1920 * 1080 * 10);
+    expect(getStorageWeight({ ...video, duration: undefined })).toBeNull();
+  });
+});
+
+describe('getQuotaUsage', () => {
+  const stats = computeLibraryStats(videos);
+
+  test('ignores limits that are not set', () => {
+    expect(getQuotaUsage(stats, quota())).toEqual({ assets: null, storedMinutes: null, level: 'ok' });
+  });
+
+  test('warns from the configured percentage and reports the stricter limit', () => {
+    expect(getQuotaUsage(stats, quota({ maxAssets: 10, maxStoredMinutes: 15 }))).toEqual({
+      assets: 0.4,
+      storedMinutes: 0.8,
+      level: 'warning',
+    });
+    expect(getQuotaUsage(stats, quota({ maxAssets: 4 })).level).toBe('exceeded');
+    expect(getQuotaUsage(stats, quota({ maxAssets: 5, warnPercent: 90 })).level).toBe('ok');
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  applyLibraryView,
+  countActiveFilters,
+  createDefaultLibraryView,
+  needsAllVideos,
+  normalizeLibraryView,
+  type LibraryViewState,
+} from '../libraryView';
+import type { VideoItem } from '../../types/app';
+
+/** Unix seconds (as the CLI returns them) for a local date */
+function createdAt(year: number, month: number, day: number, hour = 12): string {
+  return String(new Date(year, month - 1, day, hour).getTime() / 1000);
+}
+
+const videos: VideoItem[] = [
+  { assetId: 'a', playbackId: 'p-a', status: 'ready', duration: 30, resolutionTier: '1080p', aspectRatio: '16:9', createdAt: createdAt(2024, 5, 1) },
+  { assetId: 'b', playbackId: 'p-b', status: 'preparing', duration: 120, resolutionTier: '720p', aspectRatio: '9:16', createdAt: createdAt(2024, 5, 10) },
+  { assetId: 'c', playbackId: 'p-c', status: 'errored', resolutionTier: '2160p', aspectRatio: '16:9', createdAt: createdAt(2024, 5, 20) },
+  { assetId: 'd', playbackId: null, status: 'ready', duration: 60, createdAt: createdAt(2024, 5, 15) },
+];
+
+function view(patch: Partial<LibraryViewState> = {}, filter: Partial<LibraryViewState['filter']> = {}): LibraryViewState {
+  const state = createDefaultLibraryView();
+  return { ...state, ...patch, filter: { ...state.filter, ...filter } };
+}
+
+function ids(items: VideoItem[]): string[] {
+  return items.map(v => v.assetId);
+}
+
+describe('applyLibraryView', () => {
+  test('sorts newest first by default', () => {
+    expect(ids(applyLibraryView(videos, view()))).toEqual(['c', 'd', 'b', 'a']);
+  });
+
+  test('sorts by duration and keeps missing values last in both orders', () => {
+    expect(ids(applyLibraryView(videos, view({ sortKey: 'duration', sortOrder: 'asc' })))).toEqual(['a', 'd', 'b', 'c']);
+    expect(ids(applyLibraryView(videos, view({ sortKey: 'duration', sortOrder: 'desc' })))).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  test('sorts resolution numerically and status in lifecycle order', () => {
+    expect(ids(applyLibraryView(videos, view({ sortKey: 'resolution', sortOrder: 'desc' })))).toEqual(['c', 'a', 'b', 'd']);
+    expect(ids(applyLibraryView(videos, view({ sortKey: 'status', sortOrder: 'asc' })))).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  test('puts pinned videos first in any sort order', () => {
+    const isPinned = (video: VideoItem) => video.assetId === 'a' || video.assetId === 'b';
+    expect(ids(applyLibraryView(videos, view(), undefined, isPinned))).toEqual(['b', 'a', 'c', 'd']);
+    expect(ids(applyLibraryView(videos, view({ sortKey: 'duration', sortOrder: 'asc' }), undefined, isPinned))).toEqual(['a', 'b', 'd', 'c']);
+  });
+
+  test('filters by status, resolution and aspect ratio', () => {
+    expect(ids(applyLibraryView(videos, view({}, { statuses: ['ready'] })))).toEqual(['d', 'a']);
+    expect(ids(applyLibraryView(videos, view({}, { resolutionTiers: ['720p', '2160p'] })))).toEqual(['c', 'b']);
+    expect(ids(applyLibraryView(videos, view({}, { aspectRatios: ['16:9'], statuses: ['ready'] })))).toEqual(['a']);
+  });
+
+  test('filters by an inclusive local date range', () => {
+    const result = applyLibraryView(videos, view({}, { dateFrom: '2024-05-10', dateTo: '2024-05-15' }));
+    expect(ids(result)).toEqual(['d', 'b']);
+  });
+
+  test('searches file names and asset IDs case-insensitively', () => {
+    const names: Record<string, string> = { a: 'Highlight Final.mp4', b: 'raw.mkv' };
+    const getName = (video: VideoItem) => names[video.assetId] ?? '';
+
+    expect(ids(applyLibraryView(videos, view({ query: 'highlight' }), getName))).toEqual(['a']);
+    expect(ids(applyLibraryView(videos, view({ query: '  C ' }), getName))).toEqual(['c']);
+  });
+});
+
+describe('countActiveFilters', () => {
+  test('counts each kind of condition once', () => {
+    expect(countActiveFilters(createDefaultLibraryView().filter)).toBe(0);
+    expect(countActiveFilters(view({}, { statuses: ['ready', 'errored'], dateTo: '2024-01-01' }).filter)).toBe(2);
+  });
+});
+
+describe('needsAllVideos', () => {
+  test('is needed for search, filters and any sort but newest first', () => {
+    expect(needsAllVideos(view())).toBe(false);
+    expect(needsAllVideos(view({ query: '  ' }))).toBe(false);
+    expect(needsAllVideos(view({ query: 'clip' }))).toBe(true);
+    expect(needsAllVideos(view({}, { statuses: ['ready'] }))).toBe(true);
+    expect(needsAllVideos(view({ sortOrder: 'asc' }))).toBe(true);
+    expect(needsAllVideos(view({ sortKey: 'duration' }))).toBe(true);
+  });
+});
+
+describe('normalizeLibraryView', () => {
+  test('restores a saved state', () => {
+    const saved = view({ query: 'clip', sortKey: 'duration', sortOrder: 'asc' }, { statuses: ['ready'], dateFrom: '2024-05-01' });
+    expect(normalizeLibraryView(JSON.parse(JSON.stringify(saved)))).toEqual(saved);
+  });
+
+  test('falls back to defaults for invalid values', () => {
+    const result = normalizeLibraryView({ sortKey: 'title', sortOrder: 'up', filter: { statuses: 'ready', dateFrom: 'yesterday' } });
+    expect(result).toEqual(createDefaultLibraryView());
+    expect(normalizeLibraryView(null)).toEqual(createDefaultLibraryView());
+  });
+});
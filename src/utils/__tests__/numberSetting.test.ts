@@ -0,0 +1,23 @@
+import { clampNumberSetting, type NumberSetting } from '../numberSetting';
+
+const setting: NumberSetting = { key: 'test-setting', min: 1, max: 10, defaultValue: 2 };
+
+describe('clampNumberSetting', () => {
+  test('keeps values inside the range', () => {
+    expect(clampNumberSetting(setting, 5)).toBe(5);
+  });
+
+  test('clamps values outside the range', () => {
+    expect(clampNumberSetting(setting, 0)).toBe(1);
+    expect(clampNumberSetting(setting, 42)).toBe(10);
+  });
+
+  test('rounds to an integer', () => {
+    expect(clampNumberSetting(setting, 3.6)).toBe(4);
+  });
+
+  test('falls back to the default for non-numeric values', () => {
+    expect(clampNumberSetting(setting, NaN)).toBe(2);
+    expect(clampNumberSetting(setting, Infinity)).toBe(2);
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  clampVolume,
+  getFrameStepTime,
+  getLevelLabel,
+  getPlayerShortcut,
+  JUMP_SECONDS,
+  SEEK_SECONDS,
+} from '../playerControls';
+
+describe('getPlayerShortcut', () => {
+  test('maps J/K/L, space and arrows', () => {
+    expect(getPlayerShortcut(' ')).toEqual({ type: 'togglePlay' });
+    expect(getPlayerShortcut('K')).toEqual({ type: 'togglePlay' });
+    expect(getPlayerShortcut('j')).toEqual({ type: 'seek', seconds: -JUMP_SECONDS });
+    expect(getPlayerShortcut('l')).toEqual({ type: 'seek', seconds: JUMP_SECONDS });
+    expect(getPlayerShortcut('ArrowLeft')).toEqual({ type: 'seek', seconds: -SEEK_SECONDS });
+    expect(getPlayerShortcut('ArrowUp')).toEqual({ type: 'volume', delta: 0.1 });
+    expect(getPlayerShortcut('.')).toEqual({ type: 'frameStep', frames: 1 });
+  });
+
+  test('ignores other keys', () => {
+    expect(getPlayerShortcut('a')).toBeNull();
+    expect(getPlayerShortcut('Enter')).toBeNull();
+  });
+});
+
+describe('getFrameStepTime', () => {
+  test('moves by one frame from the current frame', () => {
+    // Frame 30 at 30 fps → frame 31
+    expect(getFrameStepTime(1, 1, 30, 10)).toBeCloseTo(31.1 / 30);
+    expect(getFrameStepTime(1, -1, 30, 10)).toBeCloseTo(29.1 / 30);
+  });
+
+  test('stays within the video', () => {
+    expect(getFrameStepTime(0, -1, 30, 10)).toBeCloseTo(0.1 / 30);
+    expect(getFrameStepTime(10, 1, 30, 10)).toBe(10);
+    expect(getFrameStepTime(10, 1, 30, NaN)).toBeCloseTo(301.1 / 30);
+  });
+
+  test('uses 30 fps when the frame rate is unknown', () => {
+    expect(getFrameStepTime(0, 3, null, 10)).toBeCloseTo(3.1 / 30);
+  });
+});
+
+describe('clampVolume / getLevelLabel', () => {
+  test('keeps the volume between 0 and 1', () => {
+    expect(clampVolume(1.2)).toBe(1);
+    expect(clampVolume(-0.1)).toBe(0);
+    expect(clampVolume(0.7000001)).toBe(0.7);
+    expect(clampVolume(NaN)).toBe(1);
+  });
+
+  test('labels levels by height, or by bitrate', () => {
+    expect(getLevelLabel({ height: 720, bitrate: 2_500_000 })).toBe('720p');
+    expect(getLevelLabel({ bitrate: 800_000 })).toBe('800 kbps');
+  });
+});
@@ -0,0 +1,53 @@
+import { shouldRetry, getRetryDelayMs, getExitCode, type RetryPolicy } from '../retryPolicy';
+import type { IpcError } from '../../../electron/types/ipc';
+
+const policy: RetryPolicy = { maxRetries: 4, baseDelayMs: 2000, maxDelayMs: 60000 };
+
+function cliError(exitCode: number | undefined): IpcError {
+  return {
+    code: 'CLI_NON_ZERO_EXIT',
+    message: 'Upload command failed',
+    details: exitCode === undefined ? {} : { exitCode, hint: null },
+  };
+}
+
+describe('shouldRetry', () => {
+  test('retries system/network errors (exit code 3)', () => {
+    expect(shouldRetry(cliError(3), 1, policy)).toBe(true);
+  });
+
+  test('fails immediately on user and config errors', () => {
+    expect(shouldRetry(cliError(1), 1, policy)).toBe(false);
+    expect(shouldRetry(cliError(2), 1, policy)).toBe(false);
+  });
+
+  test('does not retry errors without an exit code or other error codes', () => {
+    expect(shouldRetry(cliError(undefined), 1, policy)).toBe(false);
+    expect(shouldRetry({ code: 'CLI_NOT_FOUND', message: 'missing' }, 1, policy)).toBe(false);
+  });
+
+  test('stops after maxRetries retries', () => {
+    expect(shouldRetry(cliError(3), 4, policy)).toBe(true);
+    expect(shouldRetry(cliError(3), 5, policy)).toBe(false);
+    expect(shouldRetry(cliError(3), 1, { ...policy, maxRetries: 0 })).toBe(false);
+  });
+});
+
+describe('getRetryDelayMs', () => {
+  test('doubles the delay for every failed attempt', () => {
+    expect(getRetryDelayMs(1, policy)).toBe(2000);
+    expect(getRetryDelayMs(2, policy)).toBe(4000);
+    expect(getRetryDelayMs(3, policy)).toBe(8000);
+  });
+
+  test('caps the delay at maxDelayMs', () => {
+    expect(getRetryDelayMs(10, policy)).toBe(60000);
+  });
+});
+
+describe('getExitCode', () => {
+  test('reads exitCode from error details', () => {
+    expect(getExitCode(cliError(3))).toBe(3);
+    expect(getExitCode({ code: 'UNKNOWN_ERROR', message: 'x' })).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+import { buildTemplateVariables } from '../templateVariables';
+import { parseTemplate } from '../templateEngine';
+import type { AssetMetadata } from '../../../electron/types/ipc';
+import type { VideoItem } from '../../types/app';
+
+const video: VideoItem = { assetId: 'asset-1', playbackId: 'play-1' };
+
+function metadata(patch: Partial<AssetMetadata>): AssetMetadata {
+  return {
+    assetId: 'asset-1',
+    title: '',
+    fileName: '',
+    notes: '',
+    tags: [],
+    syncPending: false,
+    pinned: false,
+    updatedAt: 0,
+    ...patch,
+  };
+}
+
+describe('buildTemplateVariables', () => {
+  test('uses the title and tags when they are set', () => {
+    const variables = buildTemplateVariables(
+      video,
+      metadata({ title: 'Intro', tags: ['a', 'b'], fileName: 'intro.mov' }),
+    );
+
+    expect(variables.TITLE).toBe('Intro');
+    expect(variables.TAGS).toBe('a, b');
+    expect(variables.FILE_NAME).toBe('intro.mov');
+  });
+
+  test('falls back for an asset without metadata so templates still render', () => {
+    const untitled = buildTemplateVariables(video, metadata({ fileName: 'clip.mp4' }));
+    expect(untitled.TITLE).toBe('clip.mp4');
+
+    for (const variables of [buildTemplateVariables(video), buildTemplateVariables(video, metadata({}))]) {
+      expect(variables.TITLE).toBe('asset-1');
+      expect(variables.TAGS).toBe('');
+      expect(variables.FILE_NAME).toBe('');
+      expect(parseTemplate('- [${TITLE}](${MP4_URL}) ${TAGS}${FILE_NAME}', variables)).toBe(
+        '- [asset-1](https://stream.mux.com/play-1/highest.mp4) ',
+      );
+    }
+  });
+});
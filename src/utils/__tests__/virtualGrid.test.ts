@@ -0,0 +1,62 @@
+import { computeVirtualRange, getGridColumns, type VirtualGridInput } from '../virtualGrid';
+
+function input(patch: Partial<VirtualGridInput> = {}): VirtualGridInput {
+  return {
+    itemCount: 100,
+    columns: 1,
+    rowHeight: 90,
+    gap: 10,
+    viewportTop: 0,
+    viewportHeight: 300,
+    overscanRows: 1,
+    ...patch,
+  };
+}
+
+describe('getGridColumns', () => {
+  test('fits as many minimum-width columns as possible', () => {
+    expect(getGridColumns(280, 200, 12)).toBe(1);
+    expect(getGridColumns(412, 200, 12)).toBe(2);
+    expect(getGridColumns(0, 200, 12)).toBe(1);
+  });
+});
+
+describe('computeVirtualRange', () => {
+  test('renders the visible rows plus overscan at the top', () => {
+    expect(computeVirtualRange(input())).toEqual({
+      start: 0,
+      end: 4,
+      paddingTop: 0,
+      paddingBottom: 96 * 100,
+    });
+  });
+
+  test('skips the rows above the viewport', () => {
+    const range = computeVirtualRange(input({ viewportTop: 1050 }));
+    expect(range.start).toBe(9);
+    expect(range.end).toBe(15);
+    expect(range.paddingTop).toBe(900);
+  });
+
+  test('keeps the total height constant', () => {
+    const range = computeVirtualRange(input({ columns: 3, itemCount: 50, viewportTop: 400 }));
+    const renderedRows = (range.end - range.start) / 3;
+    expect(range.start % 3).toBe(0);
+    expect(range.paddingTop + renderedRows * 100 + range.paddingBottom).toBe(Math.ceil(50 / 3) * 100);
+  });
+
+  test('clamps the last row to the item count', () => {
+    const range = computeVirtualRange(input({ columns: 3, itemCount: 10, viewportTop: 200 }));
+    expect(range.end).toBe(10);
+    expect(range.paddingBottom).toBe(0);
+  });
+
+  test('renders only the first rows until the size is known', () => {
+    expect(computeVirtualRange(input({ rowHeight: 0, columns: 2 }))).toEqual({
+      start: 0,
+      end: 4,
+      paddingTop: 0,
+      paddingBottom: 0,
+    });
+  });
+});
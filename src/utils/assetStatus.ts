@@ -0,0 +1,47 @@
+/**
+ * アセットの処理状況
+ *
+ * 処理中の動画（status が preparing など、MP4 の生成中）を判定し、
+ * 再取得した前後の状態から通知する変化を求める（純粋関数）
+ */
+
+import type { VideoItem } from '../types/app';
+
+/** 通知する状態の変化 */
+export type AssetStatusChange =
+  /** 再生できるようになった（status: ready） */
+  | 'playable'
+  /** MP4 をダウンロードできるようになった */
+  | 'downloadable'
+  /** 処理に失敗した（status: errored） */
+  | 'errored';
+
+/** これ以上変化しない status */
+const SETTLED_STATUSES = ['ready', 'errored'];
+
+/**
+ * 処理中で、状態を追いかける必要がある動画か
+ * - status が ready / errored 以外（preparing など）
+ * - MP4 の生成中
+ */
+export function needsStatusPolling(video: VideoItem): boolean {
+  const isProcessing = video.status !== undefined && !SETTLED_STATUSES.includes(video.status);
+  return isProcessing || video.mp4Status === 'generating';
+}
+
+/**
+ * 前後の状態から通知する変化を求める
+ */
+export function getStatusChanges(previous: VideoItem, next: VideoItem): AssetStatusChange[] {
+  const changes: AssetStatusChange[] = [];
+  if (previous.status !== 'ready' && next.status === 'ready' && next.playbackId) {
+    changes.push('playable');
+  }
+  if (previous.mp4Status !== 'ready' && next.mp4Status === 'ready' && next.playbackId) {
+    changes.push('downloadable');
+  }
+  if (previous.status !== 'errored' && next.status === 'errored') {
+    changes.push('errored');
+  }
+  return changes;
+}
@@ -0,0 +1,51 @@
+/**
+ * アセットのトラック情報
+ *
+ * 一覧で取得したトラック（tracks）から、映像の実際の解像度・フレームレートと音声の有無を求める（純粋関数）
+ * トラックがまだない（処理中・古いCLI）場合は不明として null を返す
+ */
+
+import type { VideoItem } from '../types/app';
+
+/** 映像の解像度（ピクセル） */
+export interface VideoDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * 映像トラックの解像度
+ */
+export function getVideoDimensions(video: VideoItem): VideoDimensions | null {
+  const track = video.tracks?.find(
+    (t) => t.type === 'video' && t.maxWidth !== null && t.maxHeight !== null,
+  );
+  if (!track || track.maxWidth === null || track.maxHeight === null) return null;
+  return { width: track.maxWidth, height: track.maxHeight };
+}
+
+/**
+ * 映像のフレームレート（コマ送りに使う、不明な場合は null）
+ */
+export function getFrameRate(video: VideoItem): number | null {
+  const track = video.tracks?.find(
+    (t) => t.type === 'video' && t.maxFrameRate !== null && t.maxFrameRate > 0,
+  );
+  return track?.maxFrameRate ?? null;
+}
+
+/**
+ * 音声トラックがあるか（トラックが不明な場合は null）
+ */
+export function hasAudioTrack(video: VideoItem): boolean | null {
+  if (!video.tracks || video.tracks.length === 0) return null;
+  return video.tracks.some((t) => t.type === 'audio');
+}
+
+/**
+ * 音声のチャンネル数（音声トラックがない、または不明な場合は null）
+ */
+export function getAudioChannels(video: VideoItem): number | null {
+  const track = video.tracks?.find((t) => t.type === 'audio');
+  return track?.maxChannels ?? null;
+}
@@ -0,0 +1,87 @@
+/**
+ * アップロード前の重複チェック
+ *
+ * Main で計算したフィンガープリント（サイズ + 内容のハッシュ）と履歴の照合結果をもとに、
+ * そのままキューに追加するファイルとユーザーの判断が必要なファイルに振り分ける
+ * キュー内の重複はここで判定する（Main はキューを知らないため）
+ */
+
+import type { UploadDuplicateCheckResult } from '../../electron/types/ipc';
+import type { DuplicateFile, QueueItem } from '../types/app';
+
+/** キューに追加するファイル */
+export interface FileToEnqueue {
+  filePath: string;
+  fileName: string;
+  fingerprint?: string;
+}
+
+/** 振り分け結果 */
+export interface DuplicateClassification {
+  /** 重複がなく、そのままキューに追加するファイル */
+  unique: FileToEnqueue[];
+  /** 重複の可能性があるファイル */
+  duplicates: DuplicateFile[];
+}
+
+/**
+ * ファイルを重複なし・重複ありに振り分ける
+ *
+ * @param files - 追加しようとしているファイル
+ * @param results - uploadHistory:findDuplicates の結果（files と同じ順序）
+ * @param queueItems - 現在のキュー（完了済みを含む）
+ */
+export function classifyDuplicates(
+  files: { filePath: string; fileName: string }[],
+  results: UploadDuplicateCheckResult[],
+  queueItems: Pick<QueueItem, 'fingerprint' | 'assetId'>[],
+): DuplicateClassification {
+  const queued = new Map<string, Pick<QueueItem, 'assetId'>>();
+  for (const item of queueItems) {
+    if (item.fingerprint) {
+      queued.set(item.fingerprint, item);
+    }
+  }
+
+  const unique: FileToEnqueue[] = [];
+  const duplicates: DuplicateFile[] = [];
+
+  files.forEach((file, index) => {
+    const result = results[index];
+    const fingerprint = result?.fingerprint ?? null;
+
+    // 読めないファイルはチェックせずに追加（エラーはアップロード時に表示）
+    if (!fingerprint) {
+      unique.push({ ...file });
+      return;
+    }
+
+    const inQueue = queued.get(fingerprint);
+    if (inQueue) {
+      duplicates.push({
+        ...file,
+        fingerprint,
+        reason: 'queue',
+        existingAssetId: inQueue.assetId,
+      });
+      return;
+    }
+
+    if (result.previous) {
+      duplicates.push({
+        ...file,
+        fingerprint,
+        reason: 'history',
+        existingAssetId: result.previous.assetId,
+        existingFileName: result.previous.fileName,
+      });
+      return;
+    }
+
+    // 同時に追加した中での重複も検出する
+    queued.set(fingerprint, {});
+    unique.push({ ...file, fingerprint });
+  });
+
+  return { unique, duplicates };
+}
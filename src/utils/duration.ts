@@ -0,0 +1,19 @@
+/**
+ * 再生時間の表示
+ *
+ * 情報パネル・ダッシュボード・コピーテンプレートで共通
+ */
+
+/**
+ * 秒数を H:MM:SS（1時間未満は M:SS）形式にフォーマット
+ */
+export function formatDuration(seconds: number): string {
+  const hrs = Math.floor(seconds / 3600);
+  const mins = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60);
+
+  if (hrs > 0) {
+    return `${hrs}:${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+  }
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+}
@@ -0,0 +1,149 @@
+/**
+ * ライブラリの使用状況
+ *
+ * 一覧（全件）から保存中の動画の本数・分数、解像度別・月別の内訳、
+ * 大きい動画・長い動画を集計し、設定した上限に対する使用率を求める（純粋関数）
+ */
+
+import type { VideoItem } from '../types/app';
+import { getCreatedAtMs, getResolutionRank } from './libraryView';
+import { getVideoDimensions } from './assetTracks';
+
+/** 内訳の1行 */
+export interface LibraryStatsGroup {
+  /** 解像度（"1080p"、不明は空文字）または月（"YYYY-MM"、不明は空文字） */
+  key: string;
+  count: number;
+  /** 合計の長さ（秒） */
+  seconds: number;
+}
+
+/** ライブラリの使用状況 */
+export interface LibraryStats {
+  totalAssets: number;
+  /** 保存中の合計の長さ（秒） */
+  totalSeconds: number;
+  /** 解像度別（高い順、不明は最後） */
+  byResolution: LibraryStatsGroup[];
+  /** 月別（新しい順、不明は最後） */
+  byMonth: LibraryStatsGroup[];
+  /** 大きい動画（解像度 × 長さの順） */
+  largest: VideoItem[];
+  /** 長い動画 */
+  longest: VideoItem[];
+}
+
+/** 使用量の上限（0 = 上限なし） */
+export interface LibraryQuota {
+  maxAssets: number;
+  maxStoredMinutes: number;
+  /** 警告を出す使用率（%） */
+  warnPercent: number;
+}
+
+/** 上限に対する状態 */
+export type QuotaLevel = 'ok' | 'warning' | 'exceeded';
+
+/** 上限に対する使用率（上限なしは null） */
+export interface QuotaUsage {
+  /** 本数の使用率（0〜、1 = 上限） */
+  assets: number | null;
+  /** 分数の使用率 */
+  storedMinutes: number | null;
+  /** 本数・分数のうち厳しい方の状態 */
+  level: QuotaLevel;
+}
+
+/** 大きい動画・長い動画の件数 */
+export const TOP_ASSET_COUNT = 5;
+
+/**
+ * 保存量の目安（ピクセル数 × 秒）
+ * 映像トラックの解像度、なければ解像度ティア（16:9 とみなす）から求める
+ */
+export function getStorageWeight(video: VideoItem): number | null {
+  if (!video.duration) return null;
+  const dimensions = getVideoDimensions(video);
+  if (dimensions) {
+    return dimensions.width * dimensions.height * video.duration;
+  }
+  const height = getResolutionRank(video);
+  if (height === null) return null;
+  return Math.round((height * 16) / 9) * height * video.duration;
+}
+
+/** 作成月（ローカル時刻の "YYYY-MM"、不明は空文字） */
+function getMonthKey(video: VideoItem): string {
+  const ms = getCreatedAtMs(video);
+  if (ms === null) return '';
+  const date = new Date(ms);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function groupBy(videos: VideoItem[], getKey: (video: VideoItem) => string): LibraryStatsGroup[] {
+  const groups = new Map<string, LibraryStatsGroup>();
+  for (const video of videos) {
+    const key = getKey(video);
+    const group = groups.get(key) ?? { key, count: 0, seconds: 0 };
+    group.count += 1;
+    group.seconds += video.duration ?? 0;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+/** 降順に並べて上位を取る（値がないものは除く） */
+function top(videos: VideoItem[], getValue: (video: VideoItem) => number | null): VideoItem[] {
+  return videos
+    .map((video) => ({ video, value: getValue(video) }))
+    .filter((entry): entry is { video: VideoItem; value: number } => entry.value !== null && entry.value > 0)
+    .sort((a, b) => b.value - a.value)
+    .slice(0, TOP_ASSET_COUNT)
+    .map((entry) => entry.video);
+}
+
+/**
+ * 使用状況を集計
+ */
+export function computeLibraryStats(videos: VideoItem[]): LibraryStats {
+  const byResolution = groupBy(videos, (video) => video.resolutionTier ?? '').sort((a, b) => {
+    const rankA = parseInt(a.key, 10);
+    const rankB = parseInt(b.key, 10);
+    if (Number.isNaN(rankA) || Number.isNaN(rankB)) {
+      return Number(Number.isNaN(rankA)) - Number(Number.isNaN(rankB));
+    }
+    return rankB - rankA;
+  });
+
+  const byMonth = groupBy(videos, getMonthKey).sort((a, b) => {
+    if (!a.key || !b.key) return Number(!a.key) - Number(!b.key);
+    return b.key.localeCompare(a.key);
+  });
+
+  return {
+    totalAssets: videos.length,
+    totalSeconds: videos.reduce((sum, video) => sum + (video.duration ?? 0), 0),
+    byResolution,
+    byMonth,
+    largest: top(videos, getStorageWeight),
+    longest: top(videos, (video) => video.duration ?? null),
+  };
+}
+
+/**
+ * 上限に対する使用率を求める
+ */
+export function getQuotaUsage(stats: LibraryStats, quota: LibraryQuota): QuotaUsage {
+  const assets = quota.maxAssets > 0 ? stats.totalAssets / quota.maxAssets : null;
+  const storedMinutes =
+    quota.maxStoredMinutes > 0 ? stats.totalSeconds / 60 / quota.maxStoredMinutes : null;
+
+  const highest = Math.max(assets ?? 0, storedMinutes ?? 0);
+  let level: QuotaLevel = 'ok';
+  if (highest >= 1) {
+    level = 'exceeded';
+  } else if (highest >= quota.warnPercent / 100) {
+    level = 'warning';
+  }
+  return { assets, storedMinutes, level };
+}
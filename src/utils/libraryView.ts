@@ -0,0 +1,227 @@
+/**
+ * ライブラリの検索・並び替え・絞り込み
+ *
+ * LibraryView のツールバーの状態から表示する動画の一覧を作る（純粋関数）
+ */
+
+import type { VideoItem } from '../types/app';
+
+/** 並び替えのキー */
+export type LibrarySortKey = 'createdAt' | 'duration' | 'resolution' | 'status';
+
+/** 並び順 */
+export type LibrarySortOrder = 'asc' | 'desc';
+
+/** 絞り込みできるステータス（表示順） */
+export const LIBRARY_STATUSES = ['ready', 'preparing', 'errored'] as const;
+
+/** 並び替えのキー（表示順） */
+export const LIBRARY_SORT_KEYS: LibrarySortKey[] = ['createdAt', 'duration', 'resolution', 'status'];
+
+/** 絞り込み条件（空の配列・null は条件なし） */
+export interface LibraryFilter {
+  statuses: string[];
+  resolutionTiers: string[];
+  aspectRatios: string[];
+  /** 作成日の下限（YYYY-MM-DD、ローカル日付、その日を含む） */
+  dateFrom: string | null;
+  /** 作成日の上限（YYYY-MM-DD、ローカル日付、その日を含む） */
+  dateTo: string | null;
+}
+
+/** ツールバーの状態 */
+export interface LibraryViewState {
+  query: string;
+  sortKey: LibrarySortKey;
+  sortOrder: LibrarySortOrder;
+  filter: LibraryFilter;
+}
+
+/** 既定の状態（新しい順・絞り込みなし） */
+export function createDefaultLibraryView(): LibraryViewState {
+  return {
+    query: '',
+    sortKey: 'createdAt',
+    sortOrder: 'desc',
+    filter: {
+      statuses: [],
+      resolutionTiers: [],
+      aspectRatios: [],
+      dateFrom: null,
+      dateTo: null,
+    },
+  };
+}
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function toDate(value: unknown): string | null {
+  return typeof value === 'string' && DATE_PATTERN.test(value) ? value : null;
+}
+
+/**
+ * 保存された値（localStorage の JSON）を検証して状態に戻す
+ * 不正な項目は既定値にする
+ */
+export function normalizeLibraryView(value: unknown): LibraryViewState {
+  const state = createDefaultLibraryView();
+  if (typeof value !== 'object' || value === null) {
+    return state;
+  }
+
+  const raw = value as Record<string, unknown>;
+  if (typeof raw.query === 'string') {
+    state.query = raw.query;
+  }
+  if (LIBRARY_SORT_KEYS.includes(raw.sortKey as LibrarySortKey)) {
+    state.sortKey = raw.sortKey as LibrarySortKey;
+  }
+  if (raw.sortOrder === 'asc' || raw.sortOrder === 'desc') {
+    state.sortOrder = raw.sortOrder;
+  }
+
+  const filter = (typeof raw.filter === 'object' && raw.filter !== null ? raw.filter : {}) as Record<string, unknown>;
+  state.filter = {
+    statuses: toStringArray(filter.statuses),
+    resolutionTiers: toStringArray(filter.resolutionTiers),
+    aspectRatios: toStringArray(filter.aspectRatios),
+    dateFrom: toDate(filter.dateFrom),
+    dateTo: toDate(filter.dateTo),
+  };
+  return state;
+}
+
+/** 有効な絞り込み条件の数（ツールバーのバッジ表示用） */
+export function countActiveFilters(filter: LibraryFilter): number {
+  return (
+    (filter.statuses.length > 0 ? 1 : 0) +
+    (filter.resolutionTiers.length > 0 ? 1 : 0) +
+    (filter.aspectRatios.length > 0 ? 1 : 0) +
+    (filter.dateFrom || filter.dateTo ? 1 : 0)
+  );
+}
+
+/**
+ * 表示にすべての動画が必要か（検索・絞り込み・既定以外の並び替え）
+ * 一覧をページ単位で読み込んでいる場合、読み込み済みの動画だけでは結果が欠ける
+ */
+export function needsAllVideos(state: LibraryViewState): boolean {
+  const defaults = createDefaultLibraryView();
+  return (
+    state.query.trim() !== '' ||
+    countActiveFilters(state.filter) > 0 ||
+    state.sortKey !== defaults.sortKey ||
+    state.sortOrder !== defaults.sortOrder
+  );
+}
+
+/** 作成日時（Unix 秒の文字列）を ms に変換 */
+export function getCreatedAtMs(video: VideoItem): number | null {
+  const seconds = Number(video.createdAt);
+  return video.createdAt && Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+/** YYYY-MM-DD をローカル日付の 0:00 (ms) に変換 */
+function parseLocalDate(date: string): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).getTime();
+}
+
+/** 解像度の並び替え用の値（"1080p" → 1080、不明は null） */
+export function getResolutionRank(video: VideoItem): number | null {
+  const height = parseInt(video.resolutionTier ?? '', 10);
+  return Number.isFinite(height) ? height : null;
+}
+
+/** ステータスの並び替え用の値（ready → preparing → errored → その他） */
+function getStatusRank(video: VideoItem): number | null {
+  if (!video.status) return null;
+  const index = (LIBRARY_STATUSES as readonly string[]).indexOf(video.status);
+  return index === -1 ? LIBRARY_STATUSES.length : index;
+}
+
+function getSortValue(video: VideoItem, key: LibrarySortKey): number | null {
+  switch (key) {
+    case 'createdAt':
+      return getCreatedAtMs(video);
+    case 'duration':
+      return video.duration ?? null;
+    case 'resolution':
+      return getResolutionRank(video);
+    case 'status':
+      return getStatusRank(video);
+  }
+}
+
+function matchesFilter(video: VideoItem, filter: LibraryFilter): boolean {
+  if (filter.statuses.length > 0 && !filter.statuses.includes(video.status ?? '')) {
+    return false;
+  }
+  if (filter.resolutionTiers.length > 0 && !filter.resolutionTiers.includes(video.resolutionTier ?? '')) {
+    return false;
+  }
+  if (filter.aspectRatios.length > 0 && !filter.aspectRatios.includes(video.aspectRatio ?? '')) {
+    return false;
+  }
+
+  if (filter.dateFrom || filter.dateTo) {
+    const createdAt = getCreatedAtMs(video);
+    if (createdAt === null) return false;
+    if (filter.dateFrom && createdAt < parseLocalDate(filter.dateFrom)) return false;
+    // 上限の日を含めるため翌日の 0:00 未満で判定
+    if (filter.dateTo) {
+      const end = new Date(parseLocalDate(filter.dateTo));
+      end.setDate(end.getDate() + 1);
+      if (createdAt >= end.getTime()) return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * 検索・絞り込み・並び替えを適用した一覧を返す
+ *
+ * ピン留めした動画は並び順に関わらず先頭に置く。
+ * 値のない項目（解像度不明など）は並び順に関わらず末尾に置き、
+ * 同じ値の場合は新しい順にする
+ *
+ * @param videos - 全動画
+ * @param state - ツールバーの状態
+ * @param getSearchText - 検索対象の文字列（ファイル名など）。アセットIDは常に対象
+ * @param isPinned - ピン留めされているか
+ */
+export function applyLibraryView(
+  videos: VideoItem[],
+  state: LibraryViewState,
+  getSearchText: (video: VideoItem) => string = () => '',
+  isPinned: (video: VideoItem) => boolean = () => false,
+): VideoItem[] {
+  const needle = state.query.trim().toLowerCase();
+  const direction = state.sortOrder === 'asc' ? 1 : -1;
+
+  return videos
+    .filter((video) => {
+      if (needle) {
+        const haystack = `${getSearchText(video)} ${video.assetId}`.toLowerCase();
+        if (!haystack.includes(needle)) return false;
+      }
+      return matchesFilter(video, state.filter);
+    })
+    .map((video) => ({ video, pinned: isPinned(video), value: getSortValue(video, state.sortKey) }))
+    .sort((a, b) => {
+      if (a.pinned !== b.pinned) {
+        return a.pinned ? -1 : 1;
+      }
+      if (a.value !== b.value) {
+        if (a.value === null) return 1;
+        if (b.value === null) return -1;
+        return (a.value - b.value) * direction;
+      }
+      return (getCreatedAtMs(b.video) ?? 0) - (getCreatedAtMs(a.video) ?? 0);
+    })
+    .map(({ video }) => video);
+}
@@ -48,7 +48,7 @@ export function getHlsUrl(playbackId: string): string {
 }
 
 /**
- * MP4 ダウンロードURLを生成（将来用）
+ * MP4 ダウンロードURLを生成（リンクのコピー・MP4 のダウンロードで使用）
  */
 export function getMp4Url(playbackId: string): string {
   return `${MUX_STREAM_BASE}/${playbackId}/highest.mp4`;
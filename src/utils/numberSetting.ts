@@ -0,0 +1,46 @@
+/**
+ * 数値の設定値（localStorage に保存する範囲付きの整数）
+ *
+ * アップロード設定とライブラリの上限設定で共通に使う
+ */
+
+import type { Ref } from 'vue';
+
+/** 数値の設定項目 */
+export interface NumberSetting {
+  /** localStorage のキー */
+  key: string;
+  min: number;
+  max: number;
+  defaultValue: number;
+}
+
+/**
+ * 値を範囲内の整数にする（数値でなければ既定値）
+ */
+export function clampNumberSetting(setting: NumberSetting, value: number): number {
+  if (!Number.isFinite(value)) {
+    return setting.defaultValue;
+  }
+  return Math.min(setting.max, Math.max(setting.min, Math.round(value)));
+}
+
+/**
+ * 保存された値を読み込む（未保存なら既定値）
+ */
+export function loadNumberSetting(setting: NumberSetting): number {
+  const stored = localStorage.getItem(setting.key);
+  if (stored === null) {
+    return setting.defaultValue;
+  }
+  return clampNumberSetting(setting, parseInt(stored, 10));
+}
+
+/**
+ * 範囲内に収めた値を反映して保存する
+ */
+export function saveNumberSetting(setting: NumberSetting, target: Ref<number>, value: number): void {
+  const clamped = clampNumberSetting(setting, value);
+  target.value = clamped;
+  localStorage.setItem(setting.key, String(clamped));
+}
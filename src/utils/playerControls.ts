@@ -0,0 +1,113 @@
+/**
+ * プレイヤー操作
+ *
+ * 再生速度・コマ送り・キーボードショートカット・画質の表示名（純粋関数）
+ * @see src/features/player/VideoPlayer.vue
+ */
+
+/** 選べる再生速度 */
+export const PLAYBACK_RATES: readonly number[] = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+/** フレームレートが不明な場合に使う値（コマ送り用） */
+export const DEFAULT_FRAME_RATE = 30;
+
+/** J / L キーで移動する秒数 */
+export const JUMP_SECONDS = 10;
+
+/** ← / → キーで移動する秒数 */
+export const SEEK_SECONDS = 5;
+
+/** ↑ / ↓ キーで変える音量 */
+export const VOLUME_STEP = 0.1;
+
+/** キーボードショートカットの操作 */
+export type PlayerShortcut =
+  | { type: 'togglePlay' }
+  | { type: 'seek'; seconds: number }
+  | { type: 'frameStep'; frames: number }
+  | { type: 'volume'; delta: number }
+  | { type: 'toggleMute' }
+  | { type: 'toggleFullscreen' };
+
+/**
+ * キーに対応する操作（対応しないキーは null）
+ * - Space / K: 再生・一時停止
+ * - J / L: 10秒戻る・進む、← / →: 5秒戻る・進む
+ * - , / .: 1コマ戻る・進む（一時停止する）
+ * - ↑ / ↓: 音量、M: ミュート、F: 全画面
+ */
+export function getPlayerShortcut(key: string): PlayerShortcut | null {
+  switch (key) {
+    case ' ':
+    case 'k':
+    case 'K':
+      return { type: 'togglePlay' };
+    case 'j':
+    case 'J':
+      return { type: 'seek', seconds: -JUMP_SECONDS };
+    case 'l':
+    case 'L':
+      return { type: 'seek', seconds: JUMP_SECONDS };
+    case 'ArrowLeft':
+      return { type: 'seek', seconds: -SEEK_SECONDS };
+    case 'ArrowRight':
+      return { type: 'seek', seconds: SEEK_SECONDS };
+    case ',':
+      return { type: 'frameStep', frames: -1 };
+    case '.':
+      return { type: 'frameStep', frames: 1 };
+    case 'ArrowUp':
+      return { type: 'volume', delta: VOLUME_STEP };
+    case 'ArrowDown':
+      return { type: 'volume', delta: -VOLUME_STEP };
+    case 'm':
+    case 'M':
+      return { type: 'toggleMute' };
+    case 'f':
+    case 'F':
+      return { type: 'toggleFullscreen' };
+    default:
+      return null;
+  }
+}
+
+/**
+ * コマ送り先の再生位置（秒）
+ *
+ * 現在のフレーム番号から数え、フレームの境界より少し後ろに合わせる
+ * （境界ちょうどだと前のフレームが表示されることがあるため）
+ *
+ * @param currentTime - 現在の再生位置（秒）
+ * @param frames - 進めるフレーム数（負の値で戻る）
+ * @param frameRate - フレームレート（不明な場合は DEFAULT_FRAME_RATE）
+ * @param duration - 動画の長さ（秒、不明な場合は NaN / Infinity）
+ */
+export function getFrameStepTime(
+  currentTime: number,
+  frames: number,
+  frameRate: number | null,
+  duration: number,
+): number {
+  const fps = frameRate !== null && frameRate > 0 ? frameRate : DEFAULT_FRAME_RATE;
+  const frame = Math.max(0, Math.round(currentTime * fps) + frames);
+  const time = (frame + 0.1) / fps;
+  return Number.isFinite(duration) ? Math.min(time, duration) : time;
+}
+
+/**
+ * 音量を 0〜1 に収める
+ */
+export function clampVolume(volume: number): number {
+  if (!Number.isFinite(volume)) return 1;
+  return Math.min(1, Math.max(0, Math.round(volume * 100) / 100));
+}
+
+/**
+ * 画質（HLS のレベル）の表示名
+ * 高さが分からない場合はビットレートで表す
+ */
+export function getLevelLabel(level: { height?: number; bitrate?: number }): string {
+  if (level.height) return `${level.height}p`;
+  if (level.bitrate) return `${Math.round(level.bitrate / 1000)} kbps`;
+  return '?';
+}
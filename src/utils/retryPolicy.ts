@@ -0,0 +1,64 @@
+/**
+ * アップロード再試行ポリシー
+ *
+ * 失敗したアップロードを自動で再試行するか、次の試行までの待ち時間（指数バックオフ）を決める
+ * 再試行対象はシステムエラー（CLI 終了コード 3）のみ。ユーザーエラー(1)・設定エラー(2)は即失敗
+ * @see docs/CLI_CONTRACT.md - 終了コード
+ */
+
+import type { IpcError } from '../../electron/types/ipc';
+
+/** 再試行対象の CLI 終了コード */
+export const RETRYABLE_EXIT_CODES: readonly number[] = [3];
+
+/** 再試行ポリシー */
+export interface RetryPolicy {
+  /** 初回以降の自動再試行回数（0 = 再試行しない） */
+  maxRetries: number;
+  /** 初回再試行までの待ち時間（ミリ秒）。以降は再試行ごとに2倍 */
+  baseDelayMs: number;
+  /** 1回あたりの待ち時間の上限（ミリ秒） */
+  maxDelayMs: number;
+}
+
+/**
+ * アップロードエラーから CLI の終了コードを取り出す
+ */
+export function getExitCode(error: IpcError): number | null {
+  const details = error.details;
+  if (typeof details !== 'object' || details === null) {
+    return null;
+  }
+  const exitCode = (details as { exitCode?: unknown }).exitCode;
+  return typeof exitCode === 'number' ? exitCode : null;
+}
+
+/**
+ * 失敗した試行を再試行すべきか判定
+ *
+ * @param error - 失敗した試行のエラー
+ * @param attempt - 失敗した試行の番号（1 = 初回）
+ * @param policy - 再試行ポリシー
+ */
+export function shouldRetry(error: IpcError, attempt: number, policy: RetryPolicy): boolean {
+  if (error.code !== 'CLI_NON_ZERO_EXIT') {
+    return false;
+  }
+  const exitCode = getExitCode(error);
+  if (exitCode === null || !RETRYABLE_EXIT_CODES.includes(exitCode)) {
+    return false;
+  }
+  return attempt <= policy.maxRetries;
+}
+
+/**
+ * 失敗した試行の次の再試行までの待ち時間
+ *
+ * @param attempt - 失敗した試行の番号（1 = 初回）
+ * @param policy - 再試行ポリシー
+ * @returns baseDelayMs * 2^(attempt - 1)（maxDelayMs で頭打ち）
+ */
+export function getRetryDelayMs(attempt: number, policy: RetryPolicy): number {
+  const exponent = Math.max(0, attempt - 1);
+  return Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** exponent);
+}
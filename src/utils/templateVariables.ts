@@ -0,0 +1,57 @@
+/**
+ * コピーテンプレートの変数
+ *
+ * 動画1件からテンプレートに渡す変数（${ASSET_ID} など）を組み立てる
+ * コンテキストメニューと一括コピーで共通
+ */
+
+import type { VideoItem } from '../types/app';
+import type { AssetMetadata } from '../../electron/types/ipc';
+import { getMp4Url, getHlsUrl, getThumbnailUrl, getAnimatedGifUrl } from './muxUrls';
+import { getVideoDimensions, hasAudioTrack, getAudioChannels } from './assetTracks';
+import { formatDuration } from './duration';
+
+/**
+ * 動画のテンプレート変数を構築
+ *
+ * メタ情報は未設定が普通なので、null（テンプレートで使うとエラー）にはしない
+ * - TITLE: タイトル → 元のファイル名 → アセットID の順に使う
+ * - TAGS / FILE_NAME: 未設定なら空文字
+ *
+ * @param metadata - ローカルのメタ情報
+ */
+export function buildTemplateVariables(
+  video: VideoItem,
+  metadata?: AssetMetadata,
+): Record<string, string | number | null> {
+  const playbackId = video.playbackId;
+  const dimensions = getVideoDimensions(video);
+  const hasAudio = hasAudioTrack(video);
+
+  return {
+    ASSET_ID: video.assetId,
+    PLAYBACK_ID: playbackId,
+    DURATION: video.duration ?? null,
+    DURATION_FORMATTED: video.duration ? formatDuration(video.duration) : null,
+    STATUS: video.status ?? null,
+    RESOLUTION: video.resolutionTier ?? null,
+    ASPECT_RATIO: video.aspectRatio ?? null,
+    FRAME_RATE: video.maxFrameRate ?? null,
+    CREATED_AT: video.createdAt ?? null,
+    WIDTH: dimensions?.width ?? null,
+    HEIGHT: dimensions?.height ?? null,
+    DIMENSIONS: dimensions ? `${dimensions.width}x${dimensions.height}` : null,
+    HAS_AUDIO: hasAudio === null ? null : String(hasAudio),
+    AUDIO_CHANNELS: getAudioChannels(video),
+    VIDEO_QUALITY: video.videoQuality ?? null,
+    ENCODING_TIER: video.encodingTier ?? null,
+    MP4_STATUS: video.mp4Status ?? null,
+    HLS_URL: playbackId ? getHlsUrl(playbackId) : null,
+    MP4_URL: playbackId ? getMp4Url(playbackId) : null,
+    THUMBNAIL_URL: playbackId ? getThumbnailUrl(playbackId) : null,
+    GIF_URL: playbackId ? getAnimatedGifUrl(playbackId) : null,
+    TITLE: metadata?.title || metadata?.fileName || video.assetId,
+    TAGS: metadata ? metadata.tags.join(', ') : '',
+    FILE_NAME: metadata?.fileName ?? '',
+  };
+}
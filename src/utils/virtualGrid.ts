@@ -0,0 +1,84 @@
+/**
+ * 仮想グリッドの計算
+ *
+ * 一覧のうち表示範囲（前後の余白行を含む）にある項目だけを描画するための範囲と、
+ * 描画しない行の高さ（上下のパディング）を求める
+ */
+
+/** 表示範囲の計算に使う値 */
+export interface VirtualGridInput {
+  /** 項目数 */
+  itemCount: number;
+  /** 列数 */
+  columns: number;
+  /** 1行の高さ（px） */
+  rowHeight: number;
+  /** 行間（px） */
+  gap: number;
+  /** グリッド上端から見たスクロール位置（px、グリッドより上なら負） */
+  viewportTop: number;
+  /** 表示領域の高さ（px） */
+  viewportHeight: number;
+  /** 表示範囲の前後に余分に描画する行数 */
+  overscanRows: number;
+}
+
+/** 描画する範囲 */
+export interface VirtualGridRange {
+  /** 描画する最初の項目のインデックス */
+  start: number;
+  /** 描画する最後の項目の次のインデックス */
+  end: number;
+  /** 描画しない上側の行の高さ（px） */
+  paddingTop: number;
+  /** 描画しない下側の行の高さ（px） */
+  paddingBottom: number;
+}
+
+/**
+ * グリッドの幅から列数を求める（最低1列）
+ */
+export function getGridColumns(width: number, minColumnWidth: number, gap: number): number {
+  if (width <= 0 || minColumnWidth <= 0) {
+    return 1;
+  }
+  return Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)));
+}
+
+/**
+ * 描画する範囲を求める
+ *
+ * 範囲は行単位（列数の倍数）で、上下のパディングと描画する行の合計は常にグリッド全体の高さになる
+ */
+export function computeVirtualRange(input: VirtualGridInput): VirtualGridRange {
+  const { itemCount, gap, viewportTop, viewportHeight, overscanRows } = input;
+  const columns = Math.max(1, input.columns);
+  const stride = input.rowHeight + gap;
+  const totalRows = Math.ceil(itemCount / columns);
+
+  // 高さが測れない間は先頭の数行だけ描画する
+  if (input.rowHeight <= 0 || totalRows === 0) {
+    return {
+      start: 0,
+      end: Math.min(itemCount, (overscanRows + 1) * columns),
+      paddingTop: 0,
+      paddingBottom: 0,
+    };
+  }
+
+  const firstRow = Math.min(
+    totalRows,
+    Math.max(0, Math.floor(Math.max(0, viewportTop) / stride) - overscanRows),
+  );
+  const lastRow = Math.min(
+    totalRows,
+    Math.max(firstRow, Math.ceil((viewportTop + viewportHeight) / stride) + overscanRows),
+  );
+
+  return {
+    start: firstRow * columns,
+    end: Math.min(itemCount, lastRow * columns),
+    paddingTop: firstRow * stride,
+    paddingBottom: (totalRows - lastRow) * stride,
+  };
+}